@@ -0,0 +1,37 @@
+/**
+ * REST api-version negotiation for Azure DevOps Server
+ * Older on-prem servers reject newer api-versions with VssVersionOutOfRangeException,
+ * whose message names the latest version the server supports.
+ */
+
+const OUT_OF_RANGE_PATTERN = /latest REST API version this server supports is ([\d.]+)/i;
+const API_VERSION_PATTERN = /^(\d+)\.(\d+)(.*)$/;
+
+/**
+ * Extract the highest supported api-version from an out-of-range error message
+ */
+export function parseSupportedApiVersion(message: string | undefined): string | undefined {
+    const match = message?.match(OUT_OF_RANGE_PATTERN);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * Lower a requested api-version to the server maximum, keeping any -preview suffix
+ * e.g. clampApiVersion('7.1-preview.1', '7.0') === '7.0-preview.1'
+ */
+export function clampApiVersion(requested: string, max: string): string {
+    const req = requested.match(API_VERSION_PATTERN);
+    const lim = max.match(API_VERSION_PATTERN);
+    if (!req || !lim) {
+        return requested;
+    }
+
+    const [reqMajor, reqMinor] = [Number(req[1]), Number(req[2])];
+    const [maxMajor, maxMinor] = [Number(lim[1]), Number(lim[2])];
+
+    if (reqMajor < maxMajor || (reqMajor === maxMajor && reqMinor <= maxMinor)) {
+        return requested;
+    }
+
+    return `${maxMajor}.${maxMinor}${req[3]}`;
+}
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { AzureDevOpsAuthProvider } from '../authentication/authProvider';
 import {
     Pipeline,
@@ -16,11 +16,36 @@ import {
     ServiceEndpoint,
     AgentPool,
     Agent,
+    AgentJobRequest,
+    ResourceUsage,
     PipelineRunOptions,
     RuntimeParameter,
     TaskDefinition,
-    InstalledExtension
+    InstalledExtension,
+    PagedResult,
+    PipelineFolder,
+    PipelineFavorite,
+    PipelineApproval,
+    PipelineCheck,
+    ApprovalStatus,
+    EnvironmentDeploymentRecord
 } from '../models/types';
+import {
+    DEFAULT_RETRY_POLICY,
+    RetryableRequestConfig,
+    getRetryDelay,
+    getThrottleDelay,
+    isRetryable,
+    sleep
+} from './retryPolicy';
+import { CACHE_TTL, ResponseCache } from './responseCache';
+import { clampApiVersion, parseSupportedApiVersion } from './apiVersion';
+
+// Identical error notifications within this window are collapsed into one
+const ERROR_NOTIFICATION_COOLDOWN_MS = 15000;
+
+// Favorites API artifact type used by the web portal for pipeline favorites
+const PIPELINE_FAVORITE_ARTIFACT_TYPE = 'Microsoft.TeamFoundation.Build.Definition';
 
 /**
  * Azure DevOps API Client
@@ -30,6 +55,11 @@ export class AzureDevOpsClient {
     private axiosInstance: AxiosInstance;
     private organizationUrl: string = '';
     private projectName: string = '';
+    private throttledUntil: number = 0;
+    private recentErrors: Map<string, number> = new Map();
+    private cache: ResponseCache = new ResponseCache();
+    // Highest api-version the server accepts, learned from out-of-range errors (Azure DevOps Server)
+    private maxApiVersion?: string;
 
     constructor(private authProvider: AzureDevOpsAuthProvider) {
         this.axiosInstance = axios.create({
@@ -40,20 +70,55 @@ export class AzureDevOpsClient {
             timeout: 30000 // 30 second timeout to prevent indefinite hangs
         });
 
-        // Add request interceptor to inject auth token
+        // Add request interceptor to wait out throttling, inject auth and negotiate api-version
         this.axiosInstance.interceptors.request.use(
             async (config) => {
-                const token = await this.authProvider.getAccessToken();
-                config.headers.Authorization = `Bearer ${token}`;
+                const wait = this.throttledUntil - Date.now();
+                if (wait > 0) {
+                    await sleep(wait);
+                }
+
+                config.headers.Authorization = await this.authProvider.getAuthorizationHeader();
+
+                const apiVersion = config.params?.['api-version'];
+                if (this.maxApiVersion && typeof apiVersion === 'string') {
+                    config.params = { ...config.params, 'api-version': clampApiVersion(apiVersion, this.maxApiVersion) };
+                }
                 return config;
             },
             (error) => Promise.reject(error)
         );
 
-        // Add response interceptor for error handling
+        // Add response interceptor for throttling, retries and error handling
         this.axiosInstance.interceptors.response.use(
-            (response) => response,
-            (error: AxiosError) => {
+            (response) => {
+                this.recordThrottle(getThrottleDelay(response.headers));
+                return response;
+            },
+            async (error: AxiosError) => {
+                const config = error.config as RetryableRequestConfig | undefined;
+                const attempt = config?.retryCount || 0;
+
+                if (config && isRetryable(error) && attempt < DEFAULT_RETRY_POLICY.maxRetries) {
+                    const delay = getRetryDelay(attempt, error);
+                    if (error.response?.status === 429) {
+                        this.recordThrottle(delay);
+                    }
+
+                    config.retryCount = attempt + 1;
+                    await sleep(delay);
+                    return this.axiosInstance.request(config);
+                }
+
+                // Older Azure DevOps Server versions reject newer api-versions; retry once at the supported one
+                const supportedVersion = error.response?.status === 400
+                    ? parseSupportedApiVersion((error.response.data as any)?.message)
+                    : undefined;
+                if (config && supportedVersion && supportedVersion !== this.maxApiVersion) {
+                    this.maxApiVersion = supportedVersion;
+                    return this.axiosInstance.request(config);
+                }
+
                 this.handleError(error);
                 return Promise.reject(error);
             }
@@ -64,6 +129,12 @@ export class AzureDevOpsClient {
      * Initialize client with organization and project
      */
     async initialize(organizationUrl: string, projectName: string): Promise<void> {
+        if (organizationUrl !== this.organizationUrl || projectName !== this.projectName) {
+            this.cache.clear();
+        }
+        if (organizationUrl !== this.organizationUrl) {
+            this.maxApiVersion = undefined;
+        }
         this.organizationUrl = organizationUrl;
         this.projectName = projectName;
     }
@@ -78,6 +149,15 @@ export class AzureDevOpsClient {
         };
     }
 
+    /**
+     * Delay all subsequent requests until the throttling window has passed
+     */
+    private recordThrottle(delayMs: number): void {
+        if (delayMs > 0) {
+            this.throttledUntil = Math.max(this.throttledUntil, Date.now() + delayMs);
+        }
+    }
+
     /**
      * Handle API errors
      */
@@ -103,19 +183,145 @@ export class AzureDevOpsClient {
 
             switch (status) {
                 case 401:
-                    vscode.window.showErrorMessage('Authentication failed. Please sign in again.');
+                    this.showErrorNotification('Authentication failed. Please sign in again.');
                     break;
                 case 403:
-                    vscode.window.showErrorMessage('Access denied. Check your permissions.');
+                    this.showErrorNotification('Access denied. Check your permissions.');
+                    break;
+                case 429:
+                    this.showErrorNotification('Azure DevOps is throttling requests. Some data may be out of date.');
                     break;
                 default:
-                    vscode.window.showErrorMessage(`Azure DevOps API error: ${message}`);
+                    this.showErrorNotification(`Azure DevOps API error: ${message}`);
             }
         } else if (error.request) {
-            vscode.window.showErrorMessage('Network error. Please check your connection.');
+            this.showErrorNotification('Network error. Please check your connection.');
         } else {
-            vscode.window.showErrorMessage(`Error: ${error.message}`);
+            this.showErrorNotification(`Error: ${error.message}`);
+        }
+    }
+
+    /**
+     * Show an error notification unless the same message was shown recently
+     */
+    private showErrorNotification(message: string): void {
+        const now = Date.now();
+        const lastShown = this.recentErrors.get(message);
+        if (lastShown && now - lastShown < ERROR_NOTIFICATION_COOLDOWN_MS) {
+            return;
+        }
+
+        this.recentErrors.set(message, now);
+        for (const [key, shownAt] of this.recentErrors) {
+            if (now - shownAt >= ERROR_NOTIFICATION_COOLDOWN_MS) {
+                this.recentErrors.delete(key);
+            }
+        }
+
+        vscode.window.showErrorMessage(message);
+    }
+
+    // ==================== Response Cache ====================
+
+    /**
+     * GET through the shared response cache
+     * Fresh entries are served directly, expired ones are revalidated with If-None-Match,
+     * and identical concurrent requests share a single network call
+     */
+    private async cachedGet<T = any>(url: string, config: AxiosRequestConfig, ttlMs: number): Promise<AxiosResponse<T>> {
+        const key = ResponseCache.keyFor(url, config.params, config.responseType);
+
+        const fresh = this.cache.getFresh(key);
+        if (fresh) {
+            return this.cloneResponse(fresh);
         }
+
+        const response = await this.cache.dedupe(key, async () => {
+            const stale = this.cache.getStale(key);
+            const result = await this.axiosInstance.get(url, {
+                ...config,
+                headers: stale ? { ...config.headers, 'If-None-Match': stale.etag } : config.headers,
+                validateStatus: (status) => (status >= 200 && status < 300) || (!!stale && status === 304)
+            });
+
+            if (result.status === 304 && stale) {
+                this.cache.touch(key, ttlMs);
+                return stale.response;
+            }
+
+            if (ttlMs > 0) {
+                this.cache.set(key, result, ttlMs);
+            }
+            return result;
+        });
+
+        return this.cloneResponse(response);
+    }
+
+    /**
+     * Callers mutate response data (e.g. attaching commit messages), so never hand out the cached object
+     */
+    private cloneResponse<T>(response: AxiosResponse<T>): AxiosResponse<T> {
+        if (typeof response.data !== 'object' || response.data === null) {
+            return response;
+        }
+        return { ...response, data: structuredClone(response.data) };
+    }
+
+    /**
+     * Drop cached responses for a resource in the current organization after a mutation
+     */
+    private invalidateCache(...resourcePaths: string[]): void {
+        for (const resourcePath of resourcePaths) {
+            this.cache.invalidate(this.organizationUrl, resourcePath);
+        }
+    }
+
+    // ==================== Pagination ====================
+
+    /**
+     * Fetch a single page of a list API
+     * The token for the next page is returned in the x-ms-continuationtoken header
+     */
+    async getPage<T>(url: string, params: Record<string, any>, continuationToken?: string, cacheTtlMs: number = 0): Promise<PagedResult<T>> {
+        const response = await this.cachedGet(url, {
+            params: continuationToken ? { ...params, continuationToken } : params
+        }, cacheTtlMs);
+        return {
+            items: response.data?.value || [],
+            continuationToken: response.headers['x-ms-continuationtoken'] || undefined
+        };
+    }
+
+    /**
+     * Iterate over every page of a list API, following continuation tokens
+     */
+    async *paginate<T>(url: string, params: Record<string, any>, cacheTtlMs: number = 0): AsyncGenerator<T[]> {
+        let continuationToken: string | undefined;
+        do {
+            const page = await this.getPage<T>(url, params, continuationToken, cacheTtlMs);
+            yield page.items;
+
+            // Guard against servers echoing the same token forever
+            if (page.continuationToken === continuationToken) {
+                return;
+            }
+            continuationToken = page.continuationToken;
+        } while (continuationToken);
+    }
+
+    /**
+     * Collect all pages of a list API, optionally stopping once limit items are collected
+     */
+    private async getAllPages<T>(url: string, params: Record<string, any>, limit?: number, cacheTtlMs: number = 0): Promise<T[]> {
+        const items: T[] = [];
+        for await (const page of this.paginate<T>(url, params, cacheTtlMs)) {
+            items.push(...page);
+            if (limit !== undefined && items.length >= limit) {
+                return items.slice(0, limit);
+            }
+        }
+        return items;
     }
 
     // ==================== Organizations & Projects ====================
@@ -125,8 +331,9 @@ export class AzureDevOpsClient {
      * This is useful for verifying authentication and getting user details
      */
     async getConnectionData(): Promise<any> {
+        const collectionUrl = this.authProvider.getCollectionUrl();
         const response = await this.axiosInstance.get(
-            'https://app.vssps.visualstudio.com/_apis/connectionData',
+            `${collectionUrl || 'https://app.vssps.visualstudio.com'}/_apis/connectionData`,
             { params: { 'api-version': '7.1-preview.1' } }
         );
         return response.data;
@@ -136,6 +343,17 @@ export class AzureDevOpsClient {
      * Get current authenticated user profile
      */
     async getCurrentUserProfile(): Promise<{ displayName: string; emailAddress: string; id: string }> {
+        // The profile service only exists in Azure DevOps Services; use connectionData for PAT sign-ins
+        if (this.authProvider.getCollectionUrl()) {
+            const connectionData = await this.getConnectionData();
+            const user = connectionData.authenticatedUser || {};
+            return {
+                displayName: user.providerDisplayName || 'Unknown',
+                emailAddress: user.properties?.Account?.$value || 'unknown@example.com',
+                id: user.id
+            };
+        }
+
         const response = await this.axiosInstance.get(
             'https://app.vssps.visualstudio.com/_apis/profile/profiles/me',
             { params: { 'api-version': '7.1' } }
@@ -152,6 +370,17 @@ export class AzureDevOpsClient {
      * Uses the profile and resource areas to discover accessible organizations
      */
     async getOrganizations(): Promise<Organization[]> {
+        // A PAT is bound to a single organization or collection
+        const collectionUrl = this.authProvider.getCollectionUrl();
+        if (collectionUrl) {
+            const accountName = collectionUrl.split('/').filter(Boolean).pop() || collectionUrl;
+            return [{
+                accountId: collectionUrl,
+                accountName,
+                accountUri: collectionUrl
+            }];
+        }
+
         try {
             const profileResponse = await this.axiosInstance.get(
                 'https://app.vssps.visualstudio.com/_apis/profile/profiles/me',
@@ -215,7 +444,8 @@ export class AzureDevOpsClient {
 
         let cleanUrl = organizationUrl.trim().replace(/\/+$/, '');
 
-        if (!cleanUrl.includes('dev.azure.com') && !cleanUrl.includes('visualstudio.com')) {
+        // Bare organization names are Azure DevOps Services; full URLs may point at Azure DevOps Server
+        if (!/^https?:\/\//i.test(cleanUrl) && !cleanUrl.includes('dev.azure.com') && !cleanUrl.includes('visualstudio.com')) {
             cleanUrl = `https://dev.azure.com/${cleanUrl}`;
         }
 
@@ -245,20 +475,34 @@ export class AzureDevOpsClient {
      * Get all pipelines in a project
      */
     async getPipelines(): Promise<Pipeline[]> {
-        const response = await this.axiosInstance.get(
+        return this.getAllPages<Pipeline>(
             `${this.organizationUrl}/${this.projectName}/_apis/pipelines`,
-            { params: { 'api-version': '7.1-preview.1' } }
+            { 'api-version': '7.1-preview.1' },
+            undefined,
+            CACHE_TTL.pipelines
+        );
+    }
+
+    /**
+     * Get one page of pipelines in a project
+     */
+    async getPipelinesPage(top: number, continuationToken?: string): Promise<PagedResult<Pipeline>> {
+        return this.getPage<Pipeline>(
+            `${this.organizationUrl}/${this.projectName}/_apis/pipelines`,
+            { 'api-version': '7.1-preview.1', '$top': top, 'orderBy': 'name asc' },
+            continuationToken,
+            CACHE_TTL.pipelines
         );
-        return response.data.value;
     }
 
     /**
      * Get a specific pipeline by ID
      */
     async getPipeline(pipelineId: number): Promise<Pipeline> {
-        const response = await this.axiosInstance.get(
+        const response = await this.cachedGet(
             `${this.organizationUrl}/${this.projectName}/_apis/pipelines/${pipelineId}`,
-            { params: { 'api-version': '7.1-preview.1' } }
+            { params: { 'api-version': '7.1-preview.1' } },
+            CACHE_TTL.pipelines
         );
 
         // Map configuration.repository to top-level repository for consistency
@@ -303,6 +547,7 @@ export class AzureDevOpsClient {
             requestBody,
             { params: { 'api-version': '7.1' } }
         );
+        this.invalidateCache('/_apis/pipelines');
         return response.data;
     }
 
@@ -333,6 +578,7 @@ export class AzureDevOpsClient {
             definition,
             { params: { 'api-version': '7.1' } }
         );
+        this.invalidateCache('/_apis/pipelines', '/_apis/build/definitions');
 
         return response.data;
     }
@@ -345,6 +591,167 @@ export class AzureDevOpsClient {
             `${this.organizationUrl}/${this.projectName}/_apis/build/definitions/${pipelineId}`,
             { params: { 'api-version': '7.1' } }
         );
+        this.invalidateCache('/_apis/pipelines', '/_apis/build/definitions', '/_apis/build/builds');
+    }
+
+    // ==================== Pipeline Folders ====================
+
+    /**
+     * Get all pipeline folders, including empty ones
+     * Paths are backslash-separated, e.g. \Team\Service
+     */
+    async getPipelineFolders(): Promise<PipelineFolder[]> {
+        const response = await this.cachedGet(
+            `${this.organizationUrl}/${this.projectName}/_apis/build/folders`,
+            { params: { 'api-version': '7.1-preview.2' } },
+            CACHE_TTL.pipelines
+        );
+        return response.data.value || [];
+    }
+
+    /**
+     * Get every pipeline in a folder and its subfolders, straight from the server
+     * Queries the folder and each known subfolder so the result doesn't depend on how the
+     * server matches the path filter
+     */
+    async getPipelinesInFolder(path: string): Promise<Pipeline[]> {
+        const prefix = path.toLowerCase();
+        const isInFolder = (candidate: string | undefined) => {
+            const lower = (candidate || '').toLowerCase();
+            return lower === prefix || lower.startsWith(`${prefix}\\`);
+        };
+
+        const folders = await this.getPipelineFolders();
+        const subfolders = folders
+            .map(folder => folder.path)
+            .filter(folderPath => folderPath.toLowerCase() !== prefix && isInFolder(folderPath));
+
+        const byId = new Map<number, Pipeline>();
+        for (const folderPath of [path, ...subfolders]) {
+            const definitions = await this.getAllPages<any>(
+                `${this.organizationUrl}/${this.projectName}/_apis/build/definitions`,
+                { 'api-version': '7.1', path: folderPath }
+            );
+            for (const definition of definitions) {
+                if (isInFolder(definition.path)) {
+                    byId.set(definition.id, {
+                        id: definition.id,
+                        name: definition.name,
+                        folder: definition.path,
+                        revision: definition.revision,
+                        url: definition.url
+                    });
+                }
+            }
+        }
+        return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Create a pipeline folder
+     */
+    async createPipelineFolder(path: string): Promise<PipelineFolder> {
+        const response = await this.axiosInstance.put(
+            `${this.organizationUrl}/${this.projectName}/_apis/build/folders`,
+            { path },
+            { params: { path, 'api-version': '7.1-preview.2' } }
+        );
+        this.invalidateCache('/_apis/build/folders');
+        return response.data;
+    }
+
+    /**
+     * Rename or move a pipeline folder, including its subfolders and pipelines
+     */
+    async updatePipelineFolder(path: string, newPath: string): Promise<PipelineFolder> {
+        const response = await this.axiosInstance.post(
+            `${this.organizationUrl}/${this.projectName}/_apis/build/folders`,
+            { path: newPath },
+            { params: { path, 'api-version': '7.1-preview.2' } }
+        );
+        this.invalidateCache('/_apis/build/folders', '/_apis/pipelines', '/_apis/build/definitions');
+        return response.data;
+    }
+
+    /**
+     * Delete a pipeline folder
+     * Azure DevOps also deletes every pipeline in the folder and its subfolders
+     */
+    async deletePipelineFolder(path: string): Promise<void> {
+        await this.axiosInstance.delete(
+            `${this.organizationUrl}/${this.projectName}/_apis/build/folders`,
+            { params: { path, 'api-version': '7.1-preview.2' } }
+        );
+        this.invalidateCache('/_apis/build/folders', '/_apis/pipelines', '/_apis/build/definitions', '/_apis/build/builds');
+    }
+
+    // ==================== Favorites ====================
+
+    /**
+     * Get the id of the configured project (the Favorites API scopes favorites by project id)
+     */
+    async getProjectId(): Promise<string> {
+        const response = await this.cachedGet(
+            `${this.organizationUrl}/_apis/projects/${encodeURIComponent(this.projectName)}`,
+            { params: { 'api-version': '7.1' } },
+            CACHE_TTL.files
+        );
+        return response.data.id;
+    }
+
+    /**
+     * Get the current user's pipeline favorites in the project
+     */
+    async getPipelineFavorites(): Promise<PipelineFavorite[]> {
+        const projectId = await this.getProjectId();
+        const response = await this.axiosInstance.get(
+            `${this.organizationUrl}/_apis/Favorite/Favorites`,
+            {
+                params: {
+                    artifactType: PIPELINE_FAVORITE_ARTIFACT_TYPE,
+                    artifactScopeType: 'Project',
+                    artifactScopeId: projectId,
+                    'api-version': '7.1-preview.1'
+                }
+            }
+        );
+        return response.data.value || [];
+    }
+
+    /**
+     * Add a pipeline to the current user's favorites
+     */
+    async addPipelineFavorite(pipeline: Pipeline): Promise<PipelineFavorite> {
+        const projectId = await this.getProjectId();
+        const response = await this.axiosInstance.post(
+            `${this.organizationUrl}/_apis/Favorite/Favorites`,
+            {
+                artifactId: String(pipeline.id),
+                artifactName: pipeline.name,
+                artifactType: PIPELINE_FAVORITE_ARTIFACT_TYPE,
+                artifactScope: { type: 'Project', id: projectId }
+            },
+            { params: { 'api-version': '7.1-preview.1' } }
+        );
+        return response.data;
+    }
+
+    /**
+     * Remove a favorite by its favorite id
+     */
+    async deletePipelineFavorite(favoriteId: string): Promise<void> {
+        const projectId = await this.getProjectId();
+        await this.axiosInstance.delete(
+            `${this.organizationUrl}/_apis/Favorite/Favorites/${favoriteId}`,
+            {
+                params: {
+                    artifactType: PIPELINE_FAVORITE_ARTIFACT_TYPE,
+                    artifactScopeType: 'Project',
+                    artifactScopeId: projectId,
+                    'api-version': '7.1-preview.1'
+                }
+            }
+        );
     }
 
     // ==================== Pipeline Runs ====================
@@ -353,29 +760,142 @@ export class AzureDevOpsClient {
      * Get all runs for a pipeline
      */
     async getPipelineRuns(pipelineId?: number, top: number = 50): Promise<PipelineRun[]> {
-        const params: any = {
+        return this.getAllPages<PipelineRun>(
+            `${this.organizationUrl}/${this.projectName}/_apis/build/builds`,
+            this.buildRunsParams(pipelineId, top),
+            top,
+            CACHE_TTL.runs
+        );
+    }
+
+    /**
+     * Get one page of runs, optionally for a single pipeline
+     */
+    async getPipelineRunsPage(pipelineId: number | undefined, top: number, continuationToken?: string): Promise<PagedResult<PipelineRun>> {
+        return this.getPage<PipelineRun>(
+            `${this.organizationUrl}/${this.projectName}/_apis/build/builds`,
+            this.buildRunsParams(pipelineId, top),
+            continuationToken,
+            CACHE_TTL.runs
+        );
+    }
+
+    /**
+     * Get the latest run of each pipeline in one builds query per chunk of definitions
+     * Pipelines that have never run are absent from the returned map
+     */
+    async getLatestRuns(pipelineIds: number[], chunkSize: number = 50): Promise<Map<number, PipelineRun>> {
+        const latest = new Map<number, PipelineRun>();
+
+        for (let i = 0; i < pipelineIds.length; i += chunkSize) {
+            const chunk = pipelineIds.slice(i, i + chunkSize);
+            const runs = await this.getAllPages<PipelineRun>(
+                `${this.organizationUrl}/${this.projectName}/_apis/build/builds`,
+                {
+                    'api-version': '7.1',
+                    'definitions': chunk.join(','),
+                    'maxBuildsPerDefinition': 1,
+                    'queryOrder': 'queueTimeDescending'
+                },
+                undefined,
+                CACHE_TTL.runs
+            );
+
+            for (const run of runs) {
+                const pipelineId = run.definition?.id ?? run.pipeline?.id;
+                if (pipelineId !== undefined && !latest.has(pipelineId)) {
+                    latest.set(pipelineId, run);
+                }
+            }
+        }
+
+        return latest;
+    }
+
+    /**
+     * Get the most recent runs of a branch, newest first (all branches when branchName is empty)
+     * repository narrows the runs to one repository, e.g. { id: 'owner/repo', type: 'GitHub' }
+     */
+    async getBranchRuns(branchName: string, repository?: { id: string; type: string }, top: number = 20): Promise<PipelineRun[]> {
+        const params: Record<string, any> = {
             'api-version': '7.1',
+            'queryOrder': 'queueTimeDescending',
             '$top': top
         };
 
-        if (pipelineId) {
-            params.definitions = pipelineId;
+        if (branchName) {
+            params.branchName = branchName.startsWith('refs/') ? branchName : `refs/heads/${branchName}`;
         }
 
-        const response = await this.axiosInstance.get(
+        if (repository) {
+            params.repositoryId = repository.id;
+            params.repositoryType = repository.type;
+        }
+
+        const response = await this.cachedGet(
             `${this.organizationUrl}/${this.projectName}/_apis/build/builds`,
-            { params }
+            { params },
+            CACHE_TTL.runs
         );
+        return response.data.value || [];
+    }
 
+    /**
+     * Get several runs by id in one request
+     */
+    async getRunsByIds(runIds: number[]): Promise<PipelineRun[]> {
+        if (runIds.length === 0) {
+            return [];
+        }
+
+        const response = await this.cachedGet(
+            `${this.organizationUrl}/${this.projectName}/_apis/build/builds`,
+            { params: { 'api-version': '7.1', 'buildIds': runIds.join(',') } },
+            CACHE_TTL.runs
+        );
         return response.data.value || [];
     }
 
+    /**
+     * Get runs that were queued or finished since the given time
+     * Used to update cached run state incrementally instead of re-querying every pipeline
+     */
+    async getRunsChangedSince(since: Date): Promise<PipelineRun[]> {
+        const url = `${this.organizationUrl}/${this.projectName}/_apis/build/builds`;
+        const minTime = since.toISOString();
+
+        const [queued, finished] = await Promise.all([
+            this.getAllPages<PipelineRun>(url, { 'api-version': '7.1', minTime, 'queryOrder': 'queueTimeDescending' }),
+            this.getAllPages<PipelineRun>(url, { 'api-version': '7.1', minTime, 'queryOrder': 'finishTimeDescending' })
+        ]);
+
+        // A run can appear in both lists; the finished copy carries the newer state
+        const byId = new Map<number, PipelineRun>();
+        for (const run of [...queued, ...finished]) {
+            byId.set(run.id, run);
+        }
+        return Array.from(byId.values());
+    }
+
+    private buildRunsParams(pipelineId: number | undefined, top: number): Record<string, any> {
+        const params: Record<string, any> = {
+            'api-version': '7.1',
+            '$top': top
+        };
+
+        if (pipelineId) {
+            params.definitions = pipelineId;
+        }
+
+        return params;
+    }
+
     /**
      * Get a specific run
      */
     async getRun(runId: number): Promise<PipelineRun> {
         try {
-            const listResponse = await this.axiosInstance.get(
+            const listResponse = await this.cachedGet(
                 `${this.organizationUrl}/${this.projectName}/_apis/build/builds`,
                 {
                     params: {
@@ -383,7 +903,8 @@ export class AzureDevOpsClient {
                         'buildIds': runId,
                         'queryOrder': 'finishTimeDescending'
                     }
-                }
+                },
+                CACHE_TTL.run
             );
 
             if (listResponse.data.value && listResponse.data.value.length > 0) {
@@ -397,9 +918,10 @@ export class AzureDevOpsClient {
             // Fallback to direct API
         }
 
-        const response = await this.axiosInstance.get(
+        const response = await this.cachedGet(
             `${this.organizationUrl}/${this.projectName}/_apis/build/builds/${runId}`,
-            { params: { 'api-version': '7.1' } }
+            { params: { 'api-version': '7.1' } },
+            CACHE_TTL.run
         );
 
         const build = response.data;
@@ -425,6 +947,10 @@ export class AzureDevOpsClient {
             body.resources.repositories.self.refName = `refs/heads/${options.branch}`;
         }
 
+        if (options?.commit) {
+            body.resources.repositories.self.version = options.commit;
+        }
+
         if (options?.templateParameters) {
             body.templateParameters = options.templateParameters;
         }
@@ -446,6 +972,7 @@ export class AzureDevOpsClient {
             body,
             { params: { 'api-version': '7.1-preview.1' } }
         );
+        this.invalidateCache('/_apis/build/builds', `/_apis/pipelines/${pipelineId}/runs`);
         return response.data;
     }
 
@@ -458,6 +985,7 @@ export class AzureDevOpsClient {
             { status: 'Cancelling' },
             { params: { 'api-version': '7.1-preview.1' } }
         );
+        this.invalidateCache('/_apis/build/builds');
     }
 
     /**
@@ -469,9 +997,110 @@ export class AzureDevOpsClient {
             {},
             { params: { 'api-version': '7.1-preview.1' } }
         );
+        this.invalidateCache('/_apis/build/builds');
         return response.data;
     }
 
+    /**
+     * Retry a finished stage of a run in place (a new attempt on the same build)
+     * Only the failed jobs are retried unless forceRetryAllJobs is set
+     */
+    async retryStage(runId: number, stageRefName: string, forceRetryAllJobs: boolean = false): Promise<void> {
+        await this.axiosInstance.patch(
+            `${this.organizationUrl}/${this.projectName}/_apis/build/builds/${runId}/stages/${encodeURIComponent(stageRefName)}`,
+            { state: 'retry', forceRetryAllJobs },
+            { params: { 'api-version': '7.1' } }
+        );
+        this.invalidateCache('/_apis/build/builds');
+    }
+
+    // ==================== Approvals & Checks ====================
+
+    /**
+     * Get the id of the signed-in identity in this organization (approvals are assigned to identities)
+     */
+    async getAuthenticatedUserId(): Promise<string | undefined> {
+        const response = await this.cachedGet(
+            `${this.organizationUrl}/_apis/connectionData`,
+            { params: { 'api-version': '7.1-preview.1' } },
+            CACHE_TTL.files
+        );
+        return response.data.authenticatedUser?.id;
+    }
+
+    /**
+     * Get the pending approvals in the project, optionally only those assigned to the given identities
+     */
+    async getPendingApprovals(userIds?: string[]): Promise<PipelineApproval[]> {
+        const params: Record<string, any> = {
+            'api-version': '7.1-preview.1',
+            'state': 'pending',
+            '$expand': 'steps'
+        };
+
+        if (userIds && userIds.length > 0) {
+            params.userIds = userIds.join(',');
+        }
+
+        const response = await this.cachedGet(
+            `${this.organizationUrl}/${this.projectName}/_apis/pipelines/approvals`,
+            { params },
+            CACHE_TTL.runs
+        );
+        return response.data.value || [];
+    }
+
+    /**
+     * Get the pending approvals of one run, whoever they are assigned to
+     */
+    async getRunApprovals(runId: number): Promise<PipelineApproval[]> {
+        const approvals = await this.getPendingApprovals();
+        return approvals.filter(approval => Number(approval.pipeline?.owner?.id) === runId);
+    }
+
+    /**
+     * Approve or reject an approval
+     */
+    async updateApproval(approvalId: string, status: ApprovalStatus.Approved | ApprovalStatus.Rejected, comment?: string): Promise<PipelineApproval> {
+        const response = await this.axiosInstance.patch(
+            `${this.organizationUrl}/${this.projectName}/_apis/pipelines/approvals`,
+            [{ approvalId, status, comment: comment || '' }],
+            { params: { 'api-version': '7.1-preview.1' } }
+        );
+        this.invalidateCache('/_apis/pipelines/approvals', '/_apis/build/builds');
+        return response.data.value?.[0] || response.data;
+    }
+
+    /**
+     * Get the checks the stages of a run are waiting for, from the Checkpoint records of its timeline
+     * Approval checks use the approval id as their record id
+     */
+    async getPendingChecks(runId: number): Promise<PipelineCheck[]> {
+        const timeline = await this.getRunTimeline(runId);
+        const records = timeline?.records || [];
+        const byId = new Map(records.map(record => [record.id, record]));
+
+        return records
+            .filter(record => record.type.startsWith('Checkpoint.') && (record.state || '').toLowerCase() !== 'completed')
+            .map(record => {
+                // Checks sit under a Checkpoint record, which sits under the stage
+                let parent = record.parentId ? byId.get(record.parentId) : undefined;
+                while (parent && parent.type !== 'Stage') {
+                    parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+                }
+
+                return {
+                    id: record.id,
+                    name: record.name,
+                    type: record.type,
+                    state: record.state,
+                    result: record.result,
+                    stageId: parent?.id,
+                    stageName: parent?.name
+                };
+            });
+    }
+
     // ==================== Git/Repository ====================
 
     /**
@@ -479,9 +1108,11 @@ export class AzureDevOpsClient {
      */
     async getCommitMessage(repositoryId: string, commitId: string): Promise<string> {
         try {
-            const response = await this.axiosInstance.get(
+            // Commits are immutable, so the long file TTL is safe here
+            const response = await this.cachedGet(
                 `${this.organizationUrl}/${this.projectName}/_apis/git/repositories/${repositoryId}/commits/${commitId}`,
-                { params: { 'api-version': '7.1' } }
+                { params: { 'api-version': '7.1' } },
+                CACHE_TTL.files
             );
             return response.data.comment || '';
         } catch (error: any) {
@@ -496,9 +1127,10 @@ export class AzureDevOpsClient {
      */
     async getRunLogs(runId: number): Promise<BuildLog[]> {
         try {
-            const response = await this.axiosInstance.get(
+            const response = await this.cachedGet(
                 `${this.organizationUrl}/${this.projectName}/_apis/build/builds/${runId}/logs`,
-                { params: { 'api-version': '7.1' } }
+                { params: { 'api-version': '7.1' } },
+                CACHE_TTL.logs
             );
             return response.data.value || [];
         } catch (error: any) {
@@ -524,6 +1156,21 @@ export class AzureDevOpsClient {
         return response.data;
     }
 
+    /**
+     * Get a range of lines of a log (1-based and inclusive); omit endLine to read to the end,
+     * so a live log can be followed by asking only for the lines after the last one received
+     */
+    async getLogLines(runId: number, logId: number, startLine: number = 1, endLine?: number): Promise<string[]> {
+        const response = await this.axiosInstance.get<{ count: number; value: string[] }>(
+            `${this.organizationUrl}/${this.projectName}/_apis/build/builds/${runId}/logs/${logId}`,
+            {
+                params: { 'api-version': '7.1', 'startLine': startLine, 'endLine': endLine },
+                headers: { 'Accept': 'application/json' }
+            }
+        );
+        return response.data.value || [];
+    }
+
     /**
      * Get log content from a direct URL
      */
@@ -533,13 +1180,14 @@ export class AzureDevOpsClient {
     }
 
     /**
-     * Get timeline for a run (detailed task/stage information)
+     * Get timeline for a run (detailed task/stage information), or of an earlier attempt by its timeline id
      */
-    async getRunTimeline(runId: number): Promise<Timeline> {
+    async getRunTimeline(runId: number, timelineId?: string): Promise<Timeline> {
         try {
-            const response = await this.axiosInstance.get(
-                `${this.organizationUrl}/${this.projectName}/_apis/build/builds/${runId}/timeline`,
-                { params: { 'api-version': '7.1' } }
+            const response = await this.cachedGet(
+                `${this.organizationUrl}/${this.projectName}/_apis/build/builds/${runId}/timeline${timelineId ? `/${timelineId}` : ''}`,
+                { params: { 'api-version': '7.1' } },
+                CACHE_TTL.timeline
             );
             return response.data;
         } catch (error: any) {
@@ -576,9 +1224,10 @@ export class AzureDevOpsClient {
      */
     async getPipelineYaml(pipelineId: number): Promise<string> {
         try {
-            const response = await this.axiosInstance.get(
+            const response = await this.cachedGet(
                 `${this.organizationUrl}/${this.projectName}/_apis/pipelines/${pipelineId}`,
-                { params: { 'api-version': '7.1' } }
+                { params: { 'api-version': '7.1' } },
+                CACHE_TTL.pipelines
             );
 
             if (response.data.configuration?.path) {
@@ -650,7 +1299,7 @@ export class AzureDevOpsClient {
      * repository references resolve correctly by repo GUID.
      */
     private async fetchFileFromRepo(repoId: string, path: string, branch: string): Promise<string> {
-        const fileResponse = await this.axiosInstance.get(
+        const fileResponse = await this.cachedGet(
             `${this.organizationUrl}/_apis/git/repositories/${repoId}/items`,
             {
                 params: {
@@ -660,7 +1309,8 @@ export class AzureDevOpsClient {
                     'api-version': '7.1',
                     'includeContent': true
                 }
-            }
+            },
+            CACHE_TTL.files
         );
         // API returns JSON with content property when includeContent=true
         return fileResponse.data.content || fileResponse.data;
@@ -671,7 +1321,7 @@ export class AzureDevOpsClient {
      * Omits versionDescriptor so the API uses whatever the repo's default branch is.
      */
     private async fetchFileFromRepoDefaultBranch(repoId: string, path: string): Promise<string> {
-        const fileResponse = await this.axiosInstance.get(
+        const fileResponse = await this.cachedGet(
             `${this.organizationUrl}/_apis/git/repositories/${repoId}/items`,
             {
                 params: {
@@ -679,7 +1329,8 @@ export class AzureDevOpsClient {
                     'api-version': '7.1',
                     'includeContent': true
                 }
-            }
+            },
+            CACHE_TTL.files
         );
         // API returns JSON with content property when includeContent=true
         return fileResponse.data.content || fileResponse.data;
@@ -881,16 +1532,28 @@ export class AzureDevOpsClient {
     }
 
     /**
-     * Get environment by ID
+     * Get environment by ID, with its Kubernetes/VM resources
      */
     async getEnvironment(environmentId: number): Promise<Environment> {
         const response = await this.axiosInstance.get(
             `${this.organizationUrl}/${this.projectName}/_apis/distributedtask/environments/${environmentId}`,
-            { params: { 'api-version': '7.1-preview.1' } }
+            { params: { 'api-version': '7.1-preview.1', 'expands': 'resourceReferences' } }
         );
         return response.data;
     }
 
+    /**
+     * Get the most recent deployments to an environment, newest first
+     */
+    async getEnvironmentDeployments(environmentId: number, top: number = 20): Promise<EnvironmentDeploymentRecord[]> {
+        const response = await this.cachedGet(
+            `${this.organizationUrl}/${this.projectName}/_apis/distributedtask/environments/${environmentId}/environmentdeploymentrecords`,
+            { params: { 'api-version': '7.1-preview.1', 'top': top } },
+            CACHE_TTL.runs
+        );
+        return response.data.value || [];
+    }
+
     // ==================== Variables ====================
 
     /**
@@ -940,6 +1603,7 @@ export class AzureDevOpsClient {
             definition,
             { params: { 'api-version': '7.1-preview.7' } }
         );
+        this.invalidateCache(`/_apis/build/definitions/${pipelineId}`);
     }
 
     /**
@@ -964,6 +1628,7 @@ export class AzureDevOpsClient {
                 definition,
                 { params: { 'api-version': '7.1-preview.7' } }
             );
+            this.invalidateCache(`/_apis/build/definitions/${pipelineId}`);
         }
     }
 
@@ -984,11 +1649,10 @@ export class AzureDevOpsClient {
      * Get all service endpoints
      */
     async getServiceEndpoints(): Promise<ServiceEndpoint[]> {
-        const response = await this.axiosInstance.get(
+        return this.getAllPages<ServiceEndpoint>(
             `${this.organizationUrl}/${this.projectName}/_apis/serviceendpoint/endpoints`,
-            { params: { 'api-version': '7.1-preview.1' } }
+            { 'api-version': '7.1-preview.1' }
         );
-        return response.data.value;
     }
 
     /**
@@ -1081,51 +1745,103 @@ export class AzureDevOpsClient {
      * Get all agent pools
      */
     async getAgentPools(): Promise<AgentPool[]> {
-        const response = await this.axiosInstance.get(
+        const response = await this.cachedGet(
             `${this.organizationUrl}/_apis/distributedtask/pools`,
-            { params: { 'api-version': '7.1-preview.1' } }
+            { params: { 'api-version': '7.1-preview.1' } },
+            CACHE_TTL.pipelines
         );
         return response.data.value;
     }
 
     /**
-     * Get agents in a pool
+     * Get agents in a pool, with the job each busy agent is running and optionally
+     * their system and user capabilities
      */
-    async getAgents(poolId: number): Promise<Agent[]> {
-        const response = await this.axiosInstance.get(
+    async getAgents(poolId: number, includeCapabilities: boolean = false): Promise<Agent[]> {
+        const response = await this.cachedGet(
             `${this.organizationUrl}/_apis/distributedtask/pools/${poolId}/agents`,
-            { params: { 'api-version': '7.1-preview.1' } }
+            {
+                params: {
+                    'api-version': '7.1-preview.1',
+                    'includeAssignedRequest': true,
+                    'includeCapabilities': includeCapabilities
+                }
+            },
+            CACHE_TTL.runs
         );
         return response.data.value;
     }
 
+    /**
+     * Get the job requests of a pool that are queued or running, oldest first
+     * completedRequestCount=0 leaves finished requests out on the server
+     */
+    async getPendingJobRequests(poolId: number): Promise<AgentJobRequest[]> {
+        const response = await this.cachedGet(
+            `${this.organizationUrl}/_apis/distributedtask/pools/${poolId}/jobrequests`,
+            { params: { 'api-version': '7.1-preview.1', 'completedRequestCount': 0 } },
+            CACHE_TTL.runs
+        );
+        const requests: AgentJobRequest[] = response.data.value || [];
+        return requests.sort((a, b) => new Date(a.queueTime || 0).getTime() - new Date(b.queueTime || 0).getTime());
+    }
+
+    /**
+     * Enable or disable an agent (requires the Administrator role on the pool)
+     */
+    async setAgentEnabled(poolId: number, agentId: number, enabled: boolean): Promise<Agent> {
+        const response = await this.axiosInstance.patch(
+            `${this.organizationUrl}/_apis/distributedtask/pools/${poolId}/agents/${agentId}`,
+            { id: agentId, enabled },
+            { params: { 'api-version': '7.1-preview.1' } }
+        );
+        this.invalidateCache(`/_apis/distributedtask/pools/${poolId}/agents`);
+        return response.data;
+    }
+
+    /**
+     * Get the parallel job limit and the jobs using it, for hosted or self-hosted pools
+     */
+    async getResourceUsage(parallelismTag: string, poolIsHosted: boolean): Promise<ResourceUsage> {
+        const response = await this.cachedGet(
+            `${this.organizationUrl}/_apis/distributedtask/resourceusage`,
+            {
+                params: {
+                    'api-version': '7.1-preview.1',
+                    'parallelismTag': parallelismTag,
+                    'poolIsHosted': poolIsHosted,
+                    'includeRunningRequests': true
+                }
+            },
+            CACHE_TTL.runs
+        );
+        return response.data;
+    }
+
     // ==================== Repositories ====================
 
     /**
      * Get repositories in the project
      */
     async getRepositories(): Promise<any[]> {
-        const response = await this.axiosInstance.get(
+        return this.getAllPages<any>(
             `${this.organizationUrl}/${this.projectName}/_apis/git/repositories`,
-            { params: { 'api-version': '7.1-preview.1' } }
+            { 'api-version': '7.1-preview.1' }
         );
-        return response.data.value;
     }
 
     /**
      * Get branches for a repository
      */
     async getBranches(repositoryId: string): Promise<Branch[]> {
-        const response = await this.axiosInstance.get(
+        const refs = await this.getAllPages<any>(
             `${this.organizationUrl}/${this.projectName}/_apis/git/repositories/${repositoryId}/refs`,
             {
-                params: {
-                    'api-version': '7.1',
-                    'filter': 'heads/'
-                }
+                'api-version': '7.1',
+                'filter': 'heads/'
             }
         );
-        return response.data.value.map((ref: any) => ({
+        return refs.map((ref: any) => ({
             name: ref.name.replace('refs/heads/', ''),
             objectId: ref.objectId
         }));
@@ -1135,7 +1851,7 @@ export class AzureDevOpsClient {
      * Get file content from repository
      */
     async getFileContent(repositoryId: string, path: string, branch: string = 'main'): Promise<string> {
-        const response = await this.axiosInstance.get(
+        const response = await this.cachedGet(
             `${this.organizationUrl}/${this.projectName}/_apis/git/repositories/${repositoryId}/items`,
             {
                 params: {
@@ -1150,7 +1866,8 @@ export class AzureDevOpsClient {
                 headers: {
                     'Accept': 'text/plain'
                 }
-            }
+            },
+            CACHE_TTL.files
         );
         return response.data;
     }
@@ -1249,6 +1966,7 @@ export class AzureDevOpsClient {
             pushBody,
             { params: { 'api-version': '7.1' } }
         );
+        this.invalidateCache(`/_apis/git/repositories/${repositoryId}/`);
 
         return response.data;
     }
@@ -1262,9 +1980,10 @@ export class AzureDevOpsClient {
         yamlPath: string;
         defaultBranch: string;
     }> {
-        const response = await this.axiosInstance.get(
+        const response = await this.cachedGet(
             `${this.organizationUrl}/${this.projectName}/_apis/pipelines/${pipelineId}`,
-            { params: { 'api-version': '7.1' } }
+            { params: { 'api-version': '7.1' } },
+            CACHE_TTL.pipelines
         );
 
         const config = response.data.configuration;
@@ -1382,6 +2101,7 @@ export class AzureDevOpsClient {
             refUpdates,
             { params: { 'api-version': '7.1' } }
         );
+        this.invalidateCache(`/_apis/git/repositories/${repositoryId}/`);
     }
 
     // ==================== Tasks & Extensions ====================
@@ -1392,11 +2112,10 @@ export class AzureDevOpsClient {
      */
     async getTaskDefinitions(): Promise<TaskDefinition[]> {
         try {
-            const response = await this.axiosInstance.get(
+            return await this.getAllPages<TaskDefinition>(
                 `${this.organizationUrl}/_apis/distributedtask/tasks`,
-                { params: { 'api-version': '7.1' } }
+                { 'api-version': '7.1' }
             );
-            return response.data.value || [];
         } catch (error: any) {
             // If the undocumented API fails, return empty array
             console.warn('Failed to fetch task definitions:', error.message);
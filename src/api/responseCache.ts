@@ -0,0 +1,125 @@
+import { AxiosResponse } from 'axios';
+
+/**
+ * Cache TTLs per resource type (milliseconds)
+ * Short TTLs for fast-changing run state, longer ones for definitions and files
+ */
+export const CACHE_TTL = {
+    pipelines: 60 * 1000,
+    runs: 10 * 1000,
+    run: 5 * 1000,
+    timeline: 5 * 1000,
+    logs: 5 * 1000,
+    files: 5 * 60 * 1000
+};
+
+interface CacheEntry {
+    response: AxiosResponse;
+    etag?: string;
+    expiresAt: number;
+}
+
+/**
+ * Response Cache
+ * Stores GET responses keyed by full request URL (which includes the org/project scope),
+ * remembers ETags for If-None-Match revalidation, and shares in-flight requests
+ */
+export class ResponseCache {
+    private entries: Map<string, CacheEntry> = new Map();
+    private inFlight: Map<string, Promise<AxiosResponse>> = new Map();
+
+    constructor(private maxEntries: number = 500) {}
+
+    /**
+     * Build a stable cache key from a URL and its query parameters
+     */
+    static keyFor(url: string, params: Record<string, any> = {}, variant: string = ''): string {
+        const query = Object.keys(params)
+            .filter(key => params[key] !== undefined)
+            .sort()
+            .map(key => `${key}=${params[key]}`)
+            .join('&');
+        return `${url}?${query}${variant ? `#${variant}` : ''}`;
+    }
+
+    /**
+     * Get a cached response that is still within its TTL
+     */
+    getFresh(key: string): AxiosResponse | undefined {
+        const entry = this.entries.get(key);
+        if (entry && entry.expiresAt > Date.now()) {
+            return entry.response;
+        }
+        return undefined;
+    }
+
+    /**
+     * Get an expired entry that can be revalidated with its ETag
+     */
+    getStale(key: string): { response: AxiosResponse; etag: string } | undefined {
+        const entry = this.entries.get(key);
+        if (entry?.etag) {
+            return { response: entry.response, etag: entry.etag };
+        }
+        return undefined;
+    }
+
+    set(key: string, response: AxiosResponse, ttlMs: number): void {
+        const etag = response.headers?.['etag'];
+
+        // Re-insert so Map order tracks recency for eviction
+        this.entries.delete(key);
+        this.entries.set(key, {
+            response,
+            etag: etag ? String(etag) : undefined,
+            expiresAt: Date.now() + ttlMs
+        });
+
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest === undefined) {
+                break;
+            }
+            this.entries.delete(oldest);
+        }
+    }
+
+    /**
+     * Extend a revalidated (304) entry
+     */
+    touch(key: string, ttlMs: number): void {
+        const entry = this.entries.get(key);
+        if (entry) {
+            entry.expiresAt = Date.now() + ttlMs;
+        }
+    }
+
+    /**
+     * Run a request once per key; concurrent callers share the same promise
+     */
+    dedupe(key: string, request: () => Promise<AxiosResponse>): Promise<AxiosResponse> {
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            return pending;
+        }
+
+        const promise = request().finally(() => this.inFlight.delete(key));
+        this.inFlight.set(key, promise);
+        return promise;
+    }
+
+    /**
+     * Drop every entry whose key starts with the scope and contains the resource path
+     */
+    invalidate(scope: string, resourcePath: string): void {
+        for (const key of Array.from(this.entries.keys())) {
+            if (key.startsWith(scope) && key.includes(resourcePath)) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
@@ -0,0 +1,115 @@
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+
+/**
+ * Retry policy for transient Azure DevOps API failures
+ * Exponential backoff with full jitter, honoring Retry-After and X-RateLimit-* headers
+ */
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 60000
+};
+
+/**
+ * Request config carrying the number of attempts already made
+ */
+export interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+    retryCount?: number;
+}
+
+// Only requests that are safe to repeat are retried; POST/PATCH may have side effects
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+type HeaderBag = Record<string, any> | undefined;
+
+function getHeader(headers: HeaderBag, name: string): string | undefined {
+    if (!headers) {
+        return undefined;
+    }
+    const value = typeof headers.get === 'function' ? headers.get(name) : headers[name.toLowerCase()];
+    return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * Check whether a failed request should be retried
+ */
+export function isRetryable(error: AxiosError): boolean {
+    const method = (error.config?.method || 'get').toLowerCase();
+    if (!IDEMPOTENT_METHODS.includes(method)) {
+        return false;
+    }
+
+    // Network errors and timeouts have no response
+    if (!error.response) {
+        return error.code !== 'ERR_CANCELED';
+    }
+
+    return RETRYABLE_STATUS_CODES.includes(error.response.status);
+}
+
+/**
+ * Parse the Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(headers: HeaderBag): number | undefined {
+    const retryAfter = getHeader(headers, 'retry-after');
+    if (!retryAfter) {
+        return undefined;
+    }
+
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+/**
+ * Get how long the server asks us to hold off, based on Retry-After or an exhausted X-RateLimit budget
+ * Returns 0 when no throttling is signalled
+ */
+export function getThrottleDelay(headers: HeaderBag): number {
+    const retryAfter = parseRetryAfter(headers);
+    if (retryAfter !== undefined) {
+        return retryAfter;
+    }
+
+    const remaining = getHeader(headers, 'x-ratelimit-remaining');
+    const reset = getHeader(headers, 'x-ratelimit-reset');
+    if (remaining !== undefined && Number(remaining) <= 0 && reset !== undefined) {
+        // X-RateLimit-Reset is a Unix epoch timestamp in seconds
+        return Math.max(0, Number(reset) * 1000 - Date.now());
+    }
+
+    return 0;
+}
+
+/**
+ * Compute the delay before the next attempt
+ * Server-provided delays win; otherwise exponential backoff with full jitter
+ */
+export function getRetryDelay(attempt: number, error: AxiosError, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+    const throttleDelay = getThrottleDelay(error.response?.headers);
+    if (throttleDelay > 0) {
+        return Math.min(throttleDelay, policy.maxDelayMs);
+    }
+
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+    return Math.floor(Math.random() * exponential);
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -2,25 +2,162 @@ import * as vscode from 'vscode';
 import axios from 'axios';
 
 /**
- * Authentication Provider for Azure DevOps using Microsoft Authentication
- * Uses VSCode's built-in Microsoft authentication to avoid PAT tokens
+ * Personal Access Token credentials, used for Azure DevOps Server (on-prem)
+ * and for organizations where Microsoft sign-in isn't available
+ */
+interface PatCredentials {
+    token: string;
+    collectionUrl: string;
+    userName?: string;
+}
+
+/**
+ * Authentication Provider for Azure DevOps
+ * Uses VSCode's built-in Microsoft authentication by default, with optional
+ * Personal Access Token sign-in against a custom collection URL
  */
 export class AzureDevOpsAuthProvider {
     private static readonly SCOPES = [
         '499b84ac-1321-427f-aa17-267ca6975798/.default' // Azure DevOps scope
     ];
 
+    private static readonly PAT_KEY = 'ado-pat';
+    private static readonly PAT_URL_KEY = 'ado-pat-collection-url';
+    private static readonly PAT_USER_KEY = 'ado-pat-user';
+
     private session: vscode.AuthenticationSession | undefined;
+    private pat: PatCredentials | undefined;
     private readonly onDidChangeSessionEmitter = new vscode.EventEmitter<vscode.AuthenticationSession | undefined>();
     public readonly onDidChangeSession = this.onDidChangeSessionEmitter.event;
 
     constructor(private context: vscode.ExtensionContext) {}
 
+    /**
+     * Sign in to Azure DevOps
+     * Lets the user choose between a Microsoft account and a Personal Access Token
+     */
+    async signIn(): Promise<void> {
+        const method = await vscode.window.showQuickPick(
+            [
+                {
+                    label: '$(account) Microsoft account',
+                    description: 'Azure DevOps Services (dev.azure.com)',
+                    value: 'microsoft'
+                },
+                {
+                    label: '$(key) Personal Access Token',
+                    description: 'Azure DevOps Services or Azure DevOps Server (on-premises)',
+                    value: 'pat'
+                }
+            ],
+            { placeHolder: 'How do you want to sign in?', ignoreFocusOut: true }
+        );
+
+        if (!method) {
+            return;
+        }
+
+        if (method.value === 'pat') {
+            await this.signInWithPat();
+        } else {
+            await this.signInWithMicrosoft();
+        }
+    }
+
+    /**
+     * Sign in with a Personal Access Token against an organization or collection URL
+     * The token is validated against the server and stored in SecretStorage
+     */
+    async signInWithPat(): Promise<void> {
+        const collectionUrl = await vscode.window.showInputBox({
+            prompt: 'Enter your organization or collection URL',
+            placeHolder: 'https://dev.azure.com/myorg or https://tfs.contoso.com/tfs/DefaultCollection',
+            ignoreFocusOut: true,
+            validateInput: (value) => {
+                if (!value || !/^https?:\/\/[^/]+/i.test(value.trim())) {
+                    return 'Please enter a URL starting with https://';
+                }
+                return null;
+            }
+        });
+
+        if (!collectionUrl) {
+            return;
+        }
+
+        const token = await vscode.window.showInputBox({
+            prompt: 'Enter a Personal Access Token with Build (Read & execute) and Code (Read) scopes',
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: (value) => (!value || value.trim().length === 0) ? 'Token cannot be empty' : null
+        });
+
+        if (!token) {
+            return;
+        }
+
+        const credentials: PatCredentials = {
+            token: token.trim(),
+            collectionUrl: collectionUrl.trim().replace(/\/+$/, '')
+        };
+
+        try {
+            credentials.userName = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Azure DevOps',
+                cancellable: false
+            }, async (progress) => {
+                progress.report({ message: 'Verifying access token...' });
+                return await this.verifyPat(credentials);
+            });
+        } catch (error: any) {
+            const status = error.response?.status;
+            const reason = status === 401 || status === 203
+                ? 'The token was rejected. Check that it is valid and not expired.'
+                : error.message || 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to sign in: ${reason}`);
+            return;
+        }
+
+        // A PAT sign-in replaces any Microsoft session
+        this.session = undefined;
+        await this.context.secrets.delete('ado-session-id');
+        await this.context.secrets.delete('ado-tenant-id');
+
+        await this.context.secrets.store(AzureDevOpsAuthProvider.PAT_KEY, credentials.token);
+        await this.context.secrets.store(AzureDevOpsAuthProvider.PAT_URL_KEY, credentials.collectionUrl);
+        await this.context.secrets.store(AzureDevOpsAuthProvider.PAT_USER_KEY, credentials.userName || '');
+        this.pat = credentials;
+
+        this.onDidChangeSessionEmitter.fire(undefined);
+        vscode.commands.executeCommand('setContext', 'azurePipelines.signedIn', true);
+        vscode.window.showInformationMessage(`Successfully signed in to ${credentials.collectionUrl}`);
+    }
+
+    /**
+     * Call connectionData with the token to confirm it works, returning the user's display name
+     */
+    private async verifyPat(credentials: PatCredentials): Promise<string | undefined> {
+        const response = await axios.get(`${credentials.collectionUrl}/_apis/connectionData`, {
+            headers: { 'Authorization': this.getBasicAuthHeader(credentials.token) },
+            // Azure DevOps answers 203 with a sign-in page for invalid tokens
+            validateStatus: (status) => status === 200,
+            timeout: 30000
+        });
+
+        const user = response.data?.authenticatedUser;
+        return user?.providerDisplayName || user?.properties?.Account?.$value;
+    }
+
+    private getBasicAuthHeader(token: string): string {
+        return `Basic ${Buffer.from(`:${token}`).toString('base64')}`;
+    }
+
     /**
      * Sign in to Azure DevOps using Microsoft authentication
      * Shows account picker, then tenant picker if user has multiple tenants
      */
-    async signIn(): Promise<vscode.AuthenticationSession> {
+    async signInWithMicrosoft(): Promise<vscode.AuthenticationSession> {
         try {
             // Step 1: Get all available Microsoft accounts
             const session = await vscode.authentication.getSession(
@@ -47,6 +184,7 @@ export class AzureDevOpsAuthProvider {
 
             if (!switchTenant || !switchTenant.value) {
                 // Use current session
+                await this.clearPat();
                 this.session = session;
                 await this.context.secrets.store('ado-session-id', this.session.id);
                 this.onDidChangeSessionEmitter.fire(this.session);
@@ -144,6 +282,7 @@ export class AzureDevOpsAuthProvider {
             );
 
             if (this.session) {
+                await this.clearPat();
                 await this.context.secrets.store('ado-session-id', this.session.id);
                 await this.context.secrets.store('ado-tenant-id', tenantId);
                 this.onDidChangeSessionEmitter.fire(this.session);
@@ -167,7 +306,14 @@ export class AzureDevOpsAuthProvider {
      * Completely clears the session - next sign-in will show account picker
      */
     async signOut(): Promise<void> {
-        if (this.session) {
+        if (this.pat) {
+            await this.clearPat();
+            this.onDidChangeSessionEmitter.fire(undefined);
+
+            vscode.commands.executeCommand('setContext', 'azurePipelines.signedIn', false);
+
+            vscode.window.showInformationMessage('Successfully signed out from Azure DevOps');
+        } else if (this.session) {
             // Clear our stored session data
             await this.context.secrets.delete('ado-session-id');
             await this.context.secrets.delete('ado-tenant-id');
@@ -183,6 +329,44 @@ export class AzureDevOpsAuthProvider {
         }
     }
 
+    private async clearPat(): Promise<void> {
+        this.pat = undefined;
+        await this.context.secrets.delete(AzureDevOpsAuthProvider.PAT_KEY);
+        await this.context.secrets.delete(AzureDevOpsAuthProvider.PAT_URL_KEY);
+        await this.context.secrets.delete(AzureDevOpsAuthProvider.PAT_USER_KEY);
+    }
+
+    /**
+     * Restore PAT credentials from SecretStorage
+     */
+    private async loadPat(): Promise<void> {
+        const token = await this.context.secrets.get(AzureDevOpsAuthProvider.PAT_KEY);
+        const collectionUrl = await this.context.secrets.get(AzureDevOpsAuthProvider.PAT_URL_KEY);
+        if (token && collectionUrl) {
+            const userName = await this.context.secrets.get(AzureDevOpsAuthProvider.PAT_USER_KEY);
+            this.pat = { token, collectionUrl, userName: userName || undefined };
+        }
+    }
+
+    /**
+     * Get the collection URL when signed in with a PAT
+     * Organization discovery is skipped in that mode; this URL is the only organization
+     */
+    getCollectionUrl(): string | undefined {
+        return this.pat?.collectionUrl;
+    }
+
+    /**
+     * Get the Authorization header value for Azure DevOps API calls
+     * Basic auth for PATs, Bearer for Microsoft sessions
+     */
+    async getAuthorizationHeader(): Promise<string> {
+        if (this.pat) {
+            return this.getBasicAuthHeader(this.pat.token);
+        }
+        return `Bearer ${await this.getAccessToken()}`;
+    }
+
     /**
      * Get current authentication session
      */
@@ -230,6 +414,9 @@ export class AzureDevOpsAuthProvider {
      * Check if user is currently authenticated
      */
     async isAuthenticated(): Promise<boolean> {
+        if (this.pat) {
+            return true;
+        }
         const session = await this.getSession();
         return session !== undefined;
     }
@@ -238,6 +425,14 @@ export class AzureDevOpsAuthProvider {
      * Get current user information
      */
     async getUserInfo(): Promise<{ name: string; email: string; id: string } | undefined> {
+        if (this.pat) {
+            return {
+                name: this.pat.userName || 'Personal Access Token',
+                email: this.pat.collectionUrl,
+                id: this.pat.collectionUrl
+            };
+        }
+
         const session = await this.getSession();
         if (!session) {
             return undefined;
@@ -338,8 +533,9 @@ export class AzureDevOpsAuthProvider {
      */
     async initialize(): Promise<void> {
         try {
-            const session = await this.getSession();
-            if (session) {
+            await this.loadPat();
+            const session = this.pat ? undefined : await this.getSession();
+            if (this.pat || session) {
                 vscode.commands.executeCommand('setContext', 'azurePipelines.signedIn', true);
             } else {
                 vscode.commands.executeCommand('setContext', 'azurePipelines.signedIn', false);
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import { AgentPoolsTreeProvider, AgentTreeItem, JobRequestTreeItem } from '../views/agentPoolsTreeView';
+import { LicenseManager } from '../services/licenseManager';
+import { ScopeManager } from '../services/scopeManager';
+import { AgentJobRequest, ProjectScope } from '../models/types';
+
+export class AgentPoolCommands {
+    constructor(
+        private scopes: ScopeManager,
+        private provider: AgentPoolsTreeProvider
+    ) {}
+
+    register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('azurePipelines.refreshAgentPools', () =>
+                this.provider.refresh()
+            ),
+            vscode.commands.registerCommand('azurePipelines.enableAgent', (item: AgentTreeItem) =>
+                this.setEnabled(item, true)
+            ),
+            vscode.commands.registerCommand('azurePipelines.disableAgent', (item: AgentTreeItem) =>
+                this.setEnabled(item, false)
+            ),
+            vscode.commands.registerCommand('azurePipelines.openJobRequestRun', (item: AgentTreeItem | JobRequestTreeItem) =>
+                this.openRun(item)
+            )
+        );
+    }
+
+    /**
+     * Enable or disable an agent; the server checks the user is an administrator of the pool
+     */
+    private async setEnabled(item: AgentTreeItem, enabled: boolean): Promise<void> {
+        if (!LicenseManager.getInstance().isPremium()) {
+            LicenseManager.getInstance().showUpgradePrompt('Manage Agents');
+            return;
+        }
+
+        if (!enabled && item.agent.assignedRequest) {
+            const confirm = await vscode.window.showWarningMessage(
+                `${item.agent.name} is running a job. Disabling it lets the job finish but no new jobs will be assigned to it.`,
+                { modal: true },
+                'Disable'
+            );
+            if (confirm !== 'Disable') {
+                return;
+            }
+        }
+
+        try {
+            await this.scopes.clientFor(item).setAgentEnabled(item.pool.id, item.agent.id, enabled);
+            vscode.window.showInformationMessage(`Agent ${item.agent.name} ${enabled ? 'enabled' : 'disabled'}`);
+            this.provider.refresh();
+        } catch (error: any) {
+            const errorMessage = error?.response?.data?.message || (error instanceof Error ? error.message : 'Unknown error');
+            vscode.window.showErrorMessage(`Failed to ${enabled ? 'enable' : 'disable'} agent: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Open the run of a queued job or of the job an agent is running
+     */
+    private async openRun(item: AgentTreeItem | JobRequestTreeItem): Promise<void> {
+        const request = item instanceof AgentTreeItem ? item.agent.assignedRequest : item.request;
+        const runId = Number(request?.owner?.id);
+        if (!request || !runId) {
+            vscode.window.showErrorMessage('Run information not available for this job');
+            return;
+        }
+
+        const webUrl = request.owner?._links?.web?.href;
+        const openInBrowser = (message: string) => {
+            if (webUrl) {
+                vscode.env.openExternal(vscode.Uri.parse(webUrl));
+            } else {
+                vscode.window.showErrorMessage(message);
+            }
+        };
+
+        const scope = request.planType && request.planType !== 'Build'
+            ? undefined
+            : await this.findProjectScope(request, item.scope);
+        if (!scope) {
+            openInBrowser('This job belongs to a project that is not added to the views');
+            return;
+        }
+
+        try {
+            const run = await this.scopes.getClient(scope).getRun(runId);
+            this.scopes.tag([run], scope);
+            await vscode.commands.executeCommand('azurePipelines.viewRunDetails', run);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            openInBrowser(`Failed to open run: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Pools are shared by all projects of the organization; find the added project the job
+     * belongs to by its project id (the owner URL carries the id, not the project name)
+     */
+    private async findProjectScope(request: AgentJobRequest, poolScope?: ProjectScope): Promise<ProjectScope | undefined> {
+        if (!request.scopeId || !poolScope) {
+            return undefined;
+        }
+
+        const organizationKey = poolScope.organizationUrl.replace(/\/+$/, '').toLowerCase();
+        const candidates = this.scopes.getScopes()
+            .filter(scope => scope.organizationUrl.replace(/\/+$/, '').toLowerCase() === organizationKey);
+        for (const scope of candidates) {
+            try {
+                const projectId = await this.scopes.getClient(scope).getProjectId();
+                if (projectId.toLowerCase() === request.scopeId.toLowerCase()) {
+                    return scope;
+                }
+            } catch (error) {
+                console.error(`Failed to resolve the project id of ${scope.projectName}:`, error);
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import { AzureDevOpsClient } from '../api/azureDevOpsClient';
+import { ApprovalStatus, PipelineRun } from '../models/types';
+import { ApprovalsTreeProvider, ApprovalTreeItem } from '../views/approvalsTreeView';
+import { StagesTreeProvider, StageTreeItem } from '../views/stagesTreeView';
+import { LicenseManager } from '../services/licenseManager';
+import { ScopeManager } from '../services/scopeManager';
+
+/**
+ * An approval resolved from a Pending Approvals item or a waiting stage
+ */
+interface ApprovalTarget {
+    approvalId: string;
+    label: string;
+    client: AzureDevOpsClient;
+    runId?: number;
+}
+
+export class ApprovalCommands {
+    constructor(
+        private scopes: ScopeManager,
+        private provider: ApprovalsTreeProvider,
+        private stagesProvider: StagesTreeProvider
+    ) {}
+
+    register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('azurePipelines.refreshApprovals', () =>
+                this.provider.refresh()
+            ),
+            vscode.commands.registerCommand('azurePipelines.approveApproval', (item: ApprovalTreeItem | StageTreeItem) =>
+                this.respond(item, ApprovalStatus.Approved)
+            ),
+            vscode.commands.registerCommand('azurePipelines.rejectApproval', (item: ApprovalTreeItem | StageTreeItem) =>
+                this.respond(item, ApprovalStatus.Rejected)
+            ),
+            vscode.commands.registerCommand('azurePipelines.openApprovalRun', (item: ApprovalTreeItem) =>
+                this.openRun(item)
+            )
+        );
+    }
+
+    /**
+     * Approve or reject with an optional comment
+     */
+    private async respond(item: ApprovalTreeItem | StageTreeItem, status: ApprovalStatus.Approved | ApprovalStatus.Rejected): Promise<void> {
+        if (!LicenseManager.getInstance().isPremium()) {
+            LicenseManager.getInstance().showUpgradePrompt('Approvals');
+            return;
+        }
+
+        const target = this.resolve(item);
+        if (!target) {
+            vscode.window.showErrorMessage('Approval information not available. Please refresh and try again.');
+            return;
+        }
+
+        const approving = status === ApprovalStatus.Approved;
+        const comment = await vscode.window.showInputBox({
+            title: `${approving ? 'Approve' : 'Reject'} ${target.label}`,
+            prompt: 'Comment (optional)',
+            placeHolder: approving ? 'e.g. Verified in staging' : 'Reason for rejecting'
+        });
+        if (comment === undefined) {
+            return;
+        }
+
+        try {
+            await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `${approving ? 'Approving' : 'Rejecting'} ${target.label}`,
+                    cancellable: false
+                },
+                () => target.client.updateApproval(target.approvalId, status, comment)
+            );
+            vscode.window.showInformationMessage(`${target.label} ${approving ? 'approved' : 'rejected'}`);
+        } catch (error: any) {
+            const errorMessage = error?.response?.data?.message || (error instanceof Error ? error.message : 'Unknown error');
+            vscode.window.showErrorMessage(`Failed to ${approving ? 'approve' : 'reject'}: ${errorMessage}`);
+            return;
+        }
+
+        this.provider.refresh();
+        const currentRun = this.stagesProvider.getCurrentRun();
+        if (currentRun && currentRun.id === target.runId) {
+            await this.stagesProvider.loadStages(currentRun, target.client);
+        }
+    }
+
+    private resolve(item: ApprovalTreeItem | StageTreeItem): ApprovalTarget | undefined {
+        if (item instanceof ApprovalTreeItem) {
+            return {
+                approvalId: item.approval.id,
+                label: String(item.label),
+                client: this.scopes.clientFor(item),
+                runId: Number(item.approval.pipeline?.owner?.id) || undefined
+            };
+        }
+
+        const approval = item?.getPendingApproval?.();
+        if (approval && item.run) {
+            return {
+                approvalId: approval.id,
+                label: `stage ${item.record.name} of run ${item.run.buildNumber}`,
+                client: this.scopes.clientFor(item.run),
+                runId: item.run.id
+            };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Open the run an approval belongs to
+     */
+    private async openRun(item: ApprovalTreeItem): Promise<void> {
+        const runId = Number(item.approval.pipeline?.owner?.id);
+        if (!runId) {
+            vscode.window.showErrorMessage('Run information not available for this approval');
+            return;
+        }
+
+        try {
+            const run: PipelineRun = await this.scopes.clientFor(item).getRun(runId);
+            if (item.scope) {
+                this.scopes.tag([run], item.scope);
+            }
+            await vscode.commands.executeCommand('azurePipelines.viewRunDetails', run);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to open run: ${errorMessage}`);
+        }
+    }
+}
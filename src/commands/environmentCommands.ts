@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { PipelineRun } from '../models/types';
+import { EnvironmentsTreeProvider, DeploymentTreeItem } from '../views/environmentsTreeView';
+import { LicenseManager } from '../services/licenseManager';
+import { RunWatcher } from '../services/runWatcher';
+import { ScopeManager } from '../services/scopeManager';
+import { isRetryableStage, reloadRetriedRun, retryStages } from '../utils/stageRetry';
+
+export class EnvironmentCommands {
+    constructor(
+        private scopes: ScopeManager,
+        private provider: EnvironmentsTreeProvider,
+        private runWatcher: RunWatcher
+    ) {}
+
+    register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('azurePipelines.refreshEnvironments', () =>
+                this.provider.refresh()
+            ),
+            vscode.commands.registerCommand('azurePipelines.openDeploymentRun', (item: DeploymentTreeItem) =>
+                this.openRun(item)
+            ),
+            vscode.commands.registerCommand('azurePipelines.redeployRun', (item: DeploymentTreeItem) =>
+                this.redeploy(item)
+            )
+        );
+    }
+
+    /**
+     * Open the run that made a deployment
+     */
+    private async openRun(item: DeploymentTreeItem): Promise<void> {
+        try {
+            const run = await this.getRun(item);
+            await vscode.commands.executeCommand('azurePipelines.viewRunDetails', run);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to open run: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Deploy the same commit again: retry the deployment stage in place when it didn't
+     * succeed, or queue a new run of the pipeline at the run's branch and commit
+     */
+    private async redeploy(item: DeploymentTreeItem): Promise<void> {
+        if (!LicenseManager.getInstance().isPremium()) {
+            LicenseManager.getInstance().showUpgradePrompt('Redeploy');
+            return;
+        }
+
+        let run: PipelineRun;
+        try {
+            run = await this.getRun(item);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to load run: ${errorMessage}`);
+            return;
+        }
+
+        const client = this.scopes.clientFor(item);
+        const environmentName = item.environment.name;
+
+        // The deployment record's stage name is the stage identifier in the run's timeline
+        const timeline = await client.getRunTimeline(run.id).catch(() => undefined);
+        const stage = timeline?.records.find(record =>
+            record.type === 'Stage' && record.identifier === item.deployment.stageName
+        );
+
+        const branch = run.sourceBranch?.replace(/^refs\/heads\//, '');
+        const commit = run.sourceVersion;
+        const items: Array<vscode.QuickPickItem & { action: 'retry' | 'queue' }> = [];
+        if (stage && isRetryableStage(stage)) {
+            items.push({
+                label: `$(debug-rerun) Retry stage ${stage.name} in run #${run.buildNumber}`,
+                detail: 'Reruns the deployment in place, reusing the run\'s artifacts',
+                action: 'retry'
+            });
+        }
+        const pipelineId = item.deployment.definition?.id || run.definition?.id;
+        if (pipelineId && branch && commit) {
+            items.push({
+                label: `$(play) Queue a new run at ${commit.substring(0, 8)}`,
+                detail: `Runs ${item.deployment.definition?.name || 'the pipeline'} on ${branch} at the same commit`,
+                action: 'queue'
+            });
+        }
+
+        if (items.length === 0) {
+            vscode.window.showErrorMessage(`Run #${run.buildNumber} can't be redeployed: its branch or commit is not available`);
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: `Redeploy run #${run.buildNumber} to ${environmentName}`
+        });
+        if (!selected) {
+            return;
+        }
+
+        if (selected.action === 'retry' && stage) {
+            if (await retryStages(client, run, [stage])) {
+                // The run fetched before the retry is still completed; the watcher would ignore it
+                this.runWatcher.watch(await reloadRetriedRun(this.scopes, run, item.scope), { auto: true });
+                this.provider.refresh();
+            }
+            return;
+        }
+
+        try {
+            const newRun = await client.runPipeline(pipelineId!, { branch, commit });
+            if (item.scope) {
+                this.scopes.tag([newRun], item.scope);
+            }
+            this.runWatcher.watch(newRun, { auto: true });
+
+            vscode.window.showInformationMessage(
+                `Redeploying ${commit!.substring(0, 8)} to ${environmentName}: run #${newRun.buildNumber || newRun.id} started`,
+                'View Run'
+            ).then(selection => {
+                if (selection === 'View Run') {
+                    vscode.commands.executeCommand('azurePipelines.viewRunDetails', newRun);
+                }
+            });
+
+            vscode.commands.executeCommand('azurePipelines.refreshRuns');
+            this.provider.refresh();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to run pipeline: ${errorMessage}`);
+        }
+    }
+
+    private async getRun(item: DeploymentTreeItem): Promise<PipelineRun> {
+        if (item.run) {
+            return item.run;
+        }
+
+        const runId = Number(item.deployment.owner?.id);
+        if (!runId) {
+            throw new Error('Run information not available for this deployment');
+        }
+
+        const run = await this.scopes.clientFor(item).getRun(runId);
+        if (item.scope) {
+            this.scopes.tag([run], item.scope);
+        }
+        return run;
+    }
+}
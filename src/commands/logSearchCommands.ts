@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { Pipeline, PipelineRun } from '../models/types';
+import { LogSearchMatchTreeItem, LogSearchTarget, LogSearchTreeProvider } from '../views/logSearchTreeView';
+import { StagesTreeProvider } from '../views/stagesTreeView';
+import { ScopeManager } from '../services/scopeManager';
+import { openLogDocument } from '../providers/pipelineLogProvider';
+
+export class LogSearchCommands {
+    constructor(
+        private scopes: ScopeManager,
+        private provider: LogSearchTreeProvider,
+        private stagesProvider: StagesTreeProvider
+    ) {}
+
+    register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('azurePipelines.searchRunLogs', (target?: any) =>
+                this.searchRun(target)
+            ),
+            vscode.commands.registerCommand('azurePipelines.searchPipelineLogs', (target: any) =>
+                this.searchPipeline(target)
+            ),
+            vscode.commands.registerCommand('azurePipelines.openLogSearchMatch', (item: LogSearchMatchTreeItem) =>
+                this.openMatch(item)
+            ),
+            vscode.commands.registerCommand('azurePipelines.cancelLogSearch', () =>
+                this.provider.cancel()
+            ),
+            vscode.commands.registerCommand('azurePipelines.clearLogSearch', () =>
+                this.provider.clear()
+            )
+        );
+    }
+
+    /**
+     * Search the logs of a run (run or tree item), or of the run shown in the Stages view
+     */
+    private async searchRun(target?: any): Promise<void> {
+        const run: PipelineRun | undefined = target?.run || (target?.id ? target : undefined) || this.stagesProvider.getCurrentRun();
+        if (!run?.id) {
+            vscode.window.showErrorMessage('Select a run to search its logs');
+            return;
+        }
+
+        const query = await this.promptForPattern(`Search the logs of run ${run.buildNumber}`);
+        if (!query) {
+            return;
+        }
+
+        await this.search(query, [{ run, client: this.scopes.clientFor(target || run) }]);
+    }
+
+    /**
+     * Search the logs of the last runs of a pipeline
+     */
+    private async searchPipeline(target: any): Promise<void> {
+        const pipeline: Pipeline | undefined = target?.pipeline || target;
+        if (!pipeline?.id) {
+            vscode.window.showErrorMessage('Pipeline information not available. Please refresh and try again.');
+            return;
+        }
+
+        const count = await vscode.window.showQuickPick(
+            [
+                { label: '5', description: 'Last 5 runs' },
+                { label: '10', description: 'Last 10 runs' },
+                { label: '20', description: 'Last 20 runs' }
+            ],
+            { placeHolder: `How many runs of ${pipeline.name} to search?` }
+        );
+        if (!count) {
+            return;
+        }
+
+        const query = await this.promptForPattern(`Search the logs of the last ${count.label} runs of ${pipeline.name}`);
+        if (!query) {
+            return;
+        }
+
+        const client = this.scopes.clientFor(target);
+        let runs: PipelineRun[];
+        try {
+            runs = await client.getPipelineRuns(pipeline.id, Number(count.label));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to load runs: ${errorMessage}`);
+            return;
+        }
+        if (runs.length === 0) {
+            vscode.window.showInformationMessage(`${pipeline.name} has no runs to search`);
+            return;
+        }
+
+        await this.search(query, runs.map(run => ({ run, client })));
+    }
+
+    private async promptForPattern(title: string): Promise<string | undefined> {
+        return vscode.window.showInputBox({
+            title,
+            prompt: 'Regular expression, matched case-insensitively against each log line',
+            placeHolder: 'e.g. error|timed out',
+            value: this.provider.getLastQuery(),
+            validateInput: value => {
+                try {
+                    new RegExp(value, 'i');
+                    return value ? undefined : 'Enter a pattern';
+                } catch (error) {
+                    return error instanceof Error ? error.message : 'Invalid regular expression';
+                }
+            }
+        });
+    }
+
+    private async search(query: string, targets: LogSearchTarget[]): Promise<void> {
+        await vscode.commands.executeCommand('azurePipelinesLogSearch.focus');
+        try {
+            await this.provider.search(query, new RegExp(query, 'i'), targets);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to search logs: ${errorMessage}`);
+        }
+    }
+
+    private async openMatch(item: LogSearchMatchTreeItem): Promise<void> {
+        try {
+            await openLogDocument(item.client.getConfig(), item.log.run.id, item.log.logId, item.match.line);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to open log: ${errorMessage}`);
+        }
+    }
+}
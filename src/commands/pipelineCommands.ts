@@ -1,8 +1,8 @@
 import * as vscode from 'vscode';
 import { AzureDevOpsClient } from '../api/azureDevOpsClient';
-import { Pipeline, PipelineRun, TimelineRecord } from '../models/types';
+import { Pipeline, PipelineRun, ProjectScope, TimelineRecord } from '../models/types';
 import { RunsTreeProvider } from '../views/runsTreeView';
-import { PipelinesTreeProvider } from '../views/pipelinesTreeView';
+import { PipelineFolderTreeItem, PipelinesTreeProvider } from '../views/pipelinesTreeView';
 import { StagesTreeProvider } from '../views/stagesTreeView';
 import { RunDetailsPanel } from '../webviews/runDetailsPanel';
 import { LiveLogPanel } from '../webviews/liveLogPanel';
@@ -14,6 +14,10 @@ import { TaskAssistantPanel } from '../webviews/taskAssistantPanel';
 import { TaskService } from '../services/taskService';
 import { PipelineCodeLensProvider } from '../providers/pipelineCodeLensProvider';
 import { LicenseManager } from '../services/licenseManager';
+import { ScopeManager } from '../services/scopeManager';
+import { RunWatcher } from '../services/runWatcher';
+import { openLogDocument } from '../providers/pipelineLogProvider';
+import { getFailedStages, isRetryableStage, reloadRetriedRun, retryStages } from '../utils/stageRetry';
 
 /**
  * Pipeline command handlers
@@ -23,9 +27,11 @@ export class PipelineCommands {
 
     constructor(
         private client: AzureDevOpsClient,
+        private scopes: ScopeManager,
         private pipelinesProvider: PipelinesTreeProvider,
         private runsProvider: RunsTreeProvider,
         private stagesProvider: StagesTreeProvider,
+        private runWatcher: RunWatcher,
         private codeLensProvider?: PipelineCodeLensProvider
     ) {
         this.taskService = new TaskService(client);
@@ -45,26 +51,38 @@ export class PipelineCommands {
             vscode.commands.registerCommand('azurePipelines.refreshPipelines', () =>
                 this.refreshPipelines()
             ),
-            vscode.commands.registerCommand('azurePipelines.cancelRun', (run: PipelineRun) =>
-                this.cancelRun(run)
+            vscode.commands.registerCommand('azurePipelines.loadMorePipelines', (scope?: ProjectScope) =>
+                this.pipelinesProvider.loadMore(scope)
             ),
-            vscode.commands.registerCommand('azurePipelines.retryRun', (run: PipelineRun) =>
-                this.retryRun(run)
+            vscode.commands.registerCommand('azurePipelines.cancelRun', (runOrTreeItem: PipelineRun | any) =>
+                this.cancelRun(runOrTreeItem.run || runOrTreeItem)
             ),
-            vscode.commands.registerCommand('azurePipelines.viewRunDetails', (run: PipelineRun) =>
-                this.viewRunDetails(run)
+            vscode.commands.registerCommand('azurePipelines.retryRun', (runOrTreeItem: PipelineRun | any) =>
+                this.retryRun(runOrTreeItem.run || runOrTreeItem)
             ),
-            vscode.commands.registerCommand('azurePipelines.viewRunLogs', (run: PipelineRun) =>
-                this.viewRunLogs(run)
+            vscode.commands.registerCommand('azurePipelines.watchRun', (runOrTreeItem: PipelineRun | any) =>
+                this.runWatcher.watch(runOrTreeItem)
+            ),
+            vscode.commands.registerCommand('azurePipelines.unwatchRun', (runOrTreeItem: PipelineRun | any) =>
+                this.runWatcher.unwatch(runOrTreeItem)
+            ),
+            vscode.commands.registerCommand('azurePipelines.viewRunDetails', (runOrTreeItem: PipelineRun | any) =>
+                this.viewRunDetails(runOrTreeItem.run || runOrTreeItem)
+            ),
+            vscode.commands.registerCommand('azurePipelines.viewRunLogs', (runOrTreeItem: PipelineRun | any) =>
+                this.viewRunLogs(runOrTreeItem.run || runOrTreeItem)
             ),
             vscode.commands.registerCommand('azurePipelines.refreshRuns', () =>
                 this.refreshRuns()
             ),
-            vscode.commands.registerCommand('azurePipelines.openRunInBrowser', (run: PipelineRun) =>
-                this.openRunInBrowser(run)
+            vscode.commands.registerCommand('azurePipelines.loadMoreRuns', (scope?: ProjectScope) =>
+                this.runsProvider.loadMore(scope)
+            ),
+            vscode.commands.registerCommand('azurePipelines.openRunInBrowser', (runOrTreeItem: PipelineRun | any) =>
+                this.openRunInBrowser(runOrTreeItem.run || runOrTreeItem)
             ),
-            vscode.commands.registerCommand('azurePipelines.downloadArtifacts', (run: PipelineRun) =>
-                this.downloadArtifacts(run)
+            vscode.commands.registerCommand('azurePipelines.downloadArtifacts', (runOrTreeItem: PipelineRun | any) =>
+                this.downloadArtifacts(runOrTreeItem.run || runOrTreeItem)
             ),
             vscode.commands.registerCommand('azurePipelines.filterRuns', () =>
                 this.filterRuns()
@@ -75,8 +93,8 @@ export class PipelineCommands {
             vscode.commands.registerCommand('azurePipelines.openPipelineInBrowser', (pipeline: Pipeline) =>
                 this.openPipelineInBrowser(pipeline)
             ),
-            vscode.commands.registerCommand('azurePipelines.createPipeline', () =>
-                this.createPipeline()
+            vscode.commands.registerCommand('azurePipelines.createPipeline', (target?: any) =>
+                this.createPipeline(target)
             ),
             vscode.commands.registerCommand('azurePipelines.renamePipeline', (pipeline: Pipeline) =>
                 this.renamePipeline(pipeline)
@@ -87,6 +105,18 @@ export class PipelineCommands {
             vscode.commands.registerCommand('azurePipelines.editPipeline', (pipeline: Pipeline) =>
                 this.editPipeline(pipeline)
             ),
+            vscode.commands.registerCommand('azurePipelines.createFolder', (target?: any) =>
+                this.createFolder(target)
+            ),
+            vscode.commands.registerCommand('azurePipelines.renameFolder', (folder: PipelineFolderTreeItem) =>
+                this.renameFolder(folder)
+            ),
+            vscode.commands.registerCommand('azurePipelines.deleteFolder', (folder: PipelineFolderTreeItem) =>
+                this.deleteFolder(folder)
+            ),
+            vscode.commands.registerCommand('azurePipelines.runFolder', (folder: PipelineFolderTreeItem) =>
+                this.runFolder(folder)
+            ),
             vscode.commands.registerCommand('azurePipelines.refreshStages', () =>
                 this.refreshStages()
             ),
@@ -96,6 +126,12 @@ export class PipelineCommands {
             vscode.commands.registerCommand('azurePipelines.openStageInBrowser', (item: { record: TimelineRecord; run?: PipelineRun }) =>
                 this.openStageInBrowser(item.record, item.run)
             ),
+            vscode.commands.registerCommand('azurePipelines.retryStage', (item: { record: TimelineRecord; run?: PipelineRun }) =>
+                this.retryStage(item.record, item.run)
+            ),
+            vscode.commands.registerCommand('azurePipelines.rerunFailedJobs', (runOrTreeItem?: PipelineRun | any) =>
+                this.rerunFailedJobs(runOrTreeItem?.run || runOrTreeItem)
+            ),
             vscode.commands.registerCommand('azurePipelines.openTaskAssistant', () =>
                 this.openTaskAssistant()
             ),
@@ -152,6 +188,8 @@ export class PipelineCommands {
                 return;
             }
 
+            const client = this.scopes.clientFor(pipelineOrTreeItem);
+
             await vscode.window.withProgress(
                 {
                     location: vscode.ProgressLocation.Notification,
@@ -159,12 +197,12 @@ export class PipelineCommands {
                     cancellable: false
                 },
                 async () => {
-                    const fullPipeline = await this.client.getPipeline(pipeline.id);
+                    const fullPipeline = await client.getPipeline(pipeline.id);
 
                     let sourceBranch: string | undefined;
                     if (fullPipeline.repository?.id) {
                         try {
-                            const repos = await this.client.getRepositories();
+                            const repos = await client.getRepositories();
                             const repo = repos.find(r => r.id === fullPipeline.repository?.id);
                             sourceBranch = repo?.defaultBranch;
                         } catch (error) {
@@ -172,7 +210,7 @@ export class PipelineCommands {
                         }
                     }
 
-                    await this.showRunPipelineModal(fullPipeline, sourceBranch);
+                    await this.showRunPipelineModal(client, fullPipeline, sourceBranch, this.scopes.getScopeOf(pipelineOrTreeItem));
                 }
             );
         } catch (error) {
@@ -184,9 +222,20 @@ export class PipelineCommands {
     /**
      * Show run pipeline modal form
      */
-    private async showRunPipelineModal(pipeline: Pipeline, sourceBranch?: string): Promise<void> {
+    private async showRunPipelineModal(
+        client: AzureDevOpsClient,
+        pipeline: Pipeline,
+        sourceBranch?: string,
+        scope?: ProjectScope
+    ): Promise<void> {
         // Show lightweight modal that slides in from the right
-        await RunPipelineModal.show(this.client, pipeline, sourceBranch);
+        await RunPipelineModal.show(client, pipeline, sourceBranch, run => {
+            // Watch the queued run so its result is reported when it finishes
+            if (scope) {
+                this.scopes.tag([run], scope);
+            }
+            this.runWatcher.watch(run, { auto: true });
+        });
     }
 
     /**
@@ -201,7 +250,7 @@ export class PipelineCommands {
         }
 
         // Open the pipeline runs panel
-        await PipelineRunsPanel.show(this.client, pipeline);
+        await PipelineRunsPanel.show(this.scopes.clientFor(pipelineOrTreeItem), pipeline);
     }
 
     /**
@@ -238,7 +287,7 @@ export class PipelineCommands {
                     cancellable: false
                 },
                 async () => {
-                    await this.client.cancelRun(run.id);
+                    await this.scopes.clientFor(run).cancelRun(run.id);
                     vscode.window.showInformationMessage(`Run ${run.buildNumber} canceled`);
                     this.runsProvider.refresh();
                 }
@@ -265,7 +314,11 @@ export class PipelineCommands {
                     cancellable: false
                 },
                 async () => {
-                    const newRun = await this.client.retryRun(run.id);
+                    const scope = this.scopes.getScopeOf(run);
+                    const newRun = await this.scopes.clientFor(run).retryRun(run.id);
+                    if (scope) {
+                        this.scopes.tag([newRun], scope);
+                    }
                     vscode.window.showInformationMessage(
                         `Run retried: ${newRun.buildNumber}`,
                         'View Run'
@@ -283,13 +336,84 @@ export class PipelineCommands {
         }
     }
 
+    /**
+     * Retry a finished stage on the same run instead of queueing a new one
+     */
+    private async retryStage(record: TimelineRecord, run?: PipelineRun): Promise<void> {
+        if (!LicenseManager.getInstance().isPremium()) {
+            LicenseManager.getInstance().showUpgradePrompt('Retry Stage');
+            return;
+        }
+        if (!run) {
+            vscode.window.showErrorMessage('Run information not available');
+            return;
+        }
+        if (!isRetryableStage(record)) {
+            vscode.window.showInformationMessage(`Stage ${record.name} can be retried once it has failed or was canceled`);
+            return;
+        }
+
+        if (await retryStages(this.scopes.clientFor(run), run, [record])) {
+            await this.pickUpRetriedRun(run);
+        }
+    }
+
+    /**
+     * Retry the failed jobs of every failed stage on the same run
+     * Without a run, uses the run shown in the Stages view
+     */
+    private async rerunFailedJobs(run?: PipelineRun): Promise<void> {
+        if (!LicenseManager.getInstance().isPremium()) {
+            LicenseManager.getInstance().showUpgradePrompt('Retry Stage');
+            return;
+        }
+
+        const target = run || this.stagesProvider.getCurrentRun();
+        if (!target) {
+            vscode.window.showInformationMessage('Select a run to rerun its failed jobs');
+            return;
+        }
+
+        try {
+            const client = this.scopes.clientFor(target);
+            const timeline = await client.getRunTimeline(target.id);
+            const failedStages = getFailedStages(timeline?.records || []);
+            if (failedStages.length === 0) {
+                vscode.window.showInformationMessage('No failed jobs found in this run');
+                return;
+            }
+
+            if (await retryStages(client, target, failedStages)) {
+                await this.pickUpRetriedRun(target);
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to rerun failed jobs: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Pick up the new attempt after a stage retry: watch the run again and reload the views
+     */
+    private async pickUpRetriedRun(run: PipelineRun): Promise<void> {
+        const client = this.scopes.clientFor(run);
+        const updated = await reloadRetriedRun(this.scopes, run);
+
+        this.runWatcher.watch(updated, { auto: true });
+        this.runsProvider.refresh();
+        if (this.stagesProvider.getCurrentRun()?.id === run.id) {
+            await this.stagesProvider.loadStages(updated, client);
+        }
+    }
+
     /**
      * View run details
      */
     private async viewRunDetails(run: PipelineRun): Promise<void> {
-        await RunDetailsPanel.show(this.client, run);
+        const client = this.scopes.clientFor(run);
+        await RunDetailsPanel.show(client, run);
         // Also load stages in the stages tree view
-        await this.stagesProvider.loadStages(run);
+        await this.stagesProvider.loadStages(run, client);
     }
 
     /**
@@ -297,7 +421,8 @@ export class PipelineCommands {
      */
     private async viewRunLogs(run: PipelineRun): Promise<void> {
         try {
-            const logs = await this.client.getRunLogs(run.id);
+            const client = this.scopes.clientFor(run);
+            const logs = await client.getRunLogs(run.id);
 
             if (logs.length === 0) {
                 vscode.window.showInformationMessage('No logs available for this run');
@@ -319,9 +444,15 @@ export class PipelineCommands {
                 return;
             }
 
-            // Open in live log viewer
+            // Follow logs of running runs live; finished logs open in the editor
+            const scope = this.scopes.getScopeOf(run) || this.scopes.getPrimaryScope();
+            if (String(run.status).toLowerCase() === 'completed' && scope) {
+                await openLogDocument(scope, run.id, selectedLog.log.id);
+                return;
+            }
+
             await LiveLogPanel.show(
-                this.client,
+                client,
                 run.id,
                 selectedLog.log.id,
                 `${run.buildNumber} - Log ${selectedLog.log.id}`
@@ -364,7 +495,8 @@ export class PipelineCommands {
             return;
         }
         try {
-            const artifacts = await this.client.getArtifacts(run.id);
+            const client = this.scopes.clientFor(run);
+            const artifacts = await client.getArtifacts(run.id);
 
             if (artifacts.length === 0) {
                 vscode.window.showInformationMessage('No artifacts available for this run');
@@ -385,7 +517,7 @@ export class PipelineCommands {
                 return;
             }
 
-            const downloadUrl = await this.client.downloadArtifact(
+            const downloadUrl = await client.downloadArtifact(
                 run.id,
                 selectedArtifact.artifact.name
             );
@@ -418,7 +550,7 @@ export class PipelineCommands {
     private async openPipelineInBrowser(pipelineOrTreeItem: Pipeline | any): Promise<void> {
         try {
             const pipeline: Pipeline = (pipelineOrTreeItem as any).pipeline || pipelineOrTreeItem;
-            const config = this.client.getConfig();
+            const config = this.scopes.clientFor(pipelineOrTreeItem).getConfig();
             const pipelineUrl = `${config.organizationUrl}/${config.projectName}/_build?definitionId=${pipeline.id}`;
             vscode.env.openExternal(vscode.Uri.parse(pipelineUrl));
         } catch (error) {
@@ -429,12 +561,18 @@ export class PipelineCommands {
     /**
      * Create new pipeline with wizard
      */
-    private async createPipeline(): Promise<void> {
+    private async createPipeline(target?: any): Promise<void> {
         if (!LicenseManager.getInstance().isPremium()) {
             LicenseManager.getInstance().showUpgradePrompt('Create Pipeline');
             return;
         }
         try {
+            const scope = this.scopes.getScopeOf(target) || await this.scopes.pickScope('Select the project to create the pipeline in');
+            if (!scope) {
+                return;
+            }
+            const client = this.scopes.getClient(scope);
+
             // Step 1: Get repositories
             const repositories = await vscode.window.withProgress(
                 {
@@ -442,7 +580,7 @@ export class PipelineCommands {
                     title: 'Loading repositories...',
                     cancellable: false
                 },
-                async () => await this.client.getRepositories()
+                async () => await client.getRepositories()
             );
 
             if (repositories.length === 0) {
@@ -502,7 +640,7 @@ export class PipelineCommands {
                         title: 'Loading files from repository...',
                         cancellable: false
                     },
-                    async () => await this.client.getRepositoryItems(selectedRepo.repo.id, '/', defaultBranch, 'full')
+                    async () => await client.getRepositoryItems(selectedRepo.repo.id, '/', defaultBranch, 'full')
                 );
 
                 // Filter for YAML/YML files
@@ -640,13 +778,14 @@ export class PipelineCommands {
                     cancellable: false
                 },
                 async () => {
-                    const newPipeline = await this.client.createPipeline(
+                    const newPipeline = await client.createPipeline(
                         pipelineName,
                         yamlPath!,
                         selectedRepo.repo.id,
                         selectedRepo.repo.name,
                         folder
                     );
+                    this.scopes.tag([newPipeline], scope);
 
                     vscode.window.showInformationMessage(
                         `Pipeline created successfully: ${newPipeline.name}`,
@@ -687,7 +826,7 @@ export class PipelineCommands {
             }
 
             // Show centered modal form
-            await RenamePipelineModal.show(this.client, pipeline, () => {
+            await RenamePipelineModal.show(this.scopes.clientFor(pipelineOrTreeItem), pipeline, () => {
                 // Refresh pipelines view on success
                 this.pipelinesProvider.refresh();
             });
@@ -731,7 +870,7 @@ export class PipelineCommands {
                     cancellable: false
                 },
                 async () => {
-                    await this.client.deletePipeline(pipeline.id);
+                    await this.scopes.clientFor(pipelineOrTreeItem).deletePipeline(pipeline.id);
                     vscode.window.showInformationMessage(`Pipeline deleted: ${pipeline.name}`);
 
                     // Refresh pipelines view
@@ -761,7 +900,7 @@ export class PipelineCommands {
             }
 
             // Open the pipeline editor panel
-            await PipelineEditorPanel.show(this.client, pipeline);
+            await PipelineEditorPanel.show(this.scopes.clientFor(pipelineOrTreeItem), pipeline);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             vscode.window.showErrorMessage(`Failed to edit pipeline: ${errorMessage}`);
@@ -769,51 +908,254 @@ export class PipelineCommands {
     }
 
     /**
-     * Refresh stages view
+     * Create a pipeline folder, inside the selected folder when invoked on one
      */
-    private refreshStages(): void {
-        this.stagesProvider.refresh();
+    private async createFolder(target?: any): Promise<void> {
+        if (!LicenseManager.getInstance().isPremium()) {
+            LicenseManager.getInstance().showUpgradePrompt('Pipeline Folders');
+            return;
+        }
+        try {
+            const scope = this.scopes.getScopeOf(target) || await this.scopes.pickScope('Select the project to create the folder in');
+            if (!scope) {
+                return;
+            }
+
+            const parent = target instanceof PipelineFolderTreeItem ? target.path : '\\';
+            const name = await vscode.window.showInputBox({
+                prompt: `Create a folder in ${parent}`,
+                placeHolder: 'Folder name (use \\ to create nested folders)',
+                validateInput: value => this.validateFolderName(value)
+            });
+
+            if (!name) {
+                return;
+            }
+
+            const path = this.joinFolderPath(parent, name);
+            await this.scopes.getClient(scope).createPipelineFolder(path);
+            vscode.window.showInformationMessage(`Folder created: ${path}`);
+            this.pipelinesProvider.refresh();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to create folder: ${errorMessage}`);
+        }
     }
 
     /**
-     * View stage log in VS Code editor
+     * Rename or move a pipeline folder by editing its full path
      */
-    private async viewStageLog(record: TimelineRecord, run?: PipelineRun): Promise<void> {
+    private async renameFolder(folder: PipelineFolderTreeItem): Promise<void> {
+        if (!LicenseManager.getInstance().isPremium()) {
+            LicenseManager.getInstance().showUpgradePrompt('Pipeline Folders');
+            return;
+        }
+        try {
+            if (!(folder instanceof PipelineFolderTreeItem)) {
+                vscode.window.showErrorMessage('Please select a folder in the Pipelines view');
+                return;
+            }
+
+            const newPath = await vscode.window.showInputBox({
+                prompt: 'Rename or move the folder (edit the full path)',
+                value: folder.path,
+                valueSelection: [folder.path.lastIndexOf('\\') + 1, folder.path.length],
+                validateInput: value => this.validateFolderName(value)
+            });
+
+            if (!newPath) {
+                return;
+            }
+
+            const normalized = this.joinFolderPath('\\', newPath);
+            if (normalized === folder.path) {
+                return;
+            }
+
+            await this.scopes.clientFor(folder).updatePipelineFolder(folder.path, normalized);
+            vscode.window.showInformationMessage(`Folder moved: ${folder.path} → ${normalized}`);
+            this.pipelinesProvider.refresh();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to rename folder: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Delete a pipeline folder (Azure DevOps deletes the pipelines in it as well)
+     */
+    private async deleteFolder(folder: PipelineFolderTreeItem): Promise<void> {
+        if (!LicenseManager.getInstance().isPremium()) {
+            LicenseManager.getInstance().showUpgradePrompt('Pipeline Folders');
+            return;
+        }
         try {
-            if (!record.log?.url) {
-                vscode.window.showInformationMessage('Log URL is not available for this stage');
+            if (!(folder instanceof PipelineFolderTreeItem)) {
+                vscode.window.showErrorMessage('Please select a folder in the Pipelines view');
+                return;
+            }
+
+            // The view may only hold some pages or a filtered subset; the server deletes everything under the path
+            const client = this.scopes.clientFor(folder);
+            const pipelines = await client.getPipelinesInFolder(folder.path);
+            const contents = pipelines.length > 0
+                ? ` It contains ${pipelines.length} pipeline(s), which will be deleted too.`
+                : ' It contains no pipelines.';
+            const confirmation = await vscode.window.showWarningMessage(
+                `Are you sure you want to delete folder "${folder.path}"?${contents} This action cannot be undone.`,
+                { modal: true },
+                'Delete',
+                'Cancel'
+            );
+
+            if (confirmation !== 'Delete') {
                 return;
             }
 
             await vscode.window.withProgress(
                 {
                     location: vscode.ProgressLocation.Notification,
-                    title: `Loading log for ${record.name}`,
+                    title: `Deleting folder: ${folder.path}`,
                     cancellable: false
                 },
                 async () => {
-                    // Fetch log content from the URL using the API client
-                    const logData = await this.client.getLogContentFromUrl(record.log!.url);
-
-                    // Azure DevOps returns logs as an array of lines with timestamps
-                    // Format: "2024-01-23T14:30:45.1234567Z <log content>"
-                    // Remove the first 29 characters (timestamp) from each line
-                    const formattedLog = logData.value
-                        .map((line: string) => line.length > 29 ? line.slice(29) : line)
-                        .join('\n');
-
-                    // Open in text document with proper syntax highlighting
-                    const document = await vscode.workspace.openTextDocument({
-                        content: formattedLog,
-                        language: 'plaintext'
-                    });
+                    await client.deletePipelineFolder(folder.path);
+                    vscode.window.showInformationMessage(`Folder deleted: ${folder.path}`);
 
-                    await vscode.window.showTextDocument(document, {
-                        preview: false,
-                        viewColumn: vscode.ViewColumn.Beside
-                    });
+                    this.pipelinesProvider.refresh();
+                }
+            );
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to delete folder: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Queue every pipeline in a folder (including subfolders) on its default branch
+     */
+    private async runFolder(folder: PipelineFolderTreeItem): Promise<void> {
+        if (!LicenseManager.getInstance().isPremium()) {
+            LicenseManager.getInstance().showUpgradePrompt('Run All Pipelines in Folder');
+            return;
+        }
+        try {
+            if (!(folder instanceof PipelineFolderTreeItem)) {
+                vscode.window.showErrorMessage('Please select a folder in the Pipelines view');
+                return;
+            }
+
+            // The view may only hold some pages or a filtered subset; run everything in the folder
+            const client = this.scopes.clientFor(folder);
+            const pipelines = await client.getPipelinesInFolder(folder.path);
+            if (pipelines.length === 0) {
+                vscode.window.showInformationMessage('There are no pipelines in this folder');
+                return;
+            }
+
+            const confirmation = await vscode.window.showWarningMessage(
+                `Run all ${pipelines.length} pipeline(s) in "${folder.path}"?`,
+                { modal: true },
+                'Run All'
+            );
+
+            if (confirmation !== 'Run All') {
+                return;
+            }
+
+            const failures: string[] = [];
+            let queued = 0;
+
+            await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Running pipelines in ${folder.path}`,
+                    cancellable: true
+                },
+                async (progress, token) => {
+                    for (const pipeline of pipelines) {
+                        if (token.isCancellationRequested) {
+                            break;
+                        }
+                        progress.report({
+                            message: pipeline.name,
+                            increment: 100 / pipelines.length
+                        });
+                        try {
+                            const run = await client.runPipeline(pipeline.id);
+                            if (folder.scope) {
+                                this.scopes.tag([run], folder.scope);
+                            }
+                            queued++;
+                        } catch (error) {
+                            failures.push(`${pipeline.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                        }
+                    }
                 }
             );
+
+            if (failures.length > 0) {
+                vscode.window.showWarningMessage(
+                    `Queued ${queued} of ${pipelines.length} pipeline(s). Failed: ${failures.join('; ')}`
+                );
+            } else {
+                vscode.window.showInformationMessage(`Queued ${queued} pipeline(s) in ${folder.path}`);
+            }
+
+            this.runsProvider.refresh();
+            this.pipelinesProvider.refresh();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to run folder: ${errorMessage}`);
+        }
+    }
+
+    private validateFolderName(value: string): string | undefined {
+        if (!value.trim() || value.split('\\').every(segment => !segment.trim())) {
+            return 'Folder name is required';
+        }
+        if (/[/:*?"<>|]/.test(value)) {
+            return 'Folder names cannot contain / : * ? " < > |';
+        }
+        return undefined;
+    }
+
+    /**
+     * Join a parent folder and a (possibly nested) name into a normalized path from the root
+     */
+    private joinFolderPath(parent: string, name: string): string {
+        const segments = [...parent.split('\\'), ...name.split('\\')]
+            .map(segment => segment.trim())
+            .filter(Boolean);
+        return `\\${segments.join('\\')}`;
+    }
+
+    /**
+     * Refresh stages view
+     */
+    private refreshStages(): void {
+        this.stagesProvider.refresh();
+    }
+
+    /**
+     * View stage log in VS Code editor
+     */
+    private async viewStageLog(record: TimelineRecord, run?: PipelineRun): Promise<void> {
+        const scope = this.scopes.getScopeOf(run) || this.scopes.getPrimaryScope();
+        if (!record.log?.id || !run || !scope) {
+            vscode.window.showInformationMessage('Log is not available for this stage');
+            return;
+        }
+
+        try {
+            await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Loading log for ${record.name}`,
+                    cancellable: false
+                },
+                () => openLogDocument(scope, run.id, record.log!.id)
+            );
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             vscode.window.showErrorMessage(`Failed to load stage log: ${errorMessage}`);
@@ -830,7 +1172,7 @@ export class PipelineCommands {
                 return;
             }
 
-            const config = this.client.getConfig();
+            const config = this.scopes.clientFor(run).getConfig();
             const organizationUrl = config.organizationUrl;
             const projectName = config.projectName;
 
@@ -839,17 +1181,9 @@ export class PipelineCommands {
                 return;
             }
 
-            // Extract organization name from URL
-            // URL format: https://dev.azure.com/organizationName
-            const orgName = organizationUrl.split('/').filter(Boolean).pop();
-
-            if (!orgName) {
-                vscode.window.showErrorMessage('Could not extract organization name from URL');
-                return;
-            }
-
             let url: string;
-            const baseUrl = `https://dev.azure.com/${orgName}/${projectName}/_build/results?buildId=${run.id}&view=logs`;
+            // Use the configured URL as-is so visualstudio.com and Azure DevOps Server hosts work too
+            const baseUrl = `${organizationUrl.replace(/\/+$/, '')}/${encodeURIComponent(projectName)}/_build/results?buildId=${run.id}&view=logs`;
 
             // Construct URL based on record type and state
             const recordType = record.type.toLowerCase();
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { RunProblemsTreeProvider, RunProblemTreeItem } from '../views/runProblemsTreeView';
+import { openLogDocument } from '../providers/pipelineLogProvider';
+
+export class RunProblemCommands {
+    constructor(private provider: RunProblemsTreeProvider) {}
+
+    register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('azurePipelines.refreshRunProblems', () =>
+                this.refresh()
+            ),
+            vscode.commands.registerCommand('azurePipelines.copyRunProblemsMarkdown', () =>
+                this.copyMarkdown()
+            ),
+            vscode.commands.registerCommand('azurePipelines.openProblemLogLine', (item: RunProblemTreeItem) =>
+                this.openLogLine(item)
+            )
+        );
+    }
+
+    private async refresh(): Promise<void> {
+        try {
+            await this.provider.reload();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to refresh run problems: ${errorMessage}`);
+        }
+    }
+
+    private async copyMarkdown(): Promise<void> {
+        const markdown = this.provider.toMarkdown();
+        if (!markdown) {
+            vscode.window.showInformationMessage('Open a run to copy its problems');
+            return;
+        }
+
+        await vscode.env.clipboard.writeText(markdown);
+        vscode.window.showInformationMessage('Run problems copied as Markdown');
+    }
+
+    /**
+     * Open the log of the task that reported the problem, at the line it was logged on
+     */
+    private async openLogLine(item: RunProblemTreeItem): Promise<void> {
+        const logId = item?.problem.record.log?.id;
+        if (!logId) {
+            vscode.window.showErrorMessage('No log is available for this problem');
+            return;
+        }
+
+        try {
+            await openLogDocument(item.client.getConfig(), item.run.id, logId, item.problem.line);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to open log: ${errorMessage}`);
+        }
+    }
+}
@@ -4,10 +4,11 @@ import { ServiceEndpoint } from '../models/types';
 import { ServiceConnectionsTreeProvider } from '../views/serviceConnectionsTreeView';
 import { ServiceConnectionPanel } from '../webviews/serviceConnectionPanel';
 import { LicenseManager } from '../services/licenseManager';
+import { ScopeManager } from '../services/scopeManager';
 
 export class ServiceConnectionCommands {
     constructor(
-        private client: AzureDevOpsClient,
+        private scopes: ScopeManager,
         private provider: ServiceConnectionsTreeProvider
     ) {}
 
@@ -16,17 +17,17 @@ export class ServiceConnectionCommands {
             vscode.commands.registerCommand('azurePipelines.refreshServiceConnections', () =>
                 this.refreshConnections()
             ),
-            vscode.commands.registerCommand('azurePipelines.createServiceConnection', () =>
-                this.createConnection()
+            vscode.commands.registerCommand('azurePipelines.createServiceConnection', (target?: any) =>
+                this.createConnection(target)
             ),
-            vscode.commands.registerCommand('azurePipelines.editServiceConnection', (connection: ServiceEndpoint) =>
-                this.editConnection(connection)
+            vscode.commands.registerCommand('azurePipelines.editServiceConnection', (connectionOrTreeItem: ServiceEndpoint | any) =>
+                this.editConnection(connectionOrTreeItem.connection || connectionOrTreeItem)
             ),
-            vscode.commands.registerCommand('azurePipelines.deleteServiceConnection', (connection: ServiceEndpoint) =>
-                this.deleteConnection(connection)
+            vscode.commands.registerCommand('azurePipelines.deleteServiceConnection', (connectionOrTreeItem: ServiceEndpoint | any) =>
+                this.deleteConnection(connectionOrTreeItem.connection || connectionOrTreeItem)
             ),
-            vscode.commands.registerCommand('azurePipelines.viewServiceConnectionDetails', (connection: ServiceEndpoint) =>
-                this.viewDetails(connection)
+            vscode.commands.registerCommand('azurePipelines.viewServiceConnectionDetails', (connectionOrTreeItem: ServiceEndpoint | any) =>
+                this.viewDetails(connectionOrTreeItem.connection || connectionOrTreeItem)
             ),
             vscode.commands.registerCommand('azurePipelines.clickServiceConnection', (connection: ServiceEndpoint) =>
                 this.viewDetails(connection)
@@ -38,11 +39,17 @@ export class ServiceConnectionCommands {
         this.provider.refresh();
     }
 
-    private async createConnection(): Promise<void> {
+    private async createConnection(target?: any): Promise<void> {
         if (!LicenseManager.getInstance().isPremium()) {
             LicenseManager.getInstance().showUpgradePrompt('Create Service Connection');
             return;
         }
+        const scope = this.scopes.getScopeOf(target) || await this.scopes.pickScope('Select the project for the service connection');
+        if (!scope) {
+            return;
+        }
+        const client = this.scopes.getClient(scope);
+
         const type = await vscode.window.showQuickPick([
             { label: 'Azure Resource Manager', value: 'AzureRM' },
             { label: 'Generic', value: 'Generic' },
@@ -76,7 +83,7 @@ export class ServiceConnectionCommands {
 
             switch (type.value) {
                 case 'Generic':
-                    connectionData = await this.createGenericConnection(name);
+                    connectionData = await this.createGenericConnection(client, name);
                     break;
                 case 'AzureRM':
                     vscode.window.showInformationMessage('Azure RM connections require complex setup. Please use Azure DevOps portal.');
@@ -87,7 +94,7 @@ export class ServiceConnectionCommands {
             }
 
             if (connectionData) {
-                await this.client.createServiceEndpoint(connectionData);
+                await client.createServiceEndpoint(connectionData);
                 vscode.window.showInformationMessage(`Service connection '${name}' created successfully`);
                 this.provider.refresh();
             }
@@ -96,7 +103,7 @@ export class ServiceConnectionCommands {
         }
     }
 
-    private async createGenericConnection(name: string): Promise<any> {
+    private async createGenericConnection(client: AzureDevOpsClient, name: string): Promise<any> {
         const url = await vscode.window.showInputBox({
             prompt: 'Enter server URL',
             placeHolder: 'https://your-server.com'
@@ -124,8 +131,8 @@ export class ServiceConnectionCommands {
             return null;
         }
 
-        const config = this.client.getConfig();
-        const projectId = await this.getProjectId();
+        const config = client.getConfig();
+        const projectId = await this.getProjectId(client);
 
         return {
             name,
@@ -179,7 +186,7 @@ export class ServiceConnectionCommands {
                 serviceEndpointProjectReferences: connection.serviceEndpointProjectReferences || []
             };
             
-            await this.client.updateServiceEndpoint(connection.id, updated);
+            await this.scopes.clientFor(connection).updateServiceEndpoint(connection.id, updated);
             vscode.window.showInformationMessage(`Connection renamed to '${newName}'`);
             this.provider.refresh();
         } catch (error) {
@@ -203,8 +210,9 @@ export class ServiceConnectionCommands {
         }
 
         try {
-            const projectId = await this.getProjectId();
-            await this.client.deleteServiceEndpoint(connection.id, projectId);
+            const client = this.scopes.clientFor(connection);
+            const projectId = await this.getProjectId(client);
+            await client.deleteServiceEndpoint(connection.id, projectId);
             vscode.window.showInformationMessage(`Connection '${connection.name}' deleted`);
             this.provider.refresh();
         } catch (error) {
@@ -213,12 +221,12 @@ export class ServiceConnectionCommands {
     }
 
     private async viewDetails(connection: ServiceEndpoint): Promise<void> {
-        ServiceConnectionPanel.show(connection, this.client, () => this.provider.refresh());
+        ServiceConnectionPanel.show(connection, this.scopes.clientFor(connection), () => this.provider.refresh());
     }
 
-    private async getProjectId(): Promise<string> {
-        const config = this.client.getConfig();
-        const projects = await this.client.getProjects(config.organizationUrl);
+    private async getProjectId(client: AzureDevOpsClient): Promise<string> {
+        const config = client.getConfig();
+        const projects = await client.getProjects(config.organizationUrl);
         const project = projects.find(p => p.name === config.projectName);
         return project?.id || '';
     }
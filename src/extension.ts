@@ -3,25 +3,52 @@ import { AzureDevOpsAuthProvider } from './authentication/authProvider';
 import { AzureDevOpsClient } from './api/azureDevOpsClient';
 import { ConfigManager } from './utils/configManager';
 import { ConnectionStatusProvider } from './views/connectionStatusProvider';
-import { PipelinesTreeProvider } from './views/pipelinesTreeView';
+import { PipelineFolderTreeItem, PipelinesTreeProvider } from './views/pipelinesTreeView';
 import { RunsTreeProvider } from './views/runsTreeView';
 import { StagesTreeProvider } from './views/stagesTreeView';
 import { ServiceConnectionsTreeProvider } from './views/serviceConnectionsTreeView';
 import { PipelineCommands } from './commands/pipelineCommands';
 import { ServiceConnectionCommands } from './commands/serviceConnectionCommands';
+import { ApprovalsTreeProvider } from './views/approvalsTreeView';
+import { ApprovalCommands } from './commands/approvalCommands';
+import { EnvironmentsTreeProvider } from './views/environmentsTreeView';
+import { EnvironmentCommands } from './commands/environmentCommands';
+import { AgentPoolsTreeProvider } from './views/agentPoolsTreeView';
+import { AgentPoolCommands } from './commands/agentPoolCommands';
+import { RunProblemsTreeProvider } from './views/runProblemsTreeView';
+import { RunProblemCommands } from './commands/runProblemCommands';
+import { LogSearchTreeProvider } from './views/logSearchTreeView';
+import { LogSearchCommands } from './commands/logSearchCommands';
 import { PipelineCodeLensProvider } from './providers/pipelineCodeLensProvider';
 import { WhatsNewPanel } from './webviews/whatsNewPanel';
 import { LicenseManager } from './services/licenseManager';
+import { RefreshScheduler } from './services/refreshScheduler';
+import { ScopeManager } from './services/scopeManager';
+import { FavoritesManager } from './services/favoritesManager';
+import { RunWatcher } from './services/runWatcher';
+import { NotificationRulesEngine } from './services/notificationRules';
+import { BranchStatusBar } from './views/branchStatusBar';
+import { RepositoryResolver } from './services/repositoryResolver';
+import { PipelineTimelineProvider } from './providers/pipelineTimelineProvider';
+import { PIPELINE_LOG_SCHEME, PipelineLogContentProvider, PipelineLogSymbolProvider } from './providers/pipelineLogProvider';
+import { PipelineDiagnostics } from './services/pipelineDiagnostics';
 
 let authProvider: AzureDevOpsAuthProvider;
 let client: AzureDevOpsClient;
 let configManager: ConfigManager;
+let scopeManager: ScopeManager;
 let connectionStatusProvider: ConnectionStatusProvider;
 let pipelinesProvider: PipelinesTreeProvider;
 let runsProvider: RunsTreeProvider;
 let stagesProvider: StagesTreeProvider;
 let serviceConnectionsProvider: ServiceConnectionsTreeProvider;
+let approvalsProvider: ApprovalsTreeProvider;
+let environmentsProvider: EnvironmentsTreeProvider;
+let agentPoolsProvider: AgentPoolsTreeProvider;
+let runProblemsProvider: RunProblemsTreeProvider;
+let logSearchProvider: LogSearchTreeProvider;
 let statusBarItem: vscode.StatusBarItem;
+let branchStatusBar: BranchStatusBar | undefined;
 
 export async function activate(context: vscode.ExtensionContext) {
 
@@ -42,12 +69,42 @@ export async function activate(context: vscode.ExtensionContext) {
     // Initialize config manager
     configManager = new ConfigManager(context, client);
 
+    // Track the organization/project pairs shown in the views (one client per pair)
+    scopeManager = new ScopeManager(context, authProvider, client, configManager);
+    context.subscriptions.push(scopeManager);
+
+    // Maps local git remotes to the project and repository that build them
+    const repositoryResolver = new RepositoryResolver(scopeManager);
+
+    // Pinned pipelines per organization/project
+    const favoritesManager = new FavoritesManager(context, scopeManager);
+    context.subscriptions.push(favoritesManager);
+
+    // Runs watched for a completion notification (persisted across reloads)
+    const runWatcher = new RunWatcher(
+        context,
+        scopeManager,
+        async () => configManager.isConfigured() && await authProvider.isAuthenticated()
+    );
+    context.subscriptions.push(runWatcher);
+
     // Initialize tree providers
     connectionStatusProvider = new ConnectionStatusProvider(authProvider, configManager);
-    pipelinesProvider = new PipelinesTreeProvider(client);
-    runsProvider = new RunsTreeProvider(client);
+    pipelinesProvider = new PipelinesTreeProvider(scopeManager, context.workspaceState, favoritesManager);
+    runsProvider = new RunsTreeProvider(scopeManager, runWatcher);
+
+    // Notification rules from settings, evaluated on every Runs view refresh
+    const notificationRules = new NotificationRulesEngine(context, scopeManager, runWatcher);
+    context.subscriptions.push(
+        runsProvider.onDidLoadRuns(({ scope, runs }) => notificationRules.evaluate(scope, runs))
+    );
     stagesProvider = new StagesTreeProvider(client);
-    serviceConnectionsProvider = new ServiceConnectionsTreeProvider(client);
+    serviceConnectionsProvider = new ServiceConnectionsTreeProvider(scopeManager);
+    approvalsProvider = new ApprovalsTreeProvider(scopeManager);
+    environmentsProvider = new EnvironmentsTreeProvider(scopeManager);
+    agentPoolsProvider = new AgentPoolsTreeProvider(scopeManager);
+    runProblemsProvider = new RunProblemsTreeProvider();
+    logSearchProvider = new LogSearchTreeProvider();
 
     // Register tree views
     const connectionStatusTreeView = vscode.window.createTreeView('azurePipelinesConnection', {
@@ -74,7 +131,65 @@ export async function activate(context: vscode.ExtensionContext) {
         showCollapseAll: true
     });
 
-    context.subscriptions.push(connectionStatusTreeView, pipelinesTreeView, runsTreeView, stagesTreeView, serviceConnectionsTreeView);
+    const approvalsTreeView = vscode.window.createTreeView('azurePipelinesApprovals', {
+        treeDataProvider: approvalsProvider,
+        showCollapseAll: true
+    });
+
+    const environmentsTreeView = vscode.window.createTreeView('azurePipelinesEnvironments', {
+        treeDataProvider: environmentsProvider,
+        showCollapseAll: true
+    });
+
+    const agentPoolsTreeView = vscode.window.createTreeView('azurePipelinesAgentPools', {
+        treeDataProvider: agentPoolsProvider,
+        showCollapseAll: true
+    });
+
+    const runProblemsTreeView = vscode.window.createTreeView('azurePipelinesRunProblems', {
+        treeDataProvider: runProblemsProvider,
+        showCollapseAll: true
+    });
+
+    const logSearchTreeView = vscode.window.createTreeView('azurePipelinesLogSearch', {
+        treeDataProvider: logSearchProvider,
+        showCollapseAll: true
+    });
+
+    context.subscriptions.push(
+        connectionStatusTreeView, pipelinesTreeView, runsTreeView, stagesTreeView,
+        serviceConnectionsTreeView, approvalsTreeView, environmentsTreeView, agentPoolsTreeView,
+        runProblemsTreeView, logSearchTreeView
+    );
+    pipelinesProvider.setTreeView(pipelinesTreeView);
+    approvalsProvider.setTreeView(approvalsTreeView);
+    runProblemsProvider.setTreeView(runProblemsTreeView);
+    logSearchProvider.setTreeView(logSearchTreeView);
+
+    // The Run Problems view follows the run shown in the Stages view
+    context.subscriptions.push(
+        stagesProvider.onDidLoadTimeline(loaded => {
+            if (loaded) {
+                runProblemsProvider.loadRun(loaded.run, loaded.client, loaded.records);
+            } else {
+                runProblemsProvider.clear();
+            }
+        })
+    );
+
+    // Remember which pipeline folders are expanded
+    context.subscriptions.push(
+        pipelinesTreeView.onDidExpandElement(e => {
+            if (e.element instanceof PipelineFolderTreeItem) {
+                pipelinesProvider.setFolderExpanded(e.element, true);
+            }
+        }),
+        pipelinesTreeView.onDidCollapseElement(e => {
+            if (e.element instanceof PipelineFolderTreeItem) {
+                pipelinesProvider.setFolderExpanded(e.element, false);
+            }
+        })
+    );
 
     // Register CodeLens provider for YAML pipelines
     const codeLensProvider = new PipelineCodeLensProvider();
@@ -86,12 +201,109 @@ export async function activate(context: vscode.ExtensionContext) {
     );
 
     // Initialize commands
-    const pipelineCommands = new PipelineCommands(client, pipelinesProvider, runsProvider, stagesProvider, codeLensProvider);
+    const pipelineCommands = new PipelineCommands(
+        client,
+        scopeManager,
+        pipelinesProvider,
+        runsProvider,
+        stagesProvider,
+        runWatcher,
+        codeLensProvider
+    );
     pipelineCommands.register(context);
 
-    const serviceConnectionCommands = new ServiceConnectionCommands(client, serviceConnectionsProvider);
+    const serviceConnectionCommands = new ServiceConnectionCommands(scopeManager, serviceConnectionsProvider);
     serviceConnectionCommands.register(context);
 
+    const approvalCommands = new ApprovalCommands(scopeManager, approvalsProvider, stagesProvider);
+    approvalCommands.register(context);
+
+    const environmentCommands = new EnvironmentCommands(scopeManager, environmentsProvider, runWatcher);
+    environmentCommands.register(context);
+
+    const agentPoolCommands = new AgentPoolCommands(scopeManager, agentPoolsProvider);
+    agentPoolCommands.register(context);
+
+    const runProblemCommands = new RunProblemCommands(runProblemsProvider);
+    runProblemCommands.register(context);
+
+    const logSearchCommands = new LogSearchCommands(scopeManager, logSearchProvider, stagesProvider);
+    logSearchCommands.register(context);
+
+    // Pinned pipelines and the favorites-only toggle
+    context.subscriptions.push(
+        vscode.commands.registerCommand('azurePipelines.pinPipeline', (target: any) =>
+            favoritesManager.pin(target)
+        ),
+        vscode.commands.registerCommand('azurePipelines.unpinPipeline', (target: any) =>
+            favoritesManager.unpin(target)
+        ),
+        vscode.commands.registerCommand('azurePipelines.showFavoritesOnly', () =>
+            favoritesManager.setFavoritesOnly(true)
+        ),
+        vscode.commands.registerCommand('azurePipelines.showAllPipelines', () =>
+            favoritesManager.setFavoritesOnly(false)
+        )
+    );
+
+    // Run logs as read-only documents (azure-pipelines-log://{org}/{project}/{runId}/{logId}) with steps in the outline
+    const logSymbolProvider = new PipelineLogSymbolProvider();
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(PIPELINE_LOG_SCHEME, new PipelineLogContentProvider(scopeManager)),
+        vscode.languages.registerDocumentSymbolProvider({ scheme: PIPELINE_LOG_SCHEME }, logSymbolProvider, { label: 'Pipeline Steps' }),
+        vscode.languages.registerFoldingRangeProvider({ scheme: PIPELINE_LOG_SCHEME }, logSymbolProvider)
+    );
+
+    // Errors of failed runs in the Problems panel, mapped to workspace files
+    const pipelineDiagnostics = new PipelineDiagnostics(scopeManager);
+    context.subscriptions.push(
+        pipelineDiagnostics,
+        vscode.commands.registerCommand('azurePipelines.showRunErrorsInProblems', (target: any) =>
+            pipelineDiagnostics.showRunErrors(target)
+        ),
+        vscode.commands.registerCommand('azurePipelines.clearPipelineProblems', () =>
+            pipelineDiagnostics.clear()
+        )
+    );
+
+    // Runs of each commit in the Explorer's Timeline view, or a quick pick where the view isn't available
+    const timelineProvider = new PipelineTimelineProvider(
+        scopeManager,
+        repositoryResolver,
+        async () => configManager.isConfigured() && await authProvider.isAuthenticated()
+    );
+    const timelineRegistration = timelineProvider.register();
+    context.subscriptions.push(
+        timelineProvider,
+        ...(timelineRegistration ? [timelineRegistration] : []),
+        runsProvider.onDidLoadRuns(() => timelineProvider.refresh()),
+        vscode.commands.registerCommand('azurePipelines.showFileRuns', (uri?: vscode.Uri) =>
+            timelineProvider.showFileRuns(uri)
+        )
+    );
+
+    // Additional organizations/projects shown alongside the active one
+    context.subscriptions.push(
+        vscode.commands.registerCommand('azurePipelines.addProject', async () => {
+            if (!(await authProvider.isAuthenticated())) {
+                vscode.window.showWarningMessage('Please sign in first');
+                return;
+            }
+            await scopeManager.addScope();
+        }),
+        vscode.commands.registerCommand('azurePipelines.removeProject', (target?: any) =>
+            scopeManager.removeScope(target)
+        ),
+        scopeManager.onDidChangeScopes(() => {
+            pipelinesProvider.refresh();
+            runsProvider.refresh();
+            serviceConnectionsProvider.refresh();
+            approvalsProvider.refresh();
+            environmentsProvider.refresh();
+            agentPoolsProvider.refresh();
+        })
+    );
+
     // Register authentication commands
     context.subscriptions.push(
         vscode.commands.registerCommand('azurePipelines.signIn', async () => {
@@ -107,6 +319,9 @@ export async function activate(context: vscode.ExtensionContext) {
             runsProvider.refresh();
             stagesProvider.clear();
             serviceConnectionsProvider.refresh();
+            approvalsProvider.refresh();
+            environmentsProvider.refresh();
+            agentPoolsProvider.refresh();
             updateStatusBar();
         }),
         vscode.commands.registerCommand('azurePipelines.selectOrganization', async () => {
@@ -134,6 +349,19 @@ export async function activate(context: vscode.ExtensionContext) {
     statusBarItem.command = 'azurePipelines.selectOrganization';
     context.subscriptions.push(statusBarItem);
 
+    // Status of the pipelines building the current git branch
+    branchStatusBar = new BranchStatusBar(
+        scopeManager,
+        repositoryResolver,
+        runWatcher,
+        async () => configManager.isConfigured() && await authProvider.isAuthenticated()
+    );
+    context.subscriptions.push(
+        branchStatusBar,
+        vscode.commands.registerCommand('azurePipelines.branchStatusActions', () => branchStatusBar?.showActions())
+    );
+    branchStatusBar.initialize();
+
     // Check if already authenticated and configured
     const isAuth = await authProvider.isAuthenticated();
     if (isAuth) {
@@ -142,6 +370,21 @@ export async function activate(context: vscode.ExtensionContext) {
         updateStatusBar();
     }
 
+    // Follow the workspace: git remotes of the open folders and per-workspace settings
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => reloadWorkspaceConfiguration()),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('azurePipelines.organizationUrl') ||
+                e.affectsConfiguration('azurePipelines.project') ||
+                e.affectsConfiguration('azurePipelines.detectFromGitRemote')) {
+                reloadWorkspaceConfiguration();
+            }
+            if (e.affectsConfiguration('azurePipelines.syncFavorites')) {
+                pipelinesProvider.refresh();
+            }
+        })
+    );
+
     // Show What's New panel if this is a new version
     // This will automatically check if user has seen the current announcement
     await WhatsNewPanel.show(context);
@@ -153,22 +396,25 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
-    // Set up auto-refresh for runs, pipelines, and stages (every 30 seconds)
-    const refreshInterval = setInterval(async () => {
-        const isAuthenticated = await authProvider.isAuthenticated();
-        if (isAuthenticated && configManager.isConfigured()) {
-            runsProvider.refresh();
-            pipelinesProvider.refresh();
-            // Only refresh stages if there's a current run loaded
-            if (stagesProvider.getCurrentRun()) {
-                stagesProvider.refresh();
-            }
-        }
-    }, 30000);
-
-    context.subscriptions.push({
-        dispose: () => clearInterval(refreshInterval)
+    // Set up auto-refresh for runs, pipelines, and stages (honors azurePipelines.autoRefreshInterval)
+    const refreshScheduler = new RefreshScheduler(
+        async () => configManager.isConfigured() && await authProvider.isAuthenticated(),
+        () => runsProvider.hasActiveRuns() || pipelinesProvider.hasActiveRuns()
+    );
+    refreshScheduler.register({ view: runsTreeView, refresh: () => runsProvider.refresh() });
+    refreshScheduler.register({ view: pipelinesTreeView, refresh: () => pipelinesProvider.refresh() });
+    refreshScheduler.register({ view: approvalsTreeView, refresh: () => approvalsProvider.refresh() });
+    refreshScheduler.register({ view: environmentsTreeView, refresh: () => environmentsProvider.refresh() });
+    refreshScheduler.register({ view: agentPoolsTreeView, refresh: () => agentPoolsProvider.refresh() });
+    // Only refresh stages if there's a current run loaded
+    refreshScheduler.register({
+        view: stagesTreeView,
+        refresh: () => stagesProvider.refresh(),
+        isEnabled: () => !!stagesProvider.getCurrentRun()
     });
+    refreshScheduler.start();
+
+    context.subscriptions.push(refreshScheduler);
 }
 
 /**
@@ -194,6 +440,36 @@ async function setupAfterAuth(): Promise<void> {
     pipelinesProvider.refresh();
     runsProvider.refresh();
     serviceConnectionsProvider.refresh();
+    approvalsProvider.refresh();
+    environmentsProvider.refresh();
+    agentPoolsProvider.refresh();
+    updateStatusBar();
+}
+
+/**
+ * Re-resolve the organization/project after the workspace folders or settings change
+ */
+async function reloadWorkspaceConfiguration(): Promise<void> {
+    const previous = client.getConfig();
+
+    if (!(await authProvider.isAuthenticated()) || !(await configManager.initializeClient())) {
+        updateStatusBar();
+        return;
+    }
+
+    const current = client.getConfig();
+    if (current.organizationUrl === previous.organizationUrl && current.projectName === previous.projectName) {
+        return;
+    }
+
+    connectionStatusProvider.refresh();
+    pipelinesProvider.refresh();
+    runsProvider.refresh();
+    stagesProvider.clear();
+    serviceConnectionsProvider.refresh();
+    approvalsProvider.refresh();
+    environmentsProvider.refresh();
+    agentPoolsProvider.refresh();
     updateStatusBar();
 }
 
@@ -213,7 +489,12 @@ async function updateStatusBar(): Promise<void> {
         statusBarItem.show();
     } else if (orgName && projectName) {
         statusBarItem.text = `$(azure-devops) ${orgName} / ${projectName}`;
-        statusBarItem.tooltip = 'Click to change organization/project';
+        const source = configManager.getSource();
+        statusBarItem.tooltip = source === 'gitRemote'
+            ? 'Detected from the workspace git remote. Click to change organization/project'
+            : source === 'settings'
+                ? 'Set in workspace settings (azurePipelines.organizationUrl / azurePipelines.project)'
+                : 'Click to change organization/project';
         statusBarItem.command = 'azurePipelines.selectOrganization';
         statusBarItem.backgroundColor = undefined;
         statusBarItem.show();
@@ -224,6 +505,8 @@ async function updateStatusBar(): Promise<void> {
         statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
         statusBarItem.show();
     }
+
+    branchStatusBar?.refresh();
 }
 
 export function deactivate() {}
@@ -24,6 +24,27 @@ export interface Pipeline {
     };
 }
 
+/**
+ * Pipeline folder (Build Folders API)
+ * path is backslash-separated and starts at the root, e.g. \Team\Service
+ */
+export interface PipelineFolder {
+    path: string;
+    description?: string;
+    createdOn?: string;
+}
+
+/**
+ * Server-side favorite (Favorites API), shared with the web portal
+ * artifactId is the pipeline id as a string
+ */
+export interface PipelineFavorite {
+    id: string;
+    artifactId: string;
+    artifactName?: string;
+    artifactType: string;
+}
+
 export interface PipelineRun {
     id: number;
     name: string;
@@ -39,11 +60,13 @@ export interface PipelineRun {
     sourceVersion?: string;
     commitMessage?: string; // Fetched separately from Git API
     requestedBy?: {
+        id?: string;
         displayName: string;
         uniqueName: string;
         imageUrl: string;
     };
     requestedFor?: {
+        id?: string;
         displayName: string;
         uniqueName: string;
         imageUrl: string;
@@ -55,6 +78,7 @@ export interface PipelineRun {
     definition?: {
         id: number;
         name: string;
+        path?: string; // Folder of the pipeline, e.g. \Prod
     };
     repository?: {
         id: string;
@@ -63,6 +87,15 @@ export interface PipelineRun {
         clean?: string | null;
         checkoutSubmodules?: boolean;
     };
+    queue?: {
+        id: number;
+        name: string;
+        pool?: {
+            id: number;
+            name: string;
+            isHosted?: boolean;
+        };
+    };
     url: string;
 }
 
@@ -96,24 +129,93 @@ export interface Environment {
 export interface EnvironmentResource {
     id: number;
     name: string;
-    type: string;
+    type: string;           // kubernetes, virtualMachine, generic
+    tags?: string[];
+}
+
+/**
+ * A job of a run that deployed to an environment
+ */
+export interface EnvironmentDeploymentRecord {
+    id: number;
+    environmentId: number;
+    stageName?: string;      // Stage reference name, e.g. "Deploy"
+    jobName?: string;
+    stageAttempt?: number;
+    resourceId?: number;
+    result?: string;
+    queueTime?: Date;
+    startTime?: Date;
+    finishTime?: Date;
+    definition?: {
+        id: number;
+        name: string;
+    };
+    owner?: {
+        id: number;          // Run (build) id
+        name: string;        // Run number
+    };
 }
 
+/**
+ * Approval of a protected resource (environment, ...) that a run is waiting for
+ * From the pipelines approvals API with $expand=steps
+ */
 export interface PipelineApproval {
     id: string;
     status: ApprovalStatus;
-    approver: {
+    createdOn: Date;
+    lastModifiedOn?: Date;
+    instructions?: string;
+    minRequiredApprovers?: number;
+    steps?: ApprovalStep[];
+    pipeline?: {
+        id: string;
+        name: string;
+        owner: {
+            id: number;      // Run (build) id
+            name: string;    // Run number
+        };
+    };
+}
+
+export interface ApprovalStep {
+    assignedApprover: {
+        id: string;
         displayName: string;
-        uniqueName: string;
+        uniqueName?: string;
     };
-    createdOn: Date;
+    actualApprover?: {
+        id: string;
+        displayName: string;
+    };
+    status: ApprovalStatus;
     comment?: string;
+    initiatedOn?: Date;
+    lastModifiedOn?: Date;
 }
 
 export enum ApprovalStatus {
     Pending = 'pending',
     Approved = 'approved',
-    Rejected = 'rejected'
+    Rejected = 'rejected',
+    Canceled = 'canceled',
+    TimedOut = 'timedOut',
+    Skipped = 'skipped'
+}
+
+/**
+ * A check (approval, business hours, Azure Function, ...) a stage of a run is waiting for,
+ * from the Checkpoint records of the run's timeline
+ */
+export interface PipelineCheck {
+    id: string;             // Timeline record id; the approval id for approvals
+    name: string;
+    type: string;           // e.g. Checkpoint.Approval, Checkpoint.TaskCheck
+    state: string;
+    result?: string;
+    stageId?: string;
+    stageName?: string;
 }
 
 export interface BuildLog {
@@ -140,6 +242,15 @@ export interface Organization {
     accountName: string;
 }
 
+/**
+ * An organization/project pair; each one gets its own API client
+ */
+export interface ProjectScope {
+    organizationUrl: string;
+    organizationName: string;
+    projectName: string;
+}
+
 export interface Project {
     id: string;
     name: string;
@@ -211,10 +322,59 @@ export interface Agent {
     version: string;
     status: AgentStatus;
     enabled: boolean;
-    assignedRequest?: {
-        requestId: number;
-        jobId: string;
+    osDescription?: string;
+    assignedRequest?: AgentJobRequest;
+    systemCapabilities?: Record<string, string>;
+    userCapabilities?: Record<string, string>;
+}
+
+/**
+ * A job waiting for, or running on, an agent of a pool
+ */
+export interface AgentJobRequest {
+    requestId: number;
+    jobId: string;
+    planType?: string;       // Build, Release
+    queueTime?: Date;
+    assignTime?: Date;
+    receiveTime?: Date;
+    finishTime?: Date;
+    result?: string;
+    poolId?: number;
+    scopeId?: string;        // Id of the project the job belongs to
+    demands?: string[];     // e.g. "npm", "java -equals 11", "Agent.Version -gtVersion 2.163.1"
+    data?: Record<string, string>;   // ParallelismTag: Private or Public
+    matchedAgents?: Array<{
+        id: number;
+        name: string;
+    }>;
+    reservedAgent?: {
+        id: number;
+        name: string;
     };
+    definition?: {
+        id: number;
+        name: string;
+    };
+    owner?: {
+        id: number;          // Run (build) id for pipeline jobs
+        name: string;
+        _links?: { web?: { href: string } };
+    };
+}
+
+/**
+ * Parallel job limit of an organization and the jobs currently using it
+ */
+export interface ResourceUsage {
+    resourceLimit: {
+        parallelismTag: string;
+        isHosted: boolean;
+        totalCount: number;
+        failedToReachAllProviders?: boolean;
+    };
+    usedCount: number;
+    runningRequests?: AgentJobRequest[];
 }
 
 export enum AgentStatus {
@@ -233,6 +393,9 @@ export interface TimelineRecord {
     parentId?: string;
     type: string;
     name: string;
+    identifier?: string;      // Stage/job reference name, e.g. "Build"
+    attempt?: number;         // 1 for the first run, higher after retries
+    previousAttempts?: Array<{ attempt: number; timelineId: string; recordId: string }>;
     order?: number;
     startTime?: Date;
     finishTime?: Date;
@@ -251,6 +414,16 @@ export interface Issue {
     type: 'error' | 'warning';
     category: string;
     message: string;
+    data?: Record<string, string>;   // logFileLineNumber; sourcepath, linenumber, columnnumber, code from task.logissue
+}
+
+/**
+ * One page of a list API response
+ * continuationToken is undefined when there are no more pages
+ */
+export interface PagedResult<T> {
+    items: T[];
+    continuationToken?: string;
 }
 
 export interface PipelineRunOptions {
@@ -258,6 +431,7 @@ export interface PipelineRunOptions {
     templateParameters?: Record<string, string>;
     variables?: Record<string, string>;
     stagesToSkip?: string[];
+    commit?: string;        // Run at this commit of the branch instead of its head
 }
 
 /**
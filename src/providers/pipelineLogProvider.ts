@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import { ProjectScope } from '../models/types';
+import { ScopeManager } from '../services/scopeManager';
+import { parseLogLine, stripTimestamp } from '../utils/logParser';
+
+export const PIPELINE_LOG_SCHEME = 'azure-pipelines-log';
+
+/**
+ * A log addressed by an azure-pipelines-log://{org}/{project}/{runId}/{logId} URI
+ */
+export interface PipelineLogLocation {
+    organization: string;
+    project: string;
+    runId: number;
+    logId: number;
+}
+
+/**
+ * Organization segment of a URI: the name in dev.azure.com URLs, the host for *.visualstudio.com
+ */
+function organizationOf(organizationUrl: string): string {
+    return organizationUrl.split('/').filter(Boolean).pop() || organizationUrl;
+}
+
+/**
+ * URI of a run log, for opening it in the editor
+ */
+export function buildLogUri(scope: Pick<ProjectScope, 'organizationUrl' | 'projectName'>, runId: number, logId: number): vscode.Uri {
+    return vscode.Uri.from({
+        scheme: PIPELINE_LOG_SCHEME,
+        authority: organizationOf(scope.organizationUrl),
+        path: `/${scope.projectName}/${runId}/${logId}`
+    });
+}
+
+export function parseLogUri(uri: vscode.Uri): PipelineLogLocation | undefined {
+    const [project, runId, logId] = uri.path.split('/').filter(Boolean);
+    if (uri.scheme !== PIPELINE_LOG_SCHEME || !project || !Number(runId) || !Number(logId)) {
+        return undefined;
+    }
+    return { organization: uri.authority, project, runId: Number(runId), logId: Number(logId) };
+}
+
+/**
+ * Open a run log as a read-only document in the native editor, optionally at a (1-based) line
+ */
+export async function openLogDocument(
+    scope: Pick<ProjectScope, 'organizationUrl' | 'projectName'>,
+    runId: number,
+    logId: number,
+    line?: number
+): Promise<vscode.TextEditor> {
+    let document = await vscode.workspace.openTextDocument(buildLogUri(scope, runId, logId));
+    if (document.languageId !== 'log') {
+        document = await vscode.languages.setTextDocumentLanguage(document, 'log');
+    }
+
+    const selection = line && line > 0
+        ? new vscode.Range(Math.min(line, document.lineCount) - 1, 0, Math.min(line, document.lineCount) - 1, 0)
+        : undefined;
+    return vscode.window.showTextDocument(document, { preview: false, viewColumn: vscode.ViewColumn.Beside, selection });
+}
+
+/**
+ * Read-only documents for run logs, so they open in the editor with search, folding,
+ * the minimap and diffing. Timestamps are removed so two logs can be compared line by line.
+ */
+export class PipelineLogContentProvider implements vscode.TextDocumentContentProvider {
+    constructor(private scopes: ScopeManager) {}
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const location = parseLogUri(uri);
+        if (!location) {
+            throw new Error(`Invalid log URI: ${uri.toString()}`);
+        }
+
+        const scope = this.scopes.getScopes().find(candidate =>
+            organizationOf(candidate.organizationUrl).toLowerCase() === location.organization.toLowerCase() &&
+            candidate.projectName.toLowerCase() === location.project.toLowerCase()
+        );
+        if (!scope) {
+            throw new Error(`Add the project ${location.organization}/${location.project} to open its logs`);
+        }
+
+        const content = await this.scopes.getClient(scope).getLogContent(location.runId, location.logId);
+        return String(content)
+            .split('\n')
+            .map(line => stripTimestamp(line.replace(/\r$/, '')))
+            .join('\n');
+    }
+}
+
+interface LogBlock {
+    name: string;
+    kind: 'step' | 'group';
+    start: number;
+    end: number;
+    children: LogBlock[];
+}
+
+/**
+ * Steps (##[section]Starting: ...) and their ##[group] blocks of a log document
+ */
+function findBlocks(document: vscode.TextDocument): LogBlock[] {
+    const steps: LogBlock[] = [];
+    const loose: LogBlock[] = [];
+    let step: LogBlock | undefined;
+    let group: LogBlock | undefined;
+
+    const close = (block: LogBlock | undefined, line: number) => {
+        if (block) {
+            block.end = Math.max(block.start, line);
+        }
+    };
+
+    for (let i = 0; i < document.lineCount; i++) {
+        const line = parseLogLine(document.lineAt(i).text);
+        if (line.kind === 'section' && /^Starting: /.test(line.text)) {
+            close(group, i - 1);
+            close(step, i - 1);
+            group = undefined;
+            step = { name: line.text.substring('Starting: '.length), kind: 'step', start: i, end: i, children: [] };
+            steps.push(step);
+        } else if (line.kind === 'section' && /^Finishing: /.test(line.text)) {
+            close(group, i - 1);
+            close(step, i);
+            group = undefined;
+            step = undefined;
+        } else if (line.kind === 'groupStart') {
+            close(group, i - 1);
+            group = { name: line.text || 'Group', kind: 'group', start: i, end: i, children: [] };
+            (step ? step.children : loose).push(group);
+        } else if (line.kind === 'groupEnd') {
+            close(group, i);
+            group = undefined;
+        }
+    }
+
+    const last = document.lineCount - 1;
+    close(group, last);
+    close(step, last);
+    return [...steps, ...loose].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Outline entries and folding ranges for the steps and groups of log documents
+ */
+export class PipelineLogSymbolProvider implements vscode.DocumentSymbolProvider, vscode.FoldingRangeProvider {
+    provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+        const toSymbol = (block: LogBlock): vscode.DocumentSymbol => {
+            const range = new vscode.Range(block.start, 0, block.end, document.lineAt(block.end).text.length);
+            const symbol = new vscode.DocumentSymbol(
+                block.name,
+                '',
+                block.kind === 'step' ? vscode.SymbolKind.Function : vscode.SymbolKind.Namespace,
+                range,
+                document.lineAt(block.start).range
+            );
+            symbol.children = block.children.map(toSymbol);
+            return symbol;
+        };
+        return findBlocks(document).map(toSymbol);
+    }
+
+    provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+        const ranges: vscode.FoldingRange[] = [];
+        const add = (block: LogBlock) => {
+            if (block.end > block.start) {
+                ranges.push(new vscode.FoldingRange(block.start, block.end, vscode.FoldingRangeKind.Region));
+            }
+            block.children.forEach(add);
+        };
+        findBlocks(document).forEach(add);
+        return ranges;
+    }
+}
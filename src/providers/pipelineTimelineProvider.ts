@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PipelineRun } from '../models/types';
+import { ScopeManager } from '../services/scopeManager';
+import { RepositoryResolver } from '../services/repositoryResolver';
+import { getFileHistory, getRemoteUrls, GitCommit } from '../utils/gitRemote';
+
+/**
+ * Subset of the Timeline API (vscode.proposed.timeline); VS Code only exposes
+ * workspace.registerTimelineProvider to extensions allowed to use the proposal
+ */
+export interface PipelineTimelineItem {
+    id: string;
+    timestamp: number;
+    label: string;
+    description?: string;
+    detail?: string;
+    iconPath?: vscode.ThemeIcon;
+    command?: vscode.Command;
+}
+
+interface TimelineChangeEvent {
+    uri?: vscode.Uri;
+    reset?: boolean;
+}
+
+// Commits of the file that are matched against runs
+const MAX_COMMITS = 50;
+// Recent runs of the repository searched for those commits
+const MAX_RUNS = 200;
+
+/**
+ * Pipeline Timeline Provider
+ * Adds the runs triggered by each commit of a file to the Explorer's Timeline view, by matching
+ * the runs' sourceVersion with the file's local git history. Selecting an entry opens the run.
+ */
+export class PipelineTimelineProvider implements vscode.Disposable {
+    readonly id = 'azurePipelines';
+    readonly label = 'Azure Pipelines';
+
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<TimelineChangeEvent | undefined>();
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(
+        private scopes: ScopeManager,
+        private resolver: RepositoryResolver,
+        private canProvide: () => Promise<boolean>
+    ) {}
+
+    /**
+     * Register with the Timeline view when this VS Code build allows it
+     * Returns undefined when the proposed API isn't available to the extension
+     */
+    register(): vscode.Disposable | undefined {
+        const workspace = vscode.workspace as any;
+        if (typeof workspace.registerTimelineProvider !== 'function') {
+            return undefined;
+        }
+
+        try {
+            return workspace.registerTimelineProvider(['file'], this);
+        } catch (error) {
+            // Thrown when the extension isn't allowed to use the timeline proposal
+            console.log('Timeline view integration is not available:', error instanceof Error ? error.message : error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Ask the Timeline view to reload, e.g. after runs were refreshed
+     */
+    refresh(): void {
+        this.onDidChangeEmitter.fire({ reset: true });
+    }
+
+    /**
+     * Called by the Timeline view for the selected file
+     */
+    async provideTimeline(uri: vscode.Uri, _options: unknown, token: vscode.CancellationToken): Promise<{ items: PipelineTimelineItem[] }> {
+        try {
+            return { items: await this.getItems(uri, token) };
+        } catch (error) {
+            console.error('Failed to load pipeline runs for the timeline:', error);
+            return { items: [] };
+        }
+    }
+
+    /**
+     * Runs of the commits that touched a file, newest commit first
+     */
+    async getItems(uri: vscode.Uri, token?: vscode.CancellationToken): Promise<PipelineTimelineItem[]> {
+        if (uri.scheme !== 'file' || !(await this.canProvide())) {
+            return [];
+        }
+
+        const commits = await getFileHistory(uri.fsPath, MAX_COMMITS);
+        if (commits.length === 0 || token?.isCancellationRequested) {
+            return [];
+        }
+
+        const target = this.resolver.fromRemotes(await getRemoteUrls(path.dirname(uri.fsPath)));
+        if (!target) {
+            return [];
+        }
+
+        const repository = await this.resolver.getRepository(target);
+        if (!repository || token?.isCancellationRequested) {
+            return [];
+        }
+
+        const runs = this.scopes.tag(
+            await this.scopes.getClient(target.scope).getBranchRuns('', repository, MAX_RUNS),
+            target.scope
+        );
+
+        const runsByCommit = new Map<string, PipelineRun[]>();
+        for (const run of runs) {
+            const sha = run.sourceVersion?.toLowerCase();
+            if (sha) {
+                runsByCommit.set(sha, [...(runsByCommit.get(sha) || []), run]);
+            }
+        }
+
+        const items: PipelineTimelineItem[] = [];
+        for (const commit of commits) {
+            for (const run of runsByCommit.get(commit.hash.toLowerCase()) || []) {
+                items.push(this.createItem(commit, run, ScopeManager.keyOf(target.scope)));
+            }
+        }
+        return items;
+    }
+
+    /**
+     * The same entries in a quick pick, for VS Code builds without the Timeline integration
+     */
+    async showFileRuns(uri?: vscode.Uri): Promise<void> {
+        const fileUri = uri || vscode.window.activeTextEditor?.document.uri;
+        if (!fileUri || fileUri.scheme !== 'file') {
+            vscode.window.showInformationMessage('Open a file to see the pipeline runs of its commits');
+            return;
+        }
+
+        let items: PipelineTimelineItem[];
+        try {
+            items = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Window, title: 'Loading pipeline runs for file history...' },
+                () => this.getItems(fileUri)
+            );
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to load pipeline runs: ${errorMessage}`);
+            return;
+        }
+
+        const fileName = path.basename(fileUri.fsPath);
+        if (items.length === 0) {
+            vscode.window.showInformationMessage(`No recent pipeline runs were found for the commits of ${fileName}`);
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            items.map(item => ({
+                label: `$(${item.iconPath?.id || 'circle-outline'}) ${item.label}`,
+                description: item.description,
+                detail: item.detail?.split('\n')[1],
+                item
+            })),
+            { placeHolder: `Pipeline runs for the commits of ${fileName}`, matchOnDescription: true, matchOnDetail: true }
+        );
+        if (selected?.item.command) {
+            vscode.commands.executeCommand(selected.item.command.command, ...(selected.item.command.arguments || []));
+        }
+    }
+
+    private createItem(commit: GitCommit, run: PipelineRun, scopeKey: string): PipelineTimelineItem {
+        const pipelineName = run.pipeline?.name || run.definition?.name || 'Pipeline';
+        const outcome = this.describe(run);
+        const branch = run.sourceBranch ? run.sourceBranch.replace(/^refs\/heads\//, '') : undefined;
+
+        return {
+            id: `${scopeKey}#${run.id}`,
+            // Use the commit time so entries line up with the Git History entries of the same commit
+            timestamp: commit.authorDate.getTime(),
+            label: `${pipelineName} #${run.buildNumber}`,
+            description: `${outcome} · ${commit.hash.substring(0, 8)}`,
+            detail: [
+                `${pipelineName} #${run.buildNumber} ${outcome}${branch ? ` on ${branch}` : ''}`,
+                `${commit.hash.substring(0, 8)} ${commit.subject}`,
+                `${commit.authorName}, ${commit.authorDate.toLocaleString()}`
+            ].join('\n'),
+            iconPath: this.getIcon(run),
+            command: {
+                title: 'View Run Details',
+                command: 'azurePipelines.viewRunDetails',
+                arguments: [run]
+            }
+        };
+    }
+
+    private describe(run: PipelineRun): string {
+        const statusStr = String(run.status || '').toLowerCase();
+        if (statusStr === 'notstarted') {
+            return 'queued';
+        }
+        if (statusStr === 'inprogress') {
+            return 'running';
+        }
+        const resultStr = String(run.result || '').toLowerCase();
+        return resultStr === 'partiallysucceeded' ? 'partially succeeded' : resultStr || 'completed';
+    }
+
+    private getIcon(run: PipelineRun): vscode.ThemeIcon {
+        const statusStr = String(run.status || '').toLowerCase();
+        if (statusStr === 'inprogress' || statusStr === 'notstarted') {
+            return new vscode.ThemeIcon('loading~spin', new vscode.ThemeColor('charts.blue'));
+        }
+        switch (String(run.result || '').toLowerCase()) {
+            case 'succeeded':
+                return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+            case 'failed':
+                return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+            case 'partiallysucceeded':
+                return new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.yellow'));
+            case 'canceled':
+                return new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('charts.gray'));
+            default:
+                return new vscode.ThemeIcon('circle-outline');
+        }
+    }
+
+    dispose(): void {
+        this.onDidChangeEmitter.dispose();
+    }
+}
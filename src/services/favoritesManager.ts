@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import { Pipeline, ProjectScope } from '../models/types';
+import { ScopeManager } from './scopeManager';
+
+/**
+ * Favorites Manager
+ * Keeps the pinned pipelines of each organization/project in globalState and, when
+ * azurePipelines.syncFavorites is on, mirrors them with the user's Azure DevOps favorites
+ * so the web portal and VS Code show the same list. Pins the server doesn't have yet are
+ * pushed on sync; a pin is only dropped once it was confirmed on the server and is gone there.
+ */
+export class FavoritesManager implements vscode.Disposable {
+    private static readonly FAVORITES_KEY = 'azurePipelines.favoritePipelines';
+    private static readonly FAVORITES_ONLY_KEY = 'azurePipelines.favoritesOnly';
+    // Pinned pipeline ids last confirmed on the server, per scope
+    private static readonly SYNCED_KEY = 'azurePipelines.syncedFavoritePipelines';
+
+    // Server favorite id per pipeline id, per scope (needed to remove a favorite)
+    private serverFavorites: Map<string, Map<number, string>> = new Map();
+    // Scopes whose server doesn't support the Favorites API (e.g. older Azure DevOps Server)
+    private syncUnavailable: Set<string> = new Set();
+    private readonly onDidChangeFavoritesEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeFavorites = this.onDidChangeFavoritesEmitter.event;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private scopes: ScopeManager
+    ) {
+        vscode.commands.executeCommand('setContext', 'azurePipelines.favoritesOnly', this.isFavoritesOnly());
+    }
+
+    /**
+     * Ids of the pinned pipelines in a project
+     */
+    getFavoriteIds(scope: ProjectScope): number[] {
+        return this.getAll()[ScopeManager.keyOf(scope)] || [];
+    }
+
+    isFavorite(scope: ProjectScope, pipelineId: number): boolean {
+        return this.getFavoriteIds(scope).includes(pipelineId);
+    }
+
+    /**
+     * Whether the Pipelines view only shows favorites
+     */
+    isFavoritesOnly(): boolean {
+        return this.context.globalState.get<boolean>(FavoritesManager.FAVORITES_ONLY_KEY, false);
+    }
+
+    async setFavoritesOnly(favoritesOnly: boolean): Promise<void> {
+        await this.context.globalState.update(FavoritesManager.FAVORITES_ONLY_KEY, favoritesOnly);
+        await vscode.commands.executeCommand('setContext', 'azurePipelines.favoritesOnly', favoritesOnly);
+        this.onDidChangeFavoritesEmitter.fire();
+    }
+
+    /**
+     * Pin a pipeline (tree item or pipeline object)
+     */
+    async pin(target: any): Promise<void> {
+        const pipeline: Pipeline = target?.pipeline || target;
+        const scope = this.scopes.getScopeOf(target) || this.scopes.getPrimaryScope();
+        if (!pipeline?.id || !scope) {
+            vscode.window.showErrorMessage('Pipeline ID is missing. Please refresh the pipelines view and try again.');
+            return;
+        }
+
+        if (!this.isFavorite(scope, pipeline.id)) {
+            await this.setFavoriteIds(scope, [...this.getFavoriteIds(scope), pipeline.id]);
+            this.onDidChangeFavoritesEmitter.fire();
+        }
+
+        if (this.isSyncEnabled(scope) && !this.serverFavorites.get(ScopeManager.keyOf(scope))?.has(pipeline.id)) {
+            try {
+                const favorite = await this.scopes.getClient(scope).addPipelineFavorite(pipeline);
+                this.getServerFavorites(scope).set(pipeline.id, favorite.id);
+                await this.setSyncedIds(scope, [...this.getSyncedIds(scope), pipeline.id]);
+            } catch (error) {
+                this.handleSyncError(scope, error);
+            }
+        }
+    }
+
+    /**
+     * Unpin a pipeline (tree item or pipeline object)
+     */
+    async unpin(target: any): Promise<void> {
+        const pipeline: Pipeline = target?.pipeline || target;
+        const scope = this.scopes.getScopeOf(target) || this.scopes.getPrimaryScope();
+        if (!pipeline?.id || !scope) {
+            return;
+        }
+
+        await this.setFavoriteIds(scope, this.getFavoriteIds(scope).filter(id => id !== pipeline.id));
+        await this.setSyncedIds(scope, this.getSyncedIds(scope).filter(id => id !== pipeline.id));
+        this.onDidChangeFavoritesEmitter.fire();
+
+        const favoriteId = this.serverFavorites.get(ScopeManager.keyOf(scope))?.get(pipeline.id);
+        if (this.isSyncEnabled(scope) && favoriteId) {
+            try {
+                await this.scopes.getClient(scope).deletePipelineFavorite(favoriteId);
+                this.getServerFavorites(scope).delete(pipeline.id);
+            } catch (error) {
+                this.handleSyncError(scope, error);
+            }
+        }
+    }
+
+    /**
+     * Merge the user's Azure DevOps favorites into the local favorites of a project
+     * Local pins the server doesn't have yet are pushed (pipelines supplies their names);
+     * failures keep the local list, the view still works without the server
+     */
+    async syncFromServer(scope: ProjectScope, pipelines: Pipeline[] = []): Promise<void> {
+        if (!this.isSyncEnabled(scope)) {
+            return;
+        }
+
+        try {
+            const client = this.scopes.getClient(scope);
+            const favorites = await client.getPipelineFavorites();
+            const byPipeline = new Map<number, string>();
+            for (const favorite of favorites) {
+                const pipelineId = Number(favorite.artifactId);
+                if (Number.isInteger(pipelineId)) {
+                    byPipeline.set(pipelineId, favorite.id);
+                }
+            }
+            this.serverFavorites.set(ScopeManager.keyOf(scope), byPipeline);
+
+            const localIds = this.getFavoriteIds(scope);
+            const syncedIds = this.getSyncedIds(scope);
+
+            // Pinned locally but never confirmed on the server (sync was off or the add failed)
+            for (const id of localIds.filter(id => !byPipeline.has(id) && !syncedIds.includes(id))) {
+                try {
+                    const pipeline = pipelines.find(p => p.id === id) || await client.getPipeline(id);
+                    const favorite = await client.addPipelineFavorite(pipeline);
+                    byPipeline.set(id, favorite.id);
+                } catch (error) {
+                    this.handleSyncError(scope, error);
+                    if (!this.isSyncEnabled(scope)) {
+                        return;
+                    }
+                }
+            }
+
+            // Keep the local order, drop pins removed on the server since the last sync, append new ones
+            const merged = [
+                ...localIds.filter(id => byPipeline.has(id) || !syncedIds.includes(id)),
+                ...Array.from(byPipeline.keys()).filter(id => !localIds.includes(id))
+            ];
+            if (merged.length !== localIds.length || merged.some((id, index) => id !== localIds[index])) {
+                await this.setFavoriteIds(scope, merged);
+            }
+            await this.setSyncedIds(scope, merged.filter(id => byPipeline.has(id)));
+        } catch (error) {
+            this.handleSyncError(scope, error);
+        }
+    }
+
+    private isSyncEnabled(scope: ProjectScope): boolean {
+        return vscode.workspace.getConfiguration('azurePipelines').get<boolean>('syncFavorites', true) &&
+            !this.syncUnavailable.has(ScopeManager.keyOf(scope));
+    }
+
+    private handleSyncError(scope: ProjectScope, error: any): void {
+        const status = error?.response?.status;
+        if (status === 400 || status === 401 || status === 403 || status === 404) {
+            // The Favorites API isn't available here (or the token lacks its scope); stay local-only for this session
+            this.syncUnavailable.add(ScopeManager.keyOf(scope));
+        }
+        console.error('Failed to sync pipeline favorites:', error);
+    }
+
+    private getServerFavorites(scope: ProjectScope): Map<number, string> {
+        const key = ScopeManager.keyOf(scope);
+        let favorites = this.serverFavorites.get(key);
+        if (!favorites) {
+            favorites = new Map();
+            this.serverFavorites.set(key, favorites);
+        }
+        return favorites;
+    }
+
+    private getAll(): Record<string, number[]> {
+        return this.context.globalState.get<Record<string, number[]>>(FavoritesManager.FAVORITES_KEY, {});
+    }
+
+    private async setFavoriteIds(scope: ProjectScope, ids: number[]): Promise<void> {
+        await this.context.globalState.update(FavoritesManager.FAVORITES_KEY, {
+            ...this.getAll(),
+            [ScopeManager.keyOf(scope)]: ids
+        });
+    }
+
+    private getSyncedIds(scope: ProjectScope): number[] {
+        const all = this.context.globalState.get<Record<string, number[]>>(FavoritesManager.SYNCED_KEY, {});
+        return all[ScopeManager.keyOf(scope)] || [];
+    }
+
+    private async setSyncedIds(scope: ProjectScope, ids: number[]): Promise<void> {
+        await this.context.globalState.update(FavoritesManager.SYNCED_KEY, {
+            ...this.context.globalState.get<Record<string, number[]>>(FavoritesManager.SYNCED_KEY, {}),
+            [ScopeManager.keyOf(scope)]: ids
+        });
+    }
+
+    dispose(): void {
+        this.onDidChangeFavoritesEmitter.dispose();
+    }
+}
@@ -0,0 +1,111 @@
+import { AzureDevOpsClient } from '../api/azureDevOpsClient';
+import { PipelineRun, RunStatus } from '../models/types';
+
+/**
+ * Latest Run Cache
+ * Tracks the most recent run of every pipeline so the Pipelines view doesn't
+ * issue one request per pipeline on each refresh.
+ * The first load uses batched maxBuildsPerDefinition=1 queries; later loads only
+ * fetch runs queued or finished since the previous sync, plus the cached runs that
+ * haven't completed (a run that only started matches neither query).
+ */
+export class LatestRunCache {
+    private latestRuns: Map<number, PipelineRun> = new Map();
+    private knownPipelines: Set<number> = new Set();
+    private lastSync?: Date;
+    private lastFullSync: number = 0;
+    private scopeKey: string = '';
+
+    // Overlap between incremental syncs to tolerate clock skew with the server
+    private readonly SYNC_OVERLAP_MS = 60 * 1000;
+    // Periodic full resync picks up deleted or retained-away runs
+    private readonly FULL_SYNC_INTERVAL_MS = 10 * 60 * 1000;
+
+    constructor(private client: AzureDevOpsClient) {}
+
+    /**
+     * Get the latest run for each of the given pipelines
+     */
+    async getLatestRuns(pipelineIds: number[]): Promise<Map<number, PipelineRun>> {
+        const config = this.client.getConfig();
+        const scopeKey = `${config.organizationUrl}/${config.projectName}`;
+        if (scopeKey !== this.scopeKey) {
+            this.clear();
+            this.scopeKey = scopeKey;
+        }
+
+        const syncStarted = new Date();
+
+        if (!this.lastSync || syncStarted.getTime() - this.lastFullSync > this.FULL_SYNC_INTERVAL_MS) {
+            this.latestRuns = await this.client.getLatestRuns(pipelineIds);
+            this.knownPipelines = new Set(pipelineIds);
+            this.lastFullSync = syncStarted.getTime();
+        } else {
+            const since = new Date(this.lastSync.getTime() - this.SYNC_OVERLAP_MS);
+            const changed = await this.client.getRunsChangedSince(since);
+            for (const run of changed) {
+                this.applyRun(run);
+            }
+
+            // Refresh cached runs still queued or running that the change queries didn't return
+            const changedIds = new Set(changed.map(run => run.id));
+            const active = Array.from(this.latestRuns.values())
+                .filter(run => run.status !== RunStatus.Completed && !changedIds.has(run.id))
+                .map(run => run.id);
+            for (const run of await this.client.getRunsByIds(active)) {
+                this.applyRun(run);
+            }
+
+            // Pipelines that appeared since the last sync (or via "Load more") need a batched lookup
+            const unknown = pipelineIds.filter(id => !this.knownPipelines.has(id));
+            if (unknown.length > 0) {
+                const runs = await this.client.getLatestRuns(unknown);
+                for (const [pipelineId, run] of runs) {
+                    this.latestRuns.set(pipelineId, run);
+                }
+                unknown.forEach(id => this.knownPipelines.add(id));
+            }
+        }
+
+        this.lastSync = syncStarted;
+
+        const result = new Map<number, PipelineRun>();
+        for (const id of pipelineIds) {
+            const run = this.latestRuns.get(id);
+            if (run) {
+                result.set(id, run);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Force the next lookup to do a full batched sync
+     */
+    clear(): void {
+        this.latestRuns.clear();
+        this.knownPipelines.clear();
+        this.lastSync = undefined;
+        this.lastFullSync = 0;
+    }
+
+    /**
+     * Keep a run if it is the same run with newer state, or a more recently queued one
+     */
+    private applyRun(run: PipelineRun): void {
+        const pipelineId = run.definition?.id ?? run.pipeline?.id;
+        if (pipelineId === undefined) {
+            return;
+        }
+
+        const current = this.latestRuns.get(pipelineId);
+        if (!current || current.id === run.id || this.queueTimeOf(run) >= this.queueTimeOf(current)) {
+            this.latestRuns.set(pipelineId, run);
+        }
+    }
+
+    private queueTimeOf(run: PipelineRun): number {
+        const time = run.queueTime || run.createdDate || run.startTime;
+        return time ? new Date(time).getTime() : 0;
+    }
+}
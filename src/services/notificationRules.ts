@@ -0,0 +1,255 @@
+import * as vscode from 'vscode';
+import { PipelineRun, ProjectScope } from '../models/types';
+import { ScopeManager } from './scopeManager';
+import { RunWatcher } from './runWatcher';
+import { formatDuration, formatDurationBetween } from '../utils/formatDuration';
+
+/**
+ * A rule from the azurePipelines.notificationRules setting
+ * All conditions that are set must match
+ */
+export interface NotificationRule {
+    name?: string;
+    when: 'completed' | 'succeeded' | 'failed' | 'partiallySucceeded' | 'canceled' | 'queuedTooLong';
+    pipeline?: string;       // Substring of the pipeline name
+    folder?: string;         // Pipeline folder, including subfolders, e.g. \Prod
+    branch?: string;         // Source branch, with or without refs/heads/
+    requestedByMe?: boolean;
+    minutes?: number;        // queuedTooLong threshold
+}
+
+/**
+ * Run states seen at the last evaluation of a project, persisted so a reload doesn't
+ * lose transitions that happen while the window is closed
+ */
+interface RunSnapshot {
+    takenAt: number;
+    runs: Record<string, string>;
+}
+
+interface RuleState {
+    snapshots: Record<string, RunSnapshot>;
+    fired: string[];
+}
+
+// Default threshold for queuedTooLong rules
+const DEFAULT_QUEUED_MINUTES = 10;
+// How many fired events are remembered for de-duplication
+const MAX_FIRED_EVENTS = 1000;
+
+/**
+ * Notification Rules Engine
+ * Evaluates the azurePipelines.notificationRules setting each time the Runs view refreshes.
+ * Compares each run with its state at the previous refresh and notifies once per event;
+ * fired events are remembered in globalState so reloads and other windows don't repeat them.
+ */
+export class NotificationRulesEngine {
+    private static readonly STATE_KEY = 'azurePipelines.notificationRuleState';
+
+    // Current user per organization, for requestedByMe rules
+    private currentUsers: Map<string, Promise<{ id: string; emailAddress: string } | undefined>> = new Map();
+    // Evaluations run one at a time so projects refreshing together don't overwrite each other's state
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private scopes: ScopeManager,
+        private runWatcher: RunWatcher
+    ) {}
+
+    /**
+     * Evaluate the rules against freshly loaded runs of a project
+     */
+    evaluate(scope: ProjectScope, runs: PipelineRun[]): Promise<void> {
+        this.pending = this.pending
+            .then(() => this.evaluateRuns(scope, runs))
+            .catch(error => console.error('Failed to evaluate notification rules:', error));
+        return this.pending;
+    }
+
+    private async evaluateRuns(scope: ProjectScope, runs: PipelineRun[]): Promise<void> {
+        const key = ScopeManager.keyOf(scope);
+        const state = this.getState();
+        const previous = state.snapshots[key];
+        const now = Date.now();
+        const rules = this.getRules();
+
+        const fired = new Set(state.fired);
+        const notifications: Array<{ run: PipelineRun; rules: NotificationRule[]; event: string }> = [];
+
+        for (const run of runs) {
+            const statusStr = String(run.status || '').toLowerCase();
+
+            // Completion: the run was running at the last refresh, or appeared and finished since then
+            if (previous && statusStr === 'completed' && previous.runs[run.id] !== 'completed') {
+                const finished = run.finishTime || run.finishedDate;
+                const finishedSince = !!finished && new Date(finished).getTime() > previous.takenAt;
+                if (previous.runs[run.id] !== undefined || finishedSince) {
+                    const matching = await this.getMatchingRules(rules.filter(rule => this.matchesResult(rule, run)), scope, run);
+                    // Watched runs already get their own notification
+                    if (matching.length > 0 && !this.runWatcher.isWatched(scope, run.id)) {
+                        notifications.push({ run, rules: matching, event: `${key}#${run.id}#completed` });
+                    }
+                }
+            }
+
+            if (statusStr === 'notstarted') {
+                const queued = run.queueTime || run.createdDate;
+                const queuedMs = queued ? now - new Date(queued).getTime() : 0;
+                const overdue = rules.filter(rule =>
+                    rule.when === 'queuedTooLong' &&
+                    queuedMs >= (rule.minutes ?? DEFAULT_QUEUED_MINUTES) * 60 * 1000
+                );
+                const matching = await this.getMatchingRules(overdue, scope, run);
+                if (matching.length > 0) {
+                    notifications.push({ run, rules: matching, event: `${key}#${run.id}#queuedTooLong` });
+                }
+            }
+        }
+
+        const toShow = notifications.filter(notification => !fired.has(notification.event));
+        for (const notification of toShow) {
+            fired.add(notification.event);
+        }
+
+        state.snapshots[key] = {
+            takenAt: now,
+            runs: Object.fromEntries(runs.map(run => [String(run.id), String(run.status || '').toLowerCase()]))
+        };
+        state.fired = Array.from(fired).slice(-MAX_FIRED_EVENTS);
+        await this.context.globalState.update(NotificationRulesEngine.STATE_KEY, state);
+
+        for (const notification of toShow) {
+            this.notify(notification.run, notification.rules);
+        }
+    }
+
+    private getRules(): NotificationRule[] {
+        const rules = vscode.workspace.getConfiguration('azurePipelines').get<NotificationRule[]>('notificationRules', []);
+        return Array.isArray(rules) ? rules.filter(rule => rule && typeof rule.when === 'string') : [];
+    }
+
+    private getState(): RuleState {
+        const state = this.context.globalState.get<RuleState>(NotificationRulesEngine.STATE_KEY);
+        return {
+            snapshots: { ...(state?.snapshots || {}) },
+            fired: [...(state?.fired || [])]
+        };
+    }
+
+    private matchesResult(rule: NotificationRule, run: PipelineRun): boolean {
+        const resultStr = String(run.result || '').toLowerCase();
+        switch (rule.when) {
+            case 'completed':
+                return true;
+            case 'succeeded':
+            case 'failed':
+            case 'partiallySucceeded':
+            case 'canceled':
+                return resultStr === rule.when.toLowerCase();
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Rules whose pipeline, folder, branch and requester conditions match the run
+     */
+    private async getMatchingRules(rules: NotificationRule[], scope: ProjectScope, run: PipelineRun): Promise<NotificationRule[]> {
+        const matching: NotificationRule[] = [];
+
+        for (const rule of rules) {
+            const pipelineName = (run.pipeline?.name || run.definition?.name || '').toLowerCase();
+            if (rule.pipeline && !pipelineName.includes(rule.pipeline.toLowerCase())) {
+                continue;
+            }
+
+            if (rule.folder && !this.isInFolder(run.definition?.path, rule.folder)) {
+                continue;
+            }
+
+            const branch = (run.sourceBranch || '').replace(/^refs\/heads\//, '').toLowerCase();
+            if (rule.branch && branch !== rule.branch.replace(/^refs\/heads\//, '').toLowerCase()) {
+                continue;
+            }
+
+            if (rule.requestedByMe && !(await this.isRequestedByMe(scope, run))) {
+                continue;
+            }
+
+            matching.push(rule);
+        }
+
+        return matching;
+    }
+
+    private isInFolder(pipelinePath: string | undefined, folder: string): boolean {
+        const normalize = (value: string) => value.split(/[\\/]/).filter(Boolean).map(segment => segment.toLowerCase());
+        const folderSegments = normalize(folder);
+        const pathSegments = normalize(pipelinePath || '');
+        return folderSegments.every((segment, i) => pathSegments[i] === segment);
+    }
+
+    private async isRequestedByMe(scope: ProjectScope, run: PipelineRun): Promise<boolean> {
+        const requester = run.requestedFor || run.requestedBy;
+        if (!requester) {
+            return false;
+        }
+
+        const orgKey = scope.organizationUrl.toLowerCase();
+        let user = this.currentUsers.get(orgKey);
+        if (!user) {
+            user = this.scopes.getClient(scope).getCurrentUserProfile().catch(error => {
+                console.error('Failed to load current user for notification rules:', error);
+                this.currentUsers.delete(orgKey);
+                return undefined;
+            });
+            this.currentUsers.set(orgKey, user);
+        }
+
+        const me = await user;
+        if (!me) {
+            return false;
+        }
+
+        return (!!me.id && requester.id === me.id) ||
+            requester.uniqueName?.toLowerCase() === me.emailAddress.toLowerCase();
+    }
+
+    private async notify(run: PipelineRun, rules: NotificationRule[]): Promise<void> {
+        if (!vscode.workspace.getConfiguration('azurePipelines').get<boolean>('showNotifications', true)) {
+            return;
+        }
+
+        const pipelineName = run.pipeline?.name || run.definition?.name || 'Run';
+        const branch = run.sourceBranch ? ` on ${run.sourceBranch.replace(/^refs\/heads\//, '')}` : '';
+        const ruleNames = rules.map(rule => rule.name || rule.when).join(', ');
+        const resultStr = String(run.result || '').toLowerCase();
+
+        let message: string;
+        if (String(run.status || '').toLowerCase() === 'notstarted') {
+            const queued = run.queueTime || run.createdDate;
+            const waited = queued ? formatDuration(Date.now() - new Date(queued).getTime()) : 'a while';
+            message = `${pipelineName} #${run.buildNumber}${branch} has been queued for ${waited}`;
+        } else {
+            const start = run.startTime || run.queueTime || run.createdDate;
+            const end = run.finishTime || run.finishedDate;
+            const duration = start && end ? ` in ${formatDurationBetween(start, end)}` : '';
+            const result = resultStr === 'partiallysucceeded' ? 'partially succeeded' : resultStr || 'finished';
+            message = `${pipelineName} #${run.buildNumber}${branch} ${result}${duration}`;
+        }
+
+        const show = resultStr === 'failed'
+            ? vscode.window.showErrorMessage
+            : resultStr === 'succeeded'
+                ? vscode.window.showInformationMessage
+                : vscode.window.showWarningMessage;
+
+        const selection = await show(`${message} (rule: ${ruleNames})`, 'View Details', 'Open Logs');
+        if (selection === 'View Details') {
+            vscode.commands.executeCommand('azurePipelines.viewRunDetails', run);
+        } else if (selection === 'Open Logs') {
+            vscode.commands.executeCommand('azurePipelines.viewRunLogs', run);
+        }
+    }
+}
@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AzureDevOpsClient } from '../api/azureDevOpsClient';
+import { Issue, PipelineRun, TimelineRecord } from '../models/types';
+import { ScopeManager } from './scopeManager';
+import { parseLogLine, stripAnsi } from '../utils/logParser';
+import { ParsedProblem, ProblemMatcher } from '../utils/problemMatchers';
+
+// Checkout folder of the agent, e.g. /home/vsts/work/1/s/, D:\a\1\s\ or C:\agent\_work\3\s\
+const AGENT_SOURCES_PATTERN = /^(?:.*?[\\/])?(?:_work|work|a)[\\/]\d+[\\/]s[\\/](.+)$/i;
+// Failed task logs scanned per run
+const MAX_LOGS = 20;
+
+/**
+ * Pipeline Diagnostics
+ * Publishes the compiler, linter and test errors of a failed run as workspace diagnostics,
+ * from the failed tasks' logs and the timeline issues, with agent paths mapped to local files
+ */
+export class PipelineDiagnostics implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('Azure Pipelines');
+    // Agent path -> workspace file (null when it couldn't be found), for the current run only
+    private resolved: Map<string, vscode.Uri | null> = new Map();
+
+    constructor(private scopes: ScopeManager) {}
+
+    /**
+     * Replace the published problems with the ones of a run (run or tree item)
+     */
+    async showRunErrors(target: any): Promise<void> {
+        const run: PipelineRun | undefined = target?.run || target;
+        if (!run?.id) {
+            vscode.window.showErrorMessage('Run information not available. Please refresh and try again.');
+            return;
+        }
+
+        if (!vscode.workspace.workspaceFolders?.length) {
+            vscode.window.showInformationMessage('Open the repository in a workspace to map build errors to its files');
+            return;
+        }
+
+        const client = this.scopes.clientFor(target);
+        let problems: ParsedProblem[];
+        try {
+            problems = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Reading build errors of run ${run.buildNumber}`,
+                    cancellable: false
+                },
+                () => this.collectProblems(client, run)
+            );
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to read build errors: ${errorMessage}`);
+            return;
+        }
+
+        this.collection.clear();
+        this.resolved.clear();
+
+        const byFile = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+        let unmapped = 0;
+        for (const problem of problems) {
+            const uri = await this.resolvePath(problem.file);
+            if (!uri) {
+                unmapped++;
+                continue;
+            }
+
+            const entry = byFile.get(uri.toString()) || { uri, diagnostics: [] };
+            entry.diagnostics.push(this.toDiagnostic(problem, run));
+            byFile.set(uri.toString(), entry);
+        }
+        for (const { uri, diagnostics } of byFile.values()) {
+            this.collection.set(uri, diagnostics);
+        }
+
+        const mapped = problems.length - unmapped;
+        if (problems.length === 0) {
+            vscode.window.showInformationMessage(`No file errors were found in the logs of run ${run.buildNumber}`);
+            return;
+        }
+
+        const skipped = unmapped > 0 ? ` (${unmapped} refer to files not in this workspace)` : '';
+        const selection = await vscode.window.showInformationMessage(
+            `${mapped} problem(s) from run ${run.buildNumber} added to the Problems panel${skipped}`,
+            ...(mapped > 0 ? ['Show Problems'] : [])
+        );
+        if (selection === 'Show Problems') {
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+        }
+    }
+
+    clear(): void {
+        this.collection.clear();
+    }
+
+    /**
+     * Problems from the timeline issues and the logs of failed tasks, without duplicates
+     */
+    private async collectProblems(client: AzureDevOpsClient, run: PipelineRun): Promise<ParsedProblem[]> {
+        const timeline = await client.getRunTimeline(run.id);
+        const records: TimelineRecord[] = timeline.records || [];
+        const problems = new Map<string, ParsedProblem>();
+        const add = (problem: ParsedProblem) => {
+            const key = `${problem.file}|${problem.line}|${problem.column || 0}|${problem.message}`.toLowerCase();
+            if (!problems.has(key)) {
+                problems.set(key, problem);
+            }
+        };
+
+        for (const record of records) {
+            for (const issue of record.issues || []) {
+                const problem = this.fromIssue(issue);
+                if (problem) {
+                    add(problem);
+                }
+            }
+        }
+
+        const failedTasks = records
+            .filter(record => record.type === 'Task' && record.log?.id && (record.result || '').toLowerCase() === 'failed')
+            .slice(0, MAX_LOGS);
+        for (const task of failedTasks) {
+            try {
+                const matcher = new ProblemMatcher();
+                for (const raw of await client.getLogLines(run.id, task.log!.id)) {
+                    const problem = matcher.match(stripAnsi(parseLogLine(raw).text));
+                    if (problem) {
+                        add(problem);
+                    }
+                }
+            } catch (error) {
+                console.error(`Failed to read the log of ${task.name}:`, error);
+            }
+        }
+
+        return Array.from(problems.values());
+    }
+
+    /**
+     * Issues logged with ##vso[task.logissue sourcepath=...;linenumber=...] carry their location;
+     * others may have it in the message, e.g. tsc errors reported as issues
+     */
+    private fromIssue(issue: Issue): ParsedProblem | undefined {
+        const data = issue.data || {};
+        if (data.sourcepath && Number(data.linenumber) > 0) {
+            return {
+                file: data.sourcepath,
+                line: Number(data.linenumber),
+                column: Number(data.columnnumber) || undefined,
+                severity: issue.type === 'warning' ? 'warning' : 'error',
+                message: issue.message,
+                code: data.code
+            };
+        }
+
+        const problem = new ProblemMatcher().match(stripAnsi(issue.message.split('\n')[0]));
+        return problem ? { ...problem, severity: issue.type === 'warning' ? 'warning' : problem.severity } : undefined;
+    }
+
+    /**
+     * Map a path from the agent (or relative to its sources folder) to a workspace file
+     */
+    private async resolvePath(file: string): Promise<vscode.Uri | undefined> {
+        if (this.resolved.has(file)) {
+            return this.resolved.get(file) || undefined;
+        }
+
+        const normalized = file.replace(/\\/g, '/');
+        const candidates: string[] = [];
+        const agentPath = AGENT_SOURCES_PATTERN.exec(normalized);
+        if (agentPath) {
+            // Multi-repo checkouts put each repository in a folder under s/
+            candidates.push(agentPath[1], agentPath[1].split('/').slice(1).join('/'));
+        } else if (!path.isAbsolute(file) && !/^[A-Za-z]:\//.test(normalized)) {
+            candidates.push(normalized.replace(/^\.\//, ''));
+        }
+
+        let uri: vscode.Uri | undefined;
+        for (const candidate of candidates.filter(Boolean)) {
+            uri = await this.findInWorkspace(candidate);
+            if (uri) {
+                break;
+            }
+        }
+
+        // Paths on the local machine (e.g. running a self-hosted agent from the workspace)
+        if (!uri && path.isAbsolute(file) && await this.exists(vscode.Uri.file(file))) {
+            uri = vscode.Uri.file(file);
+        }
+
+        this.resolved.set(file, uri || null);
+        return uri;
+    }
+
+    private async findInWorkspace(relativePath: string): Promise<vscode.Uri | undefined> {
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const uri = vscode.Uri.joinPath(folder.uri, relativePath);
+            if (await this.exists(uri)) {
+                return uri;
+            }
+        }
+        return undefined;
+    }
+
+    private async exists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private toDiagnostic(problem: ParsedProblem, run: PipelineRun): vscode.Diagnostic {
+        const line = Math.max(0, problem.line - 1);
+        const column = Math.max(0, (problem.column || 1) - 1);
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(line, column, line, column),
+            `${problem.message} (run ${run.buildNumber})`,
+            problem.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = 'Azure Pipelines';
+        if (problem.code) {
+            diagnostic.code = problem.code;
+        }
+        return diagnostic;
+    }
+
+    dispose(): void {
+        this.collection.dispose();
+    }
+}
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+
+/**
+ * A view refreshed by the scheduler
+ */
+export interface RefreshTarget {
+    view: vscode.TreeView<any>;
+    refresh: () => void;
+    // Extra condition, e.g. the Stages view only refreshes when a run is loaded
+    isEnabled?: () => boolean;
+}
+
+// Never poll more often than this, even while runs are in progress
+const MIN_INTERVAL_MS = 5 * 1000;
+// While runs are in progress, poll this many times faster than the configured interval
+const ACTIVE_SPEEDUP = 3;
+// When idle, back off up to this multiple of the configured interval
+const MAX_IDLE_BACKOFF = 4;
+
+/**
+ * Polling delay while runs are in progress, derived from the configured interval
+ */
+export function getActiveIntervalMs(baseIntervalMs: number): number {
+    return Math.max(MIN_INTERVAL_MS, Math.floor(baseIntervalMs / ACTIVE_SPEEDUP));
+}
+
+/**
+ * Refresh Scheduler
+ * Drives auto-refresh of the tree views from the azurePipelines.autoRefreshInterval setting.
+ * Polls faster while runs are in progress, backs off while idle, and skips
+ * hidden or collapsed views and unfocused windows.
+ */
+export class RefreshScheduler implements vscode.Disposable {
+    private targets: RefreshTarget[] = [];
+    private staleTargets: Set<RefreshTarget> = new Set();
+    private timer?: NodeJS.Timeout;
+    private idleTicks: number = 0;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private canRefresh: () => Promise<boolean>,
+        private hasActiveRuns: () => boolean
+    ) {
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('azurePipelines.autoRefreshInterval')) {
+                    this.reschedule();
+                }
+            }),
+            vscode.window.onDidChangeWindowState(state => {
+                if (state.focused) {
+                    this.refreshStale();
+                }
+            })
+        );
+    }
+
+    /**
+     * Add a view to the refresh cycle
+     */
+    register(target: RefreshTarget): void {
+        this.targets.push(target);
+        this.disposables.push(
+            target.view.onDidChangeVisibility(e => {
+                if (e.visible && this.staleTargets.has(target)) {
+                    this.staleTargets.delete(target);
+                    target.refresh();
+                }
+            })
+        );
+    }
+
+    start(): void {
+        this.reschedule();
+    }
+
+    private getBaseIntervalMs(): number {
+        const config = vscode.workspace.getConfiguration('azurePipelines');
+        return Math.max(0, config.get<number>('autoRefreshInterval', 30)) * 1000;
+    }
+
+    private getNextDelayMs(): number {
+        const base = this.getBaseIntervalMs();
+
+        if (this.hasActiveRuns()) {
+            return getActiveIntervalMs(base);
+        }
+
+        const backoff = Math.min(MAX_IDLE_BACKOFF, Math.pow(2, this.idleTicks));
+        return Math.max(MIN_INTERVAL_MS, base * backoff);
+    }
+
+    private reschedule(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+
+        // 0 disables auto-refresh entirely
+        if (this.getBaseIntervalMs() === 0) {
+            return;
+        }
+
+        this.timer = setTimeout(() => this.tick(), this.getNextDelayMs());
+    }
+
+    private async tick(): Promise<void> {
+        try {
+            if (await this.canRefresh()) {
+                this.refreshTargets(vscode.window.state.focused);
+            }
+        } catch (error) {
+            console.error('Auto-refresh failed:', error);
+        }
+
+        this.idleTicks = this.hasActiveRuns() ? 0 : this.idleTicks + 1;
+        this.reschedule();
+    }
+
+    /**
+     * Refresh visible targets; remember the others so they refresh once they are shown again
+     */
+    private refreshTargets(windowFocused: boolean): void {
+        for (const target of this.targets) {
+            if (target.isEnabled && !target.isEnabled()) {
+                continue;
+            }
+
+            if (!windowFocused || !target.view.visible) {
+                this.staleTargets.add(target);
+                continue;
+            }
+
+            this.staleTargets.delete(target);
+            target.refresh();
+        }
+    }
+
+    private async refreshStale(): Promise<void> {
+        if (this.staleTargets.size === 0 || !(await this.canRefresh())) {
+            return;
+        }
+
+        for (const target of Array.from(this.staleTargets)) {
+            if (target.view.visible) {
+                this.staleTargets.delete(target);
+                target.refresh();
+            }
+        }
+    }
+
+    dispose(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,82 @@
+import { ProjectScope } from '../models/types';
+import { ScopeManager } from './scopeManager';
+import { parseAzureDevOpsRemote, parseGitHubRemote } from '../utils/gitRemote';
+
+/**
+ * Where the pipeline runs of a local git repository come from
+ */
+export interface RepositoryTarget {
+    scope: ProjectScope;
+    repository?: { id: string; type: string };
+    // Azure Repos repositories are looked up by name to get their id
+    repositoryName?: string;
+}
+
+/**
+ * Repository Resolver
+ * Maps git remotes to the Azure DevOps project and repository that build them: Azure Repos
+ * remotes use their own organization/project, GitHub remotes are looked up in the active project.
+ */
+export class RepositoryResolver {
+    // Repository id per scope and repository name
+    private repositoryIds: Map<string, string> = new Map();
+
+    constructor(private scopes: ScopeManager) {}
+
+    /**
+     * Resolve the first remote that points at Azure Repos or GitHub, preferring "origin"
+     */
+    fromRemotes(remotes: Array<{ name: string; url: string }>): RepositoryTarget | undefined {
+        const ordered = [
+            ...remotes.filter(remote => remote.name === 'origin'),
+            ...remotes.filter(remote => remote.name !== 'origin')
+        ];
+
+        for (const remote of ordered) {
+            const azureRepo = parseAzureDevOpsRemote(remote.url);
+            if (azureRepo) {
+                return {
+                    scope: {
+                        organizationUrl: azureRepo.organizationUrl,
+                        organizationName: azureRepo.organizationName,
+                        projectName: azureRepo.projectName
+                    },
+                    repositoryName: azureRepo.repositoryName
+                };
+            }
+
+            const github = parseGitHubRemote(remote.url);
+            const primary = this.scopes.getPrimaryScope();
+            if (github && primary) {
+                return {
+                    scope: primary,
+                    repository: { id: `${github.owner}/${github.repo}`, type: 'GitHub' }
+                };
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Repository filter for the Builds API, looking up Azure Repos ids by name (cached)
+     */
+    async getRepository(target: RepositoryTarget): Promise<{ id: string; type: string } | undefined> {
+        if (target.repository || !target.repositoryName) {
+            return target.repository;
+        }
+
+        const cacheKey = `${ScopeManager.keyOf(target.scope)}|${target.repositoryName.toLowerCase()}`;
+        let id = this.repositoryIds.get(cacheKey);
+        if (!id) {
+            const name = target.repositoryName.toLowerCase();
+            const repositories = await this.scopes.getClient(target.scope).getRepositories();
+            id = repositories.find(repo => String(repo.name).toLowerCase() === name)?.id;
+            if (!id) {
+                return undefined;
+            }
+            this.repositoryIds.set(cacheKey, id);
+        }
+        return { id, type: 'TfsGit' };
+    }
+}
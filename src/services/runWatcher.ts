@@ -0,0 +1,276 @@
+import * as vscode from 'vscode';
+import { PipelineRun, ProjectScope, TimelineRecord } from '../models/types';
+import { ScopeManager } from './scopeManager';
+import { formatDurationBetween } from '../utils/formatDuration';
+
+/**
+ * A run being watched, with enough of its scope to resume after a window reload
+ */
+interface WatchedRun {
+    runId: number;
+    label: string;
+    organizationUrl: string;
+    organizationName: string;
+    projectName: string;
+}
+
+// How often watched runs are polled
+const POLL_INTERVAL_MS = 15 * 1000;
+// Longest first-error excerpt shown in a notification
+const MAX_ERROR_LENGTH = 200;
+
+/**
+ * Run Watcher
+ * Polls watched runs until they finish and then shows a notification with the result,
+ * duration and first error. Watches are kept in workspaceState so they survive reloads.
+ */
+export class RunWatcher implements vscode.Disposable {
+    private static readonly WATCHES_KEY = 'azurePipelines.watchedRuns';
+
+    private timer?: NodeJS.Timeout;
+    private polling: boolean = false;
+    private readonly onDidChangeWatchesEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeWatches = this.onDidChangeWatchesEmitter.event;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private scopes: ScopeManager,
+        private canPoll: () => Promise<boolean>
+    ) {
+        if (this.getWatches().length > 0) {
+            this.schedule();
+        }
+    }
+
+    /**
+     * Watch a run (tree item or run object) until it finishes
+     * Auto-watches from queueing a run stay quiet; manual ones confirm
+     */
+    async watch(target: any, options: { auto?: boolean } = {}): Promise<void> {
+        const run: PipelineRun = target?.run || target;
+        const scope = this.scopes.getScopeOf(target) || this.scopes.getPrimaryScope();
+        if (!run?.id || !scope) {
+            vscode.window.showErrorMessage('Run ID is missing. Please refresh the runs view and try again.');
+            return;
+        }
+
+        const label = this.getLabel(run);
+        const statusStr = String(run.status || '').toLowerCase();
+        if (statusStr === 'completed') {
+            if (!options.auto) {
+                vscode.window.showInformationMessage(`${label} has already finished`);
+            }
+            return;
+        }
+
+        if (!this.isWatched(scope, run.id)) {
+            await this.setWatches([
+                ...this.getWatches(),
+                {
+                    runId: run.id,
+                    label,
+                    organizationUrl: scope.organizationUrl,
+                    organizationName: scope.organizationName,
+                    projectName: scope.projectName
+                }
+            ]);
+            this.onDidChangeWatchesEmitter.fire();
+        }
+        this.schedule();
+
+        if (!options.auto) {
+            const message = this.notificationsEnabled()
+                ? `Watching ${label}. You'll be notified when it finishes.`
+                : `Watching ${label}, but notifications are turned off (azurePipelines.showNotifications).`;
+            vscode.window.showInformationMessage(message);
+        }
+    }
+
+    /**
+     * Stop watching a run (tree item or run object)
+     */
+    async unwatch(target: any): Promise<void> {
+        const run: PipelineRun = target?.run || target;
+        const scope = this.scopes.getScopeOf(target) || this.scopes.getPrimaryScope();
+        if (!run?.id || !scope) {
+            return;
+        }
+
+        await this.setWatches(this.getWatches().filter(watch => !this.matches(watch, scope, run.id)));
+        this.onDidChangeWatchesEmitter.fire();
+    }
+
+    isWatched(scope: ProjectScope | undefined, runId: number): boolean {
+        const target = scope || this.scopes.getPrimaryScope();
+        return !!target && this.getWatches().some(watch => this.matches(watch, target, runId));
+    }
+
+    private matches(watch: WatchedRun, scope: ProjectScope, runId: number): boolean {
+        return watch.runId === runId && ScopeManager.keyOf(watch) === ScopeManager.keyOf(scope);
+    }
+
+    private schedule(): void {
+        if (this.timer || this.getWatches().length === 0) {
+            return;
+        }
+
+        this.timer = setTimeout(async () => {
+            this.timer = undefined;
+            await this.poll();
+            this.schedule();
+        }, POLL_INTERVAL_MS);
+    }
+
+    /**
+     * Check every watched run once and notify about the ones that finished
+     */
+    private async poll(): Promise<void> {
+        if (this.polling || !(await this.canPoll())) {
+            return;
+        }
+
+        this.polling = true;
+        try {
+            for (const watch of this.getWatches()) {
+                const client = this.scopes.getClient(watch);
+                let run: PipelineRun;
+                try {
+                    run = await client.getRun(watch.runId);
+                } catch (error: any) {
+                    if (error?.response?.status === 404) {
+                        // The run was deleted; nothing left to watch
+                        await this.remove(watch);
+                    }
+                    continue;
+                }
+
+                if (String(run.status || '').toLowerCase() === 'completed') {
+                    await this.remove(watch);
+                    this.scopes.tag([run], watch);
+                    this.notify(run, watch);
+                }
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private async remove(watch: WatchedRun): Promise<void> {
+        await this.setWatches(this.getWatches().filter(existing => !this.matches(existing, watch, watch.runId)));
+        this.onDidChangeWatchesEmitter.fire();
+    }
+
+    /**
+     * Show the result of a finished run with shortcuts to details, logs and retry
+     */
+    private async notify(run: PipelineRun, watch: WatchedRun): Promise<void> {
+        if (!this.notificationsEnabled()) {
+            return;
+        }
+
+        const resultStr = String(run.result || '').toLowerCase();
+        const start = run.startTime || run.queueTime || run.createdDate;
+        const end = run.finishTime || run.finishedDate;
+        const duration = start && end ? ` in ${formatDurationBetween(start, end)}` : '';
+
+        let message = `${watch.label} ${this.describeResult(resultStr)}${duration}`;
+        if (resultStr !== 'succeeded') {
+            const firstError = await this.getFirstError(run, watch);
+            if (firstError) {
+                message += `: ${firstError}`;
+            }
+        }
+
+        const actions = resultStr === 'succeeded'
+            ? ['View Details', 'Open Logs']
+            : resultStr === 'failed'
+                ? ['View Details', 'Show Errors', 'Open Logs', 'Retry']
+                : ['View Details', 'Open Logs', 'Retry'];
+
+        const show = resultStr === 'succeeded'
+            ? vscode.window.showInformationMessage
+            : resultStr === 'failed'
+                ? vscode.window.showErrorMessage
+                : vscode.window.showWarningMessage;
+
+        const selection = await show(message, ...actions);
+        switch (selection) {
+            case 'View Details':
+                vscode.commands.executeCommand('azurePipelines.viewRunDetails', run);
+                break;
+            case 'Open Logs':
+                vscode.commands.executeCommand('azurePipelines.viewRunLogs', run);
+                break;
+            case 'Show Errors':
+                vscode.commands.executeCommand('azurePipelines.showRunErrorsInProblems', run);
+                break;
+            case 'Retry':
+                vscode.commands.executeCommand('azurePipelines.retryRun', run);
+                break;
+        }
+    }
+
+    private describeResult(resultStr: string): string {
+        switch (resultStr) {
+            case 'succeeded':
+                return 'succeeded';
+            case 'partiallysucceeded':
+                return 'partially succeeded';
+            case 'failed':
+                return 'failed';
+            case 'canceled':
+                return 'was canceled';
+            default:
+                return 'finished';
+        }
+    }
+
+    /**
+     * First error reported in the run's timeline, in execution order
+     */
+    private async getFirstError(run: PipelineRun, watch: WatchedRun): Promise<string | undefined> {
+        try {
+            const timeline = await this.scopes.getClient(watch).getRunTimeline(run.id);
+            const records: TimelineRecord[] = (timeline?.records || [])
+                .filter(record => record.issues?.some(issue => issue.type === 'error'))
+                .sort((a, b) => new Date(a.startTime || 0).getTime() - new Date(b.startTime || 0).getTime());
+
+            const issue = records[0]?.issues?.find(i => i.type === 'error');
+            if (!issue) {
+                return undefined;
+            }
+
+            const text = issue.message.split('\n')[0].trim();
+            return text.length > MAX_ERROR_LENGTH ? `${text.slice(0, MAX_ERROR_LENGTH)}…` : text;
+        } catch (error) {
+            console.error('Failed to load timeline for notification:', error);
+            return undefined;
+        }
+    }
+
+    private getLabel(run: PipelineRun): string {
+        const pipelineName = run.pipeline?.name || run.definition?.name;
+        const buildNumber = run.buildNumber || run.name || String(run.id);
+        return pipelineName ? `${pipelineName} #${buildNumber}` : `Run #${buildNumber}`;
+    }
+
+    private notificationsEnabled(): boolean {
+        return vscode.workspace.getConfiguration('azurePipelines').get<boolean>('showNotifications', true);
+    }
+
+    private getWatches(): WatchedRun[] {
+        return this.context.workspaceState.get<WatchedRun[]>(RunWatcher.WATCHES_KEY, []);
+    }
+
+    private async setWatches(watches: WatchedRun[]): Promise<void> {
+        await this.context.workspaceState.update(RunWatcher.WATCHES_KEY, watches);
+    }
+
+    dispose(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.onDidChangeWatchesEmitter.dispose();
+    }
+}
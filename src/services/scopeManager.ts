@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import { AzureDevOpsClient } from '../api/azureDevOpsClient';
+import { AzureDevOpsAuthProvider } from '../authentication/authProvider';
+import { ConfigManager } from '../utils/configManager';
+import { ProjectScope } from '../models/types';
+
+/**
+ * Scope Manager
+ * Tracks the organization/project pairs shown in the tree views: the active one from
+ * ConfigManager plus any projects added with "Add Project". Each scope gets its own
+ * API client, and objects loaded from a scope are tagged so commands invoked on them
+ * are routed to the right client.
+ */
+export class ScopeManager implements vscode.Disposable {
+    private static readonly SCOPES_KEY = 'azurePipelines.additionalScopes';
+
+    private clients: Map<string, AzureDevOpsClient> = new Map();
+    private tags: WeakMap<object, ProjectScope> = new WeakMap();
+    private readonly onDidChangeScopesEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeScopes = this.onDidChangeScopesEmitter.event;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private authProvider: AzureDevOpsAuthProvider,
+        private primaryClient: AzureDevOpsClient,
+        private configManager: ConfigManager
+    ) {}
+
+    /**
+     * Stable identity of a scope (URLs and project names are case-insensitive)
+     */
+    static keyOf(scope: ProjectScope): string {
+        return `${scope.organizationUrl.replace(/\/+$/, '')}/${scope.projectName}`.toLowerCase();
+    }
+
+    /**
+     * The scope the primary client is configured for
+     */
+    getPrimaryScope(): ProjectScope | undefined {
+        const config = this.primaryClient.getConfig();
+        if (!config.organizationUrl || !config.projectName) {
+            return undefined;
+        }
+
+        const organizationName = this.configManager.getOrganizationUrl() === config.organizationUrl
+            ? this.configManager.getOrganizationName()
+            : undefined;
+
+        return {
+            organizationUrl: config.organizationUrl,
+            organizationName: organizationName || config.organizationUrl.split('/').filter(Boolean).pop() || config.organizationUrl,
+            projectName: config.projectName
+        };
+    }
+
+    /**
+     * All scopes, active project first
+     */
+    getScopes(): ProjectScope[] {
+        const primary = this.getPrimaryScope();
+        if (!primary) {
+            return [];
+        }
+
+        const primaryKey = ScopeManager.keyOf(primary);
+        return [
+            primary,
+            ...this.getAdditionalScopes().filter(scope => ScopeManager.keyOf(scope) !== primaryKey)
+        ];
+    }
+
+    isPrimary(scope: ProjectScope): boolean {
+        const primary = this.getPrimaryScope();
+        return !!primary && ScopeManager.keyOf(primary) === ScopeManager.keyOf(scope);
+    }
+
+    /**
+     * Get the API client for a scope, creating it on first use
+     */
+    getClient(scope: ProjectScope): AzureDevOpsClient {
+        if (this.isPrimary(scope)) {
+            return this.primaryClient;
+        }
+
+        const key = ScopeManager.keyOf(scope);
+        let client = this.clients.get(key);
+        if (!client) {
+            client = new AzureDevOpsClient(this.authProvider);
+            client.initialize(scope.organizationUrl, scope.projectName);
+            this.clients.set(key, client);
+        }
+        return client;
+    }
+
+    /**
+     * Remember which scope the given objects (pipelines, runs, connections) were loaded from
+     */
+    tag<T extends object>(items: T[], scope: ProjectScope): T[] {
+        for (const item of items) {
+            this.tags.set(item, scope);
+        }
+        return items;
+    }
+
+    /**
+     * Find the scope of a tree item or a model object loaded by one of the views
+     */
+    getScopeOf(target: any): ProjectScope | undefined {
+        if (!target || typeof target !== 'object') {
+            return undefined;
+        }
+
+        if (target.scope && target.scope.organizationUrl) {
+            return target.scope;
+        }
+
+        for (const candidate of [target, target.pipeline, target.run, target.connection]) {
+            if (candidate && typeof candidate === 'object') {
+                const tagged = this.tags.get(candidate);
+                if (tagged) {
+                    return tagged;
+                }
+            }
+        }
+
+        // Objects created outside the views (e.g. a run just queued from a webview): match by URL
+        const url = String(target.url || target._links?.web?.href || '').toLowerCase();
+        if (!url) {
+            return undefined;
+        }
+        const matches = this.getScopes().filter(scope => url.startsWith(scope.organizationUrl.replace(/\/+$/, '').toLowerCase() + '/'));
+        if (matches.length === 1) {
+            return matches[0];
+        }
+        // Several projects in the same organization: use the project name from the object or its URL
+        const projectName = String(target.project?.name || '').toLowerCase();
+        return matches.find(scope => {
+            const name = scope.projectName.toLowerCase();
+            const orgPrefix = scope.organizationUrl.replace(/\/+$/, '').toLowerCase();
+            return name === projectName ||
+                url.startsWith(`${orgPrefix}/${name}/`) ||
+                url.startsWith(`${orgPrefix}/${encodeURIComponent(name)}/`);
+        });
+    }
+
+    /**
+     * Get the client that should handle a command invoked on the target
+     */
+    clientFor(target: any): AzureDevOpsClient {
+        const scope = this.getScopeOf(target);
+        return scope ? this.getClient(scope) : this.primaryClient;
+    }
+
+    /**
+     * Ask which project to use for commands that aren't invoked on a tree item
+     * Returns the active project without prompting when only one is shown
+     */
+    async pickScope(placeHolder: string): Promise<ProjectScope | undefined> {
+        const scopes = this.getScopes();
+        if (scopes.length <= 1) {
+            return scopes[0];
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            scopes.map(scope => ({
+                label: scope.projectName,
+                description: scope.organizationName,
+                scope
+            })),
+            { placeHolder }
+        );
+        return selected?.scope;
+    }
+
+    /**
+     * Add another organization/project to the views
+     */
+    async addScope(): Promise<void> {
+        if (!this.getPrimaryScope()) {
+            vscode.window.showWarningMessage('Please select an organization and project first');
+            return;
+        }
+
+        const scope = await this.configManager.pickProject();
+        if (!scope) {
+            return;
+        }
+
+        const key = ScopeManager.keyOf(scope);
+        if (this.getScopes().some(existing => ScopeManager.keyOf(existing) === key)) {
+            vscode.window.showInformationMessage(`${scope.organizationName} / ${scope.projectName} is already shown`);
+            return;
+        }
+
+        await this.context.globalState.update(ScopeManager.SCOPES_KEY, [...this.getAdditionalScopes(), scope]);
+        this.onDidChangeScopesEmitter.fire();
+    }
+
+    /**
+     * Remove an added organization/project from the views
+     */
+    async removeScope(target: any): Promise<void> {
+        const scope = this.getScopeOf(target) || await this.pickAdditionalScope();
+        if (!scope) {
+            return;
+        }
+
+        if (this.isPrimary(scope)) {
+            vscode.window.showInformationMessage('The active project cannot be removed. Use "Select Organization" to change it.');
+            return;
+        }
+
+        const key = ScopeManager.keyOf(scope);
+        await this.context.globalState.update(
+            ScopeManager.SCOPES_KEY,
+            this.getAdditionalScopes().filter(existing => ScopeManager.keyOf(existing) !== key)
+        );
+        this.clients.delete(key);
+        this.onDidChangeScopesEmitter.fire();
+    }
+
+    private async pickAdditionalScope(): Promise<ProjectScope | undefined> {
+        const scopes = this.getScopes().filter(scope => !this.isPrimary(scope));
+        if (scopes.length === 0) {
+            vscode.window.showInformationMessage('No additional projects have been added');
+            return undefined;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            scopes.map(scope => ({ label: scope.projectName, description: scope.organizationName, scope })),
+            { placeHolder: 'Select a project to remove' }
+        );
+        return selected?.scope;
+    }
+
+    private getAdditionalScopes(): ProjectScope[] {
+        return this.context.globalState.get<ProjectScope[]>(ScopeManager.SCOPES_KEY, []);
+    }
+
+    dispose(): void {
+        this.onDidChangeScopesEmitter.dispose();
+    }
+}
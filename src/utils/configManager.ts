@@ -1,63 +1,146 @@
 import * as vscode from 'vscode';
 import { AzureDevOpsClient } from '../api/azureDevOpsClient';
-import { Organization, Project } from '../models/types';
+import { Organization, Project, ProjectScope } from '../models/types';
+import { AzureDevOpsRemote, detectWorkspaceRemote } from './gitRemote';
+
+/**
+ * Where the active organization/project came from
+ */
+export type ConfigSource = 'settings' | 'workspace' | 'gitRemote' | 'global';
 
 /**
  * Manages Azure DevOps configuration (organization and project selection)
+ * Resolution order, per window:
+ *   1. azurePipelines.organizationUrl / azurePipelines.project settings (e.g. .vscode/settings.json)
+ *   2. An organization/project picked manually in this workspace
+ *   3. The git remote of the open workspace folders
+ *   4. The last organization/project picked in any window
  */
 export class ConfigManager {
     private static readonly ORG_URL_KEY = 'azurePipelines.organizationUrl';
     private static readonly ORG_NAME_KEY = 'azurePipelines.organizationName';
     private static readonly PROJECT_NAME_KEY = 'azurePipelines.projectName';
 
+    private detectedRemote: AzureDevOpsRemote | undefined;
+
     constructor(
         private context: vscode.ExtensionContext,
         private client: AzureDevOpsClient
     ) {}
 
     /**
-     * Get stored organization URL
+     * Get the active organization URL
      */
     getOrganizationUrl(): string | undefined {
-        return this.context.globalState.get<string>(ConfigManager.ORG_URL_KEY);
+        return this.resolve()?.organizationUrl;
     }
 
     /**
-     * Get stored organization name
+     * Get the active organization name
      */
     getOrganizationName(): string | undefined {
-        return this.context.globalState.get<string>(ConfigManager.ORG_NAME_KEY);
+        return this.resolve()?.organizationName;
     }
 
     /**
-     * Get stored project name
+     * Get the active project name
      */
     getProjectName(): string | undefined {
-        return this.context.globalState.get<string>(ConfigManager.PROJECT_NAME_KEY);
+        return this.resolve()?.projectName;
+    }
+
+    /**
+     * Get where the active organization/project came from
+     */
+    getSource(): ConfigSource | undefined {
+        return this.resolve()?.source;
+    }
+
+    private resolve(): { organizationUrl: string; organizationName: string; projectName: string; source: ConfigSource } | undefined {
+        const settings = vscode.workspace.getConfiguration('azurePipelines');
+        const settingsOrgUrl = settings.get<string>('organizationUrl', '').trim().replace(/\/+$/, '');
+        const settingsProject = settings.get<string>('project', '').trim();
+        if (settingsOrgUrl && settingsProject) {
+            return {
+                organizationUrl: settingsOrgUrl,
+                organizationName: settingsOrgUrl.split('/').filter(Boolean).pop() || settingsOrgUrl,
+                projectName: settingsProject,
+                source: 'settings'
+            };
+        }
+
+        const workspaceChoice = this.readState(this.context.workspaceState);
+        if (workspaceChoice) {
+            return { ...workspaceChoice, source: 'workspace' };
+        }
+
+        if (this.detectedRemote && settings.get<boolean>('detectFromGitRemote', true)) {
+            return { ...this.detectedRemote, source: 'gitRemote' };
+        }
+
+        const globalChoice = this.readState(this.context.globalState);
+        return globalChoice ? { ...globalChoice, source: 'global' } : undefined;
+    }
+
+    private readState(state: vscode.Memento): { organizationUrl: string; organizationName: string; projectName: string } | undefined {
+        const organizationUrl = state.get<string>(ConfigManager.ORG_URL_KEY);
+        const projectName = state.get<string>(ConfigManager.PROJECT_NAME_KEY);
+        if (!organizationUrl || !projectName) {
+            return undefined;
+        }
+        return {
+            organizationUrl,
+            organizationName: state.get<string>(ConfigManager.ORG_NAME_KEY) || organizationUrl,
+            projectName
+        };
+    }
+
+    /**
+     * Look up the organization/project from the workspace git remotes
+     * Returns true if the active configuration changed
+     */
+    async detectFromWorkspace(): Promise<boolean> {
+        const before = this.resolve();
+        this.detectedRemote = await detectWorkspaceRemote();
+        const after = this.resolve();
+        return before?.organizationUrl !== after?.organizationUrl || before?.projectName !== after?.projectName;
     }
 
     /**
      * Set organization
+     * Remembered for this workspace, and as the default for windows without a match
      */
     async setOrganization(orgUrl: string, orgName: string): Promise<void> {
-        await this.context.globalState.update(ConfigManager.ORG_URL_KEY, orgUrl);
-        await this.context.globalState.update(ConfigManager.ORG_NAME_KEY, orgName);
+        for (const state of this.getSelectionStates()) {
+            await state.update(ConfigManager.ORG_URL_KEY, orgUrl);
+            await state.update(ConfigManager.ORG_NAME_KEY, orgName);
+        }
     }
 
     /**
      * Set project
      */
     async setProject(projectName: string): Promise<void> {
-        await this.context.globalState.update(ConfigManager.PROJECT_NAME_KEY, projectName);
+        for (const state of this.getSelectionStates()) {
+            await state.update(ConfigManager.PROJECT_NAME_KEY, projectName);
+        }
+    }
+
+    private getSelectionStates(): vscode.Memento[] {
+        return vscode.workspace.workspaceFolders?.length
+            ? [this.context.workspaceState, this.context.globalState]
+            : [this.context.globalState];
     }
 
     /**
      * Clear all configuration
      */
     async clear(): Promise<void> {
-        await this.context.globalState.update(ConfigManager.ORG_URL_KEY, undefined);
-        await this.context.globalState.update(ConfigManager.ORG_NAME_KEY, undefined);
-        await this.context.globalState.update(ConfigManager.PROJECT_NAME_KEY, undefined);
+        for (const state of [this.context.workspaceState, this.context.globalState]) {
+            await state.update(ConfigManager.ORG_URL_KEY, undefined);
+            await state.update(ConfigManager.ORG_NAME_KEY, undefined);
+            await state.update(ConfigManager.PROJECT_NAME_KEY, undefined);
+        }
         // Reset the client's internal config so providers won't attempt API calls
         await this.client.initialize('', '');
     }
@@ -74,109 +157,59 @@ export class ConfigManager {
      */
     async promptForConfiguration(): Promise<boolean> {
         try {
-            // Automatically discover organizations
-            let organizations: Organization[] = [];
-
-            try {
-                organizations = await vscode.window.withProgress(
-                    {
-                        location: vscode.ProgressLocation.Notification,
-                        title: 'Discovering your Azure DevOps organizations...',
-                        cancellable: false
-                    },
-                    async () => {
-                        return await this.client.getOrganizations();
-                    }
-                );
-            } catch (error: any) {
-                // Auto-discovery failed
-                const errorMsg = error.message || 'Unknown error';
-                vscode.window.showErrorMessage(
-                    `Failed to discover organizations: ${errorMsg}. Please make sure you have access to at least one Azure DevOps organization.`
+            if (this.getSource() === 'settings') {
+                const action = await vscode.window.showInformationMessage(
+                    'The organization and project for this workspace are set by the azurePipelines.organizationUrl and azurePipelines.project settings.',
+                    'Open Settings'
                 );
+                if (action === 'Open Settings') {
+                    vscode.commands.executeCommand('workbench.action.openWorkspaceSettings', 'azurePipelines.organizationUrl');
+                }
                 return false;
             }
 
-            if (!organizations || organizations.length === 0) {
-                vscode.window.showWarningMessage(
-                    'No Azure DevOps organizations found. Please make sure you have access to at least one organization.'
+            // Offer to go back to the git remote after a manual pick in this workspace
+            if (this.detectedRemote && this.getSource() === 'workspace') {
+                const choice = await vscode.window.showQuickPick(
+                    [
+                        {
+                            label: `$(git-branch) Use git remote: ${this.detectedRemote.organizationName} / ${this.detectedRemote.projectName}`,
+                            useRemote: true
+                        },
+                        {
+                            label: '$(organization) Choose another organization and project...',
+                            useRemote: false
+                        }
+                    ],
+                    { placeHolder: 'Select organization and project for this workspace', ignoreFocusOut: true }
                 );
-                return false;
-            }
 
-            // Show discovered organizations
-            const orgItems = organizations.map(org => ({
-                label: org.accountName,
-                description: org.accountUri,
-                detail: `Select this organization`,
-                org
-            }));
-
-            const selectedOrg = await vscode.window.showQuickPick(orgItems, {
-                placeHolder: `Select an organization (found ${organizations.length})`,
-                ignoreFocusOut: true,
-                matchOnDescription: true
-            });
-
-            if (!selectedOrg) {
-                return false;
-            }
+                if (!choice) {
+                    return false;
+                }
 
-            const selectedOrgUrl = selectedOrg.org.accountUri;
-            const selectedOrgName = selectedOrg.org.accountName;
-
-            let projects: Project[];
-            try {
-                projects = await vscode.window.withProgress(
-                    {
-                        location: vscode.ProgressLocation.Notification,
-                        title: `Loading projects from ${selectedOrgName}...`,
-                        cancellable: false
-                    },
-                    async () => {
-                        return await this.client.getProjects(selectedOrgUrl);
-                    }
-                );
-            } catch (error) {
-                vscode.window.showErrorMessage(
-                    `Cannot access organization "${selectedOrgName}". Please verify the name and your permissions.`
-                );
-                return false;
+                if (choice.useRemote) {
+                    await this.context.workspaceState.update(ConfigManager.ORG_URL_KEY, undefined);
+                    await this.context.workspaceState.update(ConfigManager.ORG_NAME_KEY, undefined);
+                    await this.context.workspaceState.update(ConfigManager.PROJECT_NAME_KEY, undefined);
+                    await this.client.initialize(this.detectedRemote.organizationUrl, this.detectedRemote.projectName);
+                    return true;
+                }
             }
 
-            if (!projects || projects.length === 0) {
-                vscode.window.showErrorMessage(
-                    `No projects found in organization "${selectedOrgName}". You may not have access to any projects.`
-                );
+            const picked = await this.pickProject();
+            if (!picked) {
                 return false;
             }
 
-            // Save organization
-            await this.setOrganization(selectedOrgUrl, selectedOrgName);
-
-            // Let user select project
-            const projectItems = projects.map(project => ({
-                label: project.name,
-                description: project.description,
-                project
-            }));
-
-            const selectedProject = await vscode.window.showQuickPick(projectItems, {
-                placeHolder: 'Select a project',
-                ignoreFocusOut: true
-            });
-
-            if (!selectedProject) {
-                return false;
-            }
-
-            await this.setProject(selectedProject.project.name);
+            await this.setOrganization(picked.organizationUrl, picked.organizationName);
+            await this.setProject(picked.projectName);
 
             // Initialize the API client with the selected configuration
-            await this.client.initialize(selectedOrgUrl, selectedProject.project.name);
+            await this.client.initialize(picked.organizationUrl, picked.projectName);
 
             vscode.window.showInformationMessage(
-                `Configured: ${selectedOrgName} / ${selectedProject.project.name}`
+                `Configured: ${picked.organizationName} / ${picked.projectName}`
             );
 
             return true;
@@ -187,10 +220,116 @@ export class ConfigManager {
         }
     }
 
+    /**
+     * Discover organizations and let the user pick an organization and project
+     */
+    async pickProject(): Promise<ProjectScope | undefined> {
+        // Automatically discover organizations
+        let organizations: Organization[] = [];
+
+        try {
+            organizations = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Discovering your Azure DevOps organizations...',
+                    cancellable: false
+                },
+                async () => {
+                    return await this.client.getOrganizations();
+                }
+            );
+        } catch (error: any) {
+            // Auto-discovery failed
+            const errorMsg = error.message || 'Unknown error';
+            vscode.window.showErrorMessage(
+                `Failed to discover organizations: ${errorMsg}. Please make sure you have access to at least one Azure DevOps organization.`
+            );
+            return undefined;
+        }
+
+        if (!organizations || organizations.length === 0) {
+            vscode.window.showWarningMessage(
+                'No Azure DevOps organizations found. Please make sure you have access to at least one organization.'
+            );
+            return undefined;
+        }
+
+        // Show discovered organizations
+        const orgItems = organizations.map(org => ({
+            label: org.accountName,
+            description: org.accountUri,
+            detail: `Select this organization`,
+            org
+        }));
+
+        const selectedOrg = await vscode.window.showQuickPick(orgItems, {
+            placeHolder: `Select an organization (found ${organizations.length})`,
+            ignoreFocusOut: true,
+            matchOnDescription: true
+        });
+
+        if (!selectedOrg) {
+            return undefined;
+        }
+
+        const selectedOrgUrl = selectedOrg.org.accountUri;
+        const selectedOrgName = selectedOrg.org.accountName;
+
+        let projects: Project[];
+        try {
+            projects = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Loading projects from ${selectedOrgName}...`,
+                    cancellable: false
+                },
+                async () => {
+                    return await this.client.getProjects(selectedOrgUrl);
+                }
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Cannot access organization "${selectedOrgName}". Please verify the name and your permissions.`
+            );
+            return undefined;
+        }
+
+        if (!projects || projects.length === 0) {
+            vscode.window.showErrorMessage(
+                `No projects found in organization "${selectedOrgName}". You may not have access to any projects.`
+            );
+            return undefined;
+        }
+
+        // Let user select project
+        const projectItems = projects.map(project => ({
+            label: project.name,
+            description: project.description,
+            project
+        }));
+
+        const selectedProject = await vscode.window.showQuickPick(projectItems, {
+            placeHolder: 'Select a project',
+            ignoreFocusOut: true
+        });
+
+        if (!selectedProject) {
+            return undefined;
+        }
+
+        return {
+            organizationUrl: selectedOrgUrl,
+            organizationName: selectedOrgName,
+            projectName: selectedProject.project.name
+        };
+    }
+
     /**
      * Initialize API client with stored configuration
      */
     async initializeClient(): Promise<boolean> {
+        await this.detectFromWorkspace();
+
         const orgUrl = this.getOrganizationUrl();
         const projectName = this.getProjectName();
 
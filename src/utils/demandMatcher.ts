@@ -0,0 +1,102 @@
+import { Agent } from '../models/types';
+
+/**
+ * A job demand, e.g. "npm" (exists), "java -equals 11" or "Agent.Version -gtVersion 2.163.1"
+ */
+export interface Demand {
+    name: string;
+    operator: 'exists' | 'equals' | 'gtVersion';
+    value?: string;
+}
+
+export interface DemandResult {
+    demand: Demand;
+    satisfied: boolean;
+    actual?: string;         // The agent's capability value, when it has the capability
+}
+
+const DEMAND_PATTERN = /^(\S+)(?:\s+-(equals|gtVersion)\s+(.+))?$/i;
+
+/**
+ * Parse a demand string from a job request; undefined for syntax this doesn't evaluate
+ */
+export function parseDemand(raw: string): Demand | undefined {
+    const match = DEMAND_PATTERN.exec(raw.trim());
+    if (!match) {
+        return undefined;
+    }
+
+    const [, name, operator, value] = match;
+    if (!operator) {
+        return { name, operator: 'exists' };
+    }
+    return {
+        name,
+        operator: operator.toLowerCase() === 'equals' ? 'equals' : 'gtVersion',
+        value: value.trim()
+    };
+}
+
+/**
+ * Look up a capability case-insensitively; user capabilities override system ones like on the server
+ */
+export function getCapability(agent: Agent, name: string): string | undefined {
+    const key = name.toLowerCase();
+    for (const capabilities of [agent.userCapabilities, agent.systemCapabilities]) {
+        for (const [capability, value] of Object.entries(capabilities || {})) {
+            if (capability.toLowerCase() === key) {
+                return value;
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Evaluate the demands of a job against an agent's capabilities
+ */
+export function matchDemands(demands: string[], agent: Agent): DemandResult[] {
+    const results: DemandResult[] = [];
+    for (const raw of demands) {
+        const demand = parseDemand(raw);
+        if (!demand) {
+            continue;
+        }
+
+        const actual = getCapability(agent, demand.name);
+        let satisfied = actual !== undefined;
+        if (satisfied && demand.operator === 'equals') {
+            satisfied = actual!.toLowerCase() === (demand.value || '').toLowerCase();
+        } else if (satisfied && demand.operator === 'gtVersion') {
+            satisfied = compareVersions(actual!, demand.value || '') >= 0;
+        }
+        results.push({ demand, satisfied, actual });
+    }
+    return results;
+}
+
+/**
+ * Format a demand for display, e.g. "java = 11"
+ */
+export function formatDemand(demand: Demand): string {
+    switch (demand.operator) {
+        case 'equals':
+            return `${demand.name} = ${demand.value}`;
+        case 'gtVersion':
+            return `${demand.name} ≥ ${demand.value}`;
+        default:
+            return `${demand.name} exists`;
+    }
+}
+
+function compareVersions(a: string, b: string): number {
+    const left = a.split('.').map(part => parseInt(part, 10) || 0);
+    const right = b.split('.').map(part => parseInt(part, 10) || 0);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const diff = (left[i] || 0) - (right[i] || 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+    return 0;
+}
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+/**
+ * Azure DevOps location parsed from a git remote URL
+ */
+export interface AzureDevOpsRemote {
+    organizationUrl: string;
+    organizationName: string;
+    projectName: string;
+    repositoryName: string;
+}
+
+/**
+ * Parse an Azure Repos remote URL
+ * Supports:
+ *   https://dev.azure.com/{org}/{project}/_git/{repo} (optionally with {user}@)
+ *   https://{org}.visualstudio.com/[DefaultCollection/]{project}/_git/{repo}
+ *   git@ssh.dev.azure.com:v3/{org}/{project}/{repo}
+ *   {org}@vs-ssh.visualstudio.com:v3/{org}/{project}/{repo}
+ *   https://{server}/{collectionPath}/{project}/_git/{repo} (Azure DevOps Server)
+ */
+export function parseAzureDevOpsRemote(remoteUrl: string): AzureDevOpsRemote | undefined {
+    const url = remoteUrl.trim();
+
+    const ssh = url.match(/^(?:ssh:\/\/)?[^@]+@(ssh\.dev\.azure\.com|vs-ssh\.visualstudio\.com)(?::22)?[:/]v3\/([^/]+)\/([^/]+)\/([^/]+?)\/?$/i);
+    if (ssh) {
+        const [, host, org, project, repo] = ssh;
+        const organizationName = decode(org);
+        return {
+            organizationUrl: host.toLowerCase() === 'ssh.dev.azure.com'
+                ? `https://dev.azure.com/${org}`
+                : `https://${org}.visualstudio.com`,
+            organizationName,
+            projectName: decode(project),
+            repositoryName: decode(repo)
+        };
+    }
+
+    const http = url.match(/^(https?):\/\/(?:[^@/]+@)?([^/]+)\/(.*?)\/?$/i);
+    if (!http) {
+        return undefined;
+    }
+
+    const [, scheme, host, path] = http;
+    const segments = path.split('/').filter(Boolean);
+    const gitIndex = segments.indexOf('_git');
+    // Skip the _optimized/_full markers some clone URLs put before the repo name
+    const repoSegment = segments.slice(gitIndex + 1).find(segment => segment !== '_optimized' && segment !== '_full');
+    if (gitIndex < 0 || !repoSegment) {
+        return undefined;
+    }
+
+    const repositoryName = decode(repoSegment);
+    const before = segments.slice(0, gitIndex);
+
+    if (/^dev\.azure\.com$/i.test(host)) {
+        // {org}/{project}/_git/{repo}, or {org}/_git/{repo} when the repo shares the project name
+        if (before.length === 0) {
+            return undefined;
+        }
+        const org = before[0];
+        return {
+            organizationUrl: `https://dev.azure.com/${org}`,
+            organizationName: decode(org),
+            projectName: before.length > 1 ? decode(before[1]) : repositoryName,
+            repositoryName
+        };
+    }
+
+    const legacy = host.match(/^([^.]+)\.visualstudio\.com$/i);
+    if (legacy) {
+        const org = legacy[1];
+        const projectSegments = before.filter(segment => segment.toLowerCase() !== 'defaultcollection');
+        return {
+            organizationUrl: `https://${org}.visualstudio.com`,
+            organizationName: decode(org),
+            projectName: projectSegments.length > 0 ? decode(projectSegments[projectSegments.length - 1]) : repositoryName,
+            repositoryName
+        };
+    }
+
+    // Azure DevOps Server: the segment before _git is the project, everything before that is the collection
+    if (before.length < 2) {
+        return undefined;
+    }
+    const collectionPath = before.slice(0, -1).join('/');
+    return {
+        organizationUrl: `${scheme.toLowerCase()}://${host}/${collectionPath}`,
+        organizationName: decode(before[before.length - 2]),
+        projectName: decode(before[before.length - 1]),
+        repositoryName
+    };
+}
+
+/**
+ * GitHub repository parsed from a git remote URL (https or ssh)
+ */
+export function parseGitHubRemote(remoteUrl: string): { owner: string; repo: string } | undefined {
+    const match = remoteUrl.trim().match(/github\.com[:/]([^/]+)\/([^/]+?)(?:\.git)?\/?$/i);
+    return match ? { owner: match[1], repo: match[2] } : undefined;
+}
+
+/**
+ * Find the Azure DevOps location of the open workspace folders' git remotes
+ * Prefers "origin", and the first workspace folder that has an Azure Repos remote
+ */
+export async function detectWorkspaceRemote(): Promise<AzureDevOpsRemote | undefined> {
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        if (folder.uri.scheme !== 'file') {
+            continue;
+        }
+
+        const remotes = await getRemoteUrls(folder.uri.fsPath);
+        const ordered = [
+            ...remotes.filter(remote => remote.name === 'origin'),
+            ...remotes.filter(remote => remote.name !== 'origin')
+        ];
+
+        for (const remote of ordered) {
+            const parsed = parseAzureDevOpsRemote(remote.url);
+            if (parsed) {
+                return parsed;
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * List remote fetch URLs of the git repository containing the folder
+ */
+export function getRemoteUrls(cwd: string): Promise<Array<{ name: string; url: string }>> {
+    return new Promise(resolve => {
+        execFile('git', ['config', '--get-regexp', '^remote\\..*\\.url$'], { cwd, timeout: 5000 }, (error, stdout) => {
+            if (error) {
+                // Not a git repository, no remotes, or git isn't installed
+                resolve([]);
+                return;
+            }
+
+            const remotes = stdout.split(/\r?\n/)
+                .map(line => line.match(/^remote\.(.+)\.url\s+(.+)$/))
+                .filter((match): match is RegExpMatchArray => !!match)
+                .map(match => ({ name: match[1], url: match[2].trim() }));
+            resolve(remotes);
+        });
+    });
+}
+
+/**
+ * A commit from the local git history
+ */
+export interface GitCommit {
+    hash: string;
+    authorName: string;
+    authorDate: Date;
+    subject: string;
+}
+
+/**
+ * Most recent commits that touched a file, newest first
+ */
+export function getFileHistory(filePath: string, maxCount: number): Promise<GitCommit[]> {
+    const args = ['log', '--follow', `--max-count=${maxCount}`, '--format=%H%x1f%an%x1f%at%x1f%s', '--', path.basename(filePath)];
+    return new Promise(resolve => {
+        execFile('git', args, { cwd: path.dirname(filePath), timeout: 10000 }, (error, stdout) => {
+            if (error) {
+                // Not a git repository, untracked file, or git isn't installed
+                resolve([]);
+                return;
+            }
+
+            const commits = stdout.split(/\r?\n/)
+                .map(line => line.split('\x1f'))
+                .filter(fields => fields.length === 4)
+                .map(([hash, authorName, timestamp, subject]) => ({
+                    hash,
+                    authorName,
+                    authorDate: new Date(Number(timestamp) * 1000),
+                    subject
+                }));
+            resolve(commits);
+        });
+    });
+}
+
+function decode(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
@@ -0,0 +1,210 @@
+/**
+ * Parsing of the Azure Pipelines logging syntax: timestamps, ##[section]/##[group] markers,
+ * ##[error]/##[warning]/##[command] lines, ##vso[...] commands and ANSI colors
+ */
+
+export type LogLineKind =
+    'section' | 'groupStart' | 'groupEnd' | 'error' | 'warning' | 'command' | 'debug' | 'vso' | 'plain';
+
+export interface ParsedLogLine {
+    kind: LogLineKind;
+    timestamp?: Date;
+    text: string;            // Without the timestamp and the ##[...] marker; may still contain ANSI codes
+}
+
+// Agents prefix each line with an ISO timestamp, e.g. "2024-05-01T10:15:42.1234567Z "
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z)\s?/;
+const MARKER_PATTERN = /^##\[(section|group|endgroup|error|warning|command|debug)\]/i;
+const VSO_PATTERN = /^##vso\[/i;
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[([\d;]*)([A-Za-z])/g;
+
+const MARKER_KINDS: Record<string, LogLineKind> = {
+    section: 'section',
+    group: 'groupStart',
+    endgroup: 'groupEnd',
+    error: 'error',
+    warning: 'warning',
+    command: 'command',
+    debug: 'debug'
+};
+
+/**
+ * Split a raw log line into its timestamp, kind and text
+ */
+export function parseLogLine(raw: string): ParsedLogLine {
+    let text = raw.replace(/\r$/, '');
+    let timestamp: Date | undefined;
+
+    const time = TIMESTAMP_PATTERN.exec(text);
+    if (time) {
+        timestamp = new Date(time[1]);
+        text = text.substring(time[0].length);
+    }
+
+    const marker = MARKER_PATTERN.exec(text);
+    if (marker) {
+        return { kind: MARKER_KINDS[marker[1].toLowerCase()], timestamp, text: text.substring(marker[0].length) };
+    }
+
+    if (VSO_PATTERN.test(text)) {
+        return { kind: 'vso', timestamp, text };
+    }
+
+    return { kind: 'plain', timestamp, text };
+}
+
+/**
+ * Remove the agent's timestamp prefix from a line
+ */
+export function stripTimestamp(line: string): string {
+    return line.replace(TIMESTAMP_PATTERN, '');
+}
+
+/**
+ * Remove ANSI escape sequences, e.g. for search or diagnostics
+ */
+export function stripAnsi(text: string): string {
+    return text.replace(ANSI_PATTERN, '');
+}
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+const ANSI_COLORS = ['Black', 'Red', 'Green', 'Yellow', 'Blue', 'Magenta', 'Cyan', 'White'];
+
+interface AnsiStyle {
+    foreground?: string;
+    background?: string;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+}
+
+/**
+ * Convert text with ANSI SGR codes to escaped HTML, using the terminal theme colors
+ */
+export function ansiToHtml(text: string): string {
+    let html = '';
+    let style: AnsiStyle = {};
+    let lastIndex = 0;
+
+    const flush = (segment: string) => {
+        if (!segment) {
+            return;
+        }
+        const css = toCss(style);
+        html += css ? `<span style="${css}">${escapeHtml(segment)}</span>` : escapeHtml(segment);
+    };
+
+    ANSI_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = ANSI_PATTERN.exec(text)) !== null) {
+        flush(text.substring(lastIndex, match.index));
+        lastIndex = ANSI_PATTERN.lastIndex;
+        // Only SGR (color/style) sequences are rendered; cursor movement etc. is dropped
+        if (match[2] === 'm') {
+            style = applySgr(style, match[1]);
+        }
+    }
+    flush(text.substring(lastIndex));
+
+    return html;
+}
+
+function applySgr(current: AnsiStyle, params: string): AnsiStyle {
+    const codes = params === '' ? [0] : params.split(';').map(code => parseInt(code, 10) || 0);
+    let style = { ...current };
+
+    for (let i = 0; i < codes.length; i++) {
+        const code = codes[i];
+        if (code === 0) {
+            style = {};
+        } else if (code === 1) {
+            style.bold = true;
+        } else if (code === 3) {
+            style.italic = true;
+        } else if (code === 4) {
+            style.underline = true;
+        } else if (code === 22) {
+            style.bold = false;
+        } else if (code === 23) {
+            style.italic = false;
+        } else if (code === 24) {
+            style.underline = false;
+        } else if (code >= 30 && code <= 37) {
+            style.foreground = themeColor(code - 30, false);
+        } else if (code >= 90 && code <= 97) {
+            style.foreground = themeColor(code - 90, true);
+        } else if (code >= 40 && code <= 47) {
+            style.background = themeColor(code - 40, false);
+        } else if (code >= 100 && code <= 107) {
+            style.background = themeColor(code - 100, true);
+        } else if (code === 39) {
+            style.foreground = undefined;
+        } else if (code === 49) {
+            style.background = undefined;
+        } else if (code === 38 || code === 48) {
+            // Extended colors: 5;n (256 colors) or 2;r;g;b
+            let color: string | undefined;
+            if (codes[i + 1] === 5) {
+                color = color256(codes[i + 2] || 0);
+                i += 2;
+            } else if (codes[i + 1] === 2) {
+                color = `rgb(${codes[i + 2] || 0}, ${codes[i + 3] || 0}, ${codes[i + 4] || 0})`;
+                i += 4;
+            }
+            if (code === 38) {
+                style.foreground = color;
+            } else {
+                style.background = color;
+            }
+        }
+    }
+    return style;
+}
+
+function themeColor(index: number, bright: boolean): string {
+    return `var(--vscode-terminal-ansi${bright ? 'Bright' : ''}${ANSI_COLORS[index]})`;
+}
+
+function color256(index: number): string {
+    if (index < 8) {
+        return themeColor(index, false);
+    }
+    if (index < 16) {
+        return themeColor(index - 8, true);
+    }
+    if (index < 232) {
+        const value = index - 16;
+        const level = (n: number) => (n === 0 ? 0 : 55 + n * 40);
+        return `rgb(${level(Math.floor(value / 36))}, ${level(Math.floor(value / 6) % 6)}, ${level(value % 6)})`;
+    }
+    const gray = 8 + (index - 232) * 10;
+    return `rgb(${gray}, ${gray}, ${gray})`;
+}
+
+function toCss(style: AnsiStyle): string {
+    const css: string[] = [];
+    if (style.foreground) {
+        css.push(`color: ${style.foreground}`);
+    }
+    if (style.background) {
+        css.push(`background: ${style.background}`);
+    }
+    if (style.bold) {
+        css.push('font-weight: bold');
+    }
+    if (style.italic) {
+        css.push('font-style: italic');
+    }
+    if (style.underline) {
+        css.push('text-decoration: underline');
+    }
+    return css.join('; ');
+}
@@ -0,0 +1,76 @@
+import { AzureDevOpsClient } from '../api/azureDevOpsClient';
+import { PipelineRun, TimelineRecord } from '../models/types';
+import { stripAnsi, stripTimestamp } from './logParser';
+
+/**
+ * A log of a run to search, with the stage, job and task it belongs to
+ */
+export interface SearchableLog {
+    run: PipelineRun;
+    logId: number;
+    path: string[];          // e.g. ['Build', 'Linux', 'npm test']; ['Log 3'] for logs outside the timeline
+}
+
+export interface LogSearchMatch {
+    line: number;            // 1-based, as in the log document
+    text: string;            // Without the timestamp and ANSI codes
+    start: number;           // Offset of the first match in text
+    length: number;
+}
+
+/**
+ * Logs of a run in the order they were written. Job logs repeat the logs of their tasks,
+ * so only task logs and the logs outside the timeline (e.g. the run's setup) are kept.
+ */
+export async function getSearchableLogs(client: AzureDevOpsClient, run: PipelineRun): Promise<SearchableLog[]> {
+    const [logs, timeline] = await Promise.all([
+        client.getRunLogs(run.id),
+        client.getRunTimeline(run.id).catch(() => undefined)
+    ]);
+    const records: TimelineRecord[] = timeline?.records || [];
+    const byId = new Map(records.map(record => [record.id, record]));
+    const recordsByLog = new Map(records.filter(record => record.log?.id).map(record => [record.log!.id, record]));
+
+    return logs
+        .filter(log => !recordsByLog.has(log.id) || recordsByLog.get(log.id)!.type === 'Task')
+        .sort((a, b) => a.id - b.id)
+        .map(log => {
+            const record = recordsByLog.get(log.id);
+            return { run, logId: log.id, path: record ? recordPath(record, byId) : [`Log ${log.id}`] };
+        });
+}
+
+/**
+ * Stage, job and task names from the top down to a record
+ */
+function recordPath(record: TimelineRecord, byId: Map<string, TimelineRecord>): string[] {
+    const path: string[] = [];
+    let current: TimelineRecord | undefined = record;
+    while (current) {
+        if (current.type === 'Stage' || current.type === 'Job' || current.type === 'Task') {
+            path.unshift(current.name);
+        }
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return path;
+}
+
+/**
+ * Lines of a log matching the pattern, up to limit
+ */
+export function findMatches(lines: string[], pattern: RegExp, limit: number): LogSearchMatch[] {
+    const matches: LogSearchMatch[] = [];
+    // Global or sticky flags would make test() and exec() stateful across lines
+    const regex = new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+
+    for (let i = 0; i < lines.length && matches.length < limit; i++) {
+        // As shown in the log document, which keeps the ##[...] markers
+        const text = stripAnsi(stripTimestamp(lines[i].replace(/\r$/, '')));
+        const match = regex.exec(text);
+        if (match) {
+            matches.push({ line: i + 1, text, start: match.index, length: match[0].length });
+        }
+    }
+    return matches;
+}
+
@@ -0,0 +1,96 @@
+/**
+ * Recognizes compiler, linter and test errors with a file and line in build log lines
+ */
+export interface ParsedProblem {
+    file: string;            // As written in the log, e.g. /home/vsts/work/1/s/src/app.ts or src\\app.cs
+    line: number;            // 1-based
+    column?: number;         // 1-based
+    severity: 'error' | 'warning';
+    message: string;
+    code?: string;
+}
+
+interface LinePattern {
+    regex: RegExp;
+    toProblem(match: RegExpExecArray): ParsedProblem;
+}
+
+const severityOf = (value: string): 'error' | 'warning' =>
+    value.toLowerCase().startsWith('warn') ? 'warning' : 'error';
+
+const PATTERNS: LinePattern[] = [
+    // tsc, msbuild, dotnet: src/app.ts(12,5): error TS2322: ... / App.cs(3,1): warning CS0168: ... [App.csproj]
+    {
+        regex: /^(.+?)\((\d+)(?:,(\d+))?(?:,\d+,\d+)?\)\s*:\s*(error|warning)\s*([A-Za-z]+\d+)?\s*:\s*(.*?)(?:\s+\[[^\]]+\])?$/i,
+        toProblem: m => ({ file: m[1], line: Number(m[2]), column: m[3] ? Number(m[3]) : undefined, severity: severityOf(m[4]), code: m[5], message: m[6] })
+    },
+    // tsc --pretty: src/app.ts:12:5 - error TS2322: ...
+    {
+        regex: /^(.+?):(\d+):(\d+)\s+-\s+(error|warning)\s+(TS\d+):\s*(.*)$/,
+        toProblem: m => ({ file: m[1], line: Number(m[2]), column: Number(m[3]), severity: severityOf(m[4]), code: m[5], message: m[6] })
+    },
+    // gcc, clang, eslint -f unix: src/main.c:12:5: error: ... / fatal error: ...
+    {
+        regex: /^(.+?):(\d+):(\d+):\s+(?:fatal\s+)?(error|warning):\s+(.*)$/i,
+        toProblem: m => ({ file: m[1], line: Number(m[2]), column: Number(m[3]), severity: severityOf(m[4]), message: m[5] })
+    },
+    // eslint -f compact: /path/app.js: line 12, col 5, Error - ... (no-unused-vars)
+    {
+        regex: /^(.+?): line (\d+), col (\d+), (Error|Warning) - (.*?)(?: \(([\w/@-]+)\))?$/,
+        toProblem: m => ({ file: m[1], line: Number(m[2]), column: Number(m[3]), severity: severityOf(m[4]), message: m[5], code: m[6] })
+    },
+    // pytest: tests/test_app.py:42: AssertionError
+    {
+        regex: /^(.+?\.py):(\d+):\s+(.*)$/,
+        toProblem: m => ({ file: m[1], line: Number(m[2]), severity: 'error', message: m[3] })
+    }
+];
+
+// eslint's default (stylish) format lists the file alone on a line, then indented problems
+const STYLISH_FILE = /^((?:[A-Za-z]:)?[\\/][^:]*\.\w+)$/;
+const STYLISH_PROBLEM = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}([\w/@-]+))?$/;
+
+/**
+ * Matches problems line by line; keeps the state needed for multi-line formats, so use one
+ * matcher per log
+ */
+export class ProblemMatcher {
+    private stylishFile?: string;
+
+    match(text: string): ParsedProblem | undefined {
+        const line = text.trimEnd();
+        if (!line.trim()) {
+            this.stylishFile = undefined;
+            return undefined;
+        }
+
+        if (this.stylishFile) {
+            const problem = STYLISH_PROBLEM.exec(line);
+            if (problem) {
+                return {
+                    file: this.stylishFile,
+                    line: Number(problem[1]),
+                    column: Number(problem[2]),
+                    severity: severityOf(problem[3]),
+                    message: problem[4],
+                    code: problem[5]
+                };
+            }
+        }
+
+        const file = STYLISH_FILE.exec(line.trim());
+        if (file) {
+            this.stylishFile = file[1];
+            return undefined;
+        }
+
+        for (const pattern of PATTERNS) {
+            const match = pattern.regex.exec(line.trim());
+            if (match) {
+                const problem = pattern.toProblem(match);
+                return problem.line > 0 ? problem : undefined;
+            }
+        }
+        return undefined;
+    }
+}
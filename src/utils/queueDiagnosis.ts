@@ -0,0 +1,101 @@
+import { AzureDevOpsClient } from '../api/azureDevOpsClient';
+import { Agent, AgentJobRequest, AgentPool, AgentStatus, PipelineRun, ResourceUsage } from '../models/types';
+import { DemandResult, matchDemands } from './demandMatcher';
+
+export interface AgentMatch {
+    agent: Agent;
+    unmet: DemandResult[];
+}
+
+/**
+ * Why one job of a run is still waiting for an agent
+ */
+export interface QueuedJobDiagnosis {
+    pool: AgentPool;
+    request: AgentJobRequest;
+    position: number;        // 1-based position among the pool's unassigned requests
+    queueLength: number;
+    agents: AgentMatch[];    // Self-hosted pools only
+    usage?: ResourceUsage;
+    reasons: string[];
+}
+
+/**
+ * Find the run's job requests that haven't been assigned to an agent and explain why, by
+ * comparing their demands with each agent's capabilities and checking the parallel job limit
+ */
+export async function diagnoseQueuedRun(client: AzureDevOpsClient, run: PipelineRun): Promise<QueuedJobDiagnosis[]> {
+    const pools = await client.getAgentPools();
+
+    // Jobs usually run in the run's default pool; jobs that pick their own pool are found in the others
+    const defaultPoolId = run.queue?.pool?.id;
+    const ordered = [
+        ...pools.filter(pool => pool.id === defaultPoolId),
+        ...pools.filter(pool => pool.id !== defaultPoolId)
+    ];
+
+    const diagnoses: QueuedJobDiagnosis[] = [];
+    for (const pool of ordered) {
+        const pending = await client.getPendingJobRequests(pool.id).catch(() => [] as AgentJobRequest[]);
+        const queued = pending.filter(request => !request.assignTime);
+        const ours = queued.filter(request => Number(request.owner?.id) === run.id);
+        if (ours.length === 0) {
+            continue;
+        }
+
+        const agents = pool.isHosted ? [] : await client.getAgents(pool.id, true).catch(() => [] as Agent[]);
+        for (const request of ours) {
+            diagnoses.push(await diagnoseRequest(client, pool, request, queued, agents));
+        }
+
+        if (pool.id === defaultPoolId) {
+            break;
+        }
+    }
+    return diagnoses;
+}
+
+async function diagnoseRequest(
+    client: AzureDevOpsClient,
+    pool: AgentPool,
+    request: AgentJobRequest,
+    queued: AgentJobRequest[],
+    agents: Agent[]
+): Promise<QueuedJobDiagnosis> {
+    const position = queued.indexOf(request) + 1;
+    const matches: AgentMatch[] = agents.map(agent => ({
+        agent,
+        unmet: matchDemands(request.demands || [], agent).filter(result => !result.satisfied)
+    }));
+
+    const parallelismTag = request.data?.['ParallelismTag'] || 'Private';
+    const usage = await client.getResourceUsage(parallelismTag, pool.isHosted).catch(() => undefined);
+
+    const reasons: string[] = [];
+    if (usage && usage.resourceLimit.totalCount > 0 && usage.usedCount >= usage.resourceLimit.totalCount) {
+        reasons.push(
+            `All ${usage.resourceLimit.totalCount} ${pool.isHosted ? 'Microsoft-hosted' : 'self-hosted'} parallel job(s) ` +
+            `of the organization are in use.`
+        );
+    }
+
+    if (!pool.isHosted) {
+        const capable = matches.filter(match => match.unmet.length === 0);
+        const available = capable.filter(match => match.agent.enabled && match.agent.status === AgentStatus.Online);
+        if (agents.length === 0) {
+            reasons.push(`Pool ${pool.name} has no agents.`);
+        } else if (capable.length === 0) {
+            reasons.push(`No agent in ${pool.name} meets the job's demands.`);
+        } else if (available.length === 0) {
+            reasons.push(`The ${capable.length} agent(s) that meet the demands are offline or disabled.`);
+        } else if (available.every(match => !!match.agent.assignedRequest)) {
+            reasons.push(`All ${available.length} agent(s) that meet the demands are busy.`);
+        }
+    }
+
+    if (position > 1) {
+        reasons.push(`${position - 1} job(s) queued earlier in ${pool.name} are ahead of it.`);
+    }
+
+    return { pool, request, position, queueLength: queued.length, agents: matches, usage, reasons };
+}
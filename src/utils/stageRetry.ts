@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import { AzureDevOpsClient } from '../api/azureDevOpsClient';
+import { PipelineRun, ProjectScope, TimelineRecord } from '../models/types';
+import { ScopeManager } from '../services/scopeManager';
+
+/**
+ * Whether a stage can be retried in place: it finished without succeeding
+ */
+export function isRetryableStage(record: TimelineRecord): boolean {
+    const result = (record.result || '').toLowerCase();
+    return record.type === 'Stage' &&
+        (record.state || '').toLowerCase() === 'completed' &&
+        !!record.identifier &&
+        (result === 'failed' || result === 'canceled' || result === 'partiallysucceeded');
+}
+
+/**
+ * Stages of a timeline that have failed jobs to rerun
+ */
+export function getFailedStages(records: TimelineRecord[]): TimelineRecord[] {
+    return records.filter(record => isRetryableStage(record) && (record.result || '').toLowerCase() === 'failed');
+}
+
+/**
+ * Retry stages of a run on the same build through the build stages API, so the run
+ * keeps its artifacts and attempt history. Returns whether any stage was retried.
+ */
+export async function retryStages(
+    client: AzureDevOpsClient,
+    run: PipelineRun,
+    stages: TimelineRecord[],
+    forceRetryAllJobs: boolean = false
+): Promise<boolean> {
+    const failures: string[] = [];
+    const retried: TimelineRecord[] = [];
+
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: stages.length === 1
+                ? `Retrying stage ${stages[0].name} of run ${run.buildNumber}`
+                : `Retrying ${stages.length} stages of run ${run.buildNumber}`,
+            cancellable: false
+        },
+        async () => {
+            for (const stage of stages) {
+                try {
+                    await client.retryStage(run.id, stage.identifier!, forceRetryAllJobs);
+                    retried.push(stage);
+                } catch (error: any) {
+                    const message = error?.response?.data?.message || (error instanceof Error ? error.message : 'Unknown error');
+                    failures.push(`${stage.name}: ${message}`);
+                }
+            }
+        }
+    );
+
+    if (failures.length > 0) {
+        vscode.window.showErrorMessage(`Failed to retry ${failures.length === 1 ? 'stage' : 'stages'}: ${failures.join('; ')}`);
+    }
+    if (retried.length > 0) {
+        const attempts = retried.map(stage => `${stage.name} (attempt ${(stage.attempt || 1) + 1})`).join(', ');
+        vscode.window.showInformationMessage(`Retrying ${attempts} in run ${run.buildNumber}`);
+    }
+
+    return retried.length > 0;
+}
+
+/**
+ * Fetch a run again after a stage retry so it reports the new attempt as in progress,
+ * tagged with its project. Falls back to the given run when the reload fails.
+ */
+export async function reloadRetriedRun(
+    scopes: ScopeManager,
+    run: PipelineRun,
+    scope: ProjectScope | undefined = scopes.getScopeOf(run)
+): Promise<PipelineRun> {
+    try {
+        const client = scope ? scopes.getClient(scope) : scopes.clientFor(run);
+        const updated = await client.getRun(run.id);
+        if (scope) {
+            scopes.tag([updated], scope);
+        }
+        return updated;
+    } catch (error) {
+        console.error('Failed to reload retried run:', error);
+        return run;
+    }
+}
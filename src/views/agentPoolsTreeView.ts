@@ -0,0 +1,254 @@
+import * as vscode from 'vscode';
+import { Agent, AgentJobRequest, AgentPool, AgentStatus, ProjectScope } from '../models/types';
+import { OrganizationTreeItem, groupScopesByOrganization } from './scopeTreeItems';
+import { ScopeManager } from '../services/scopeManager';
+import { formatDurationBetween } from '../utils/formatDuration';
+
+type AgentPoolsTreeElement =
+    AgentPoolTreeItem | AgentPoolSectionTreeItem | AgentTreeItem | JobRequestTreeItem | OrganizationTreeItem;
+
+/**
+ * Tree item for an agent pool; agents are loaded when it is expanded
+ */
+export class AgentPoolTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly pool: AgentPool,
+        public readonly requests: AgentJobRequest[],
+        public readonly scope?: ProjectScope
+    ) {
+        super(pool.name, vscode.TreeItemCollapsibleState.Collapsed);
+
+        const queued = requests.filter(request => !request.assignTime).length;
+        const running = requests.length - queued;
+
+        this.description = [
+            pool.isHosted ? 'Microsoft-hosted' : `${pool.size} ${pool.size === 1 ? 'agent' : 'agents'}`,
+            `${running} running`,
+            queued > 0 ? `${queued} queued` : undefined
+        ].filter(Boolean).join(' · ');
+        this.tooltip = [
+            `${pool.name}${pool.isHosted ? ' (Microsoft-hosted)' : ''}`,
+            `Jobs: ${running} running, ${queued} queued`
+        ].join('\n');
+        this.contextValue = 'agentPool';
+        this.iconPath = new vscode.ThemeIcon(
+            'server',
+            queued > 0 ? new vscode.ThemeColor('charts.yellow') : undefined
+        );
+    }
+}
+
+/**
+ * "Agents" or "Queue" group under a pool
+ */
+export class AgentPoolSectionTreeItem extends vscode.TreeItem {
+    constructor(
+        label: string,
+        public readonly children: (AgentTreeItem | JobRequestTreeItem)[],
+        icon: string,
+        emptyText: string
+    ) {
+        super(
+            label,
+            children.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+        );
+
+        this.description = children.length > 0 ? String(children.length) : emptyText;
+        this.contextValue = 'agentPoolSection';
+        this.iconPath = new vscode.ThemeIcon(icon);
+    }
+}
+
+/**
+ * Tree item for a self-hosted agent
+ */
+export class AgentTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly agent: Agent,
+        public readonly pool: AgentPool,
+        public readonly scope?: ProjectScope
+    ) {
+        super(agent.name, vscode.TreeItemCollapsibleState.None);
+
+        const request = agent.assignedRequest;
+        const online = agent.status === AgentStatus.Online;
+        this.description = !agent.enabled
+            ? 'disabled'
+            : !online
+                ? 'offline'
+                : request ? `busy · ${describeRequest(request)}` : 'idle';
+        this.tooltip = [
+            `${agent.name} (${agent.enabled ? agent.status : 'disabled'})`,
+            `Version: ${agent.version}`,
+            agent.osDescription,
+            request ? `Running: ${describeRequest(request)}` : undefined,
+            request?.assignTime ? `Since: ${new Date(request.assignTime).toLocaleString()}` : undefined
+        ].filter(Boolean).join('\n');
+        this.contextValue = agent.enabled ? 'agent-enabled' : 'agent-disabled';
+        this.iconPath = !agent.enabled
+            ? new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('charts.gray'))
+            : !online
+                ? new vscode.ThemeIcon('debug-disconnect', new vscode.ThemeColor('charts.gray'))
+                : request
+                    ? new vscode.ThemeIcon('loading~spin', new vscode.ThemeColor('charts.blue'))
+                    : new vscode.ThemeIcon('vm-active', new vscode.ThemeColor('testing.iconPassed'));
+
+        if (request) {
+            this.command = {
+                command: 'azurePipelines.openJobRequestRun',
+                title: 'Open Run',
+                arguments: [this]
+            };
+        }
+    }
+}
+
+/**
+ * Tree item for a job request waiting for (or assigned to) an agent of the pool
+ */
+export class JobRequestTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly request: AgentJobRequest,
+        public readonly position: number,
+        public readonly scope?: ProjectScope
+    ) {
+        super(describeRequest(request), vscode.TreeItemCollapsibleState.None);
+
+        const waiting = request.queueTime ? `waiting ${formatDurationBetween(request.queueTime, new Date())}` : undefined;
+        this.description = request.assignTime
+            ? `running on ${request.reservedAgent?.name || 'an agent'}`
+            : [`#${position} in queue`, waiting].filter(Boolean).join(' · ');
+        this.tooltip = this.buildTooltip();
+        this.contextValue = 'jobRequest';
+        this.iconPath = request.assignTime
+            ? new vscode.ThemeIcon('loading~spin', new vscode.ThemeColor('charts.blue'))
+            : new vscode.ThemeIcon('clock', new vscode.ThemeColor('charts.yellow'));
+        this.command = {
+            command: 'azurePipelines.openJobRequestRun',
+            title: 'Open Run',
+            arguments: [this]
+        };
+    }
+
+    private buildTooltip(): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString('', true);
+        tooltip.appendMarkdown(`**${this.label}**\n\n`);
+        if (this.request.queueTime) {
+            tooltip.appendText(`Queued: ${new Date(this.request.queueTime).toLocaleString()}\n\n`);
+        }
+        const demands = this.request.demands || [];
+        if (demands.length > 0) {
+            tooltip.appendMarkdown('Demands:\n\n');
+            for (const demand of demands) {
+                tooltip.appendText(`• ${demand}\n`);
+            }
+        }
+        return tooltip;
+    }
+}
+
+function describeRequest(request: AgentJobRequest): string {
+    return `${request.definition?.name || 'Job'} #${request.owner?.name || request.owner?.id || request.requestId}`;
+}
+
+/**
+ * TreeView provider for the agent pools of each organization
+ */
+export class AgentPoolsTreeProvider implements vscode.TreeDataProvider<AgentPoolsTreeElement> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<AgentPoolsTreeElement | undefined | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(private scopes: ScopeManager) {}
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: AgentPoolsTreeElement): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: AgentPoolsTreeElement): Promise<AgentPoolsTreeElement[]> {
+        // Pools belong to the organization, so any of its projects can list them
+        if (element instanceof OrganizationTreeItem) {
+            return this.getPools(element.scopes[0]);
+        }
+
+        if (element instanceof AgentPoolTreeItem) {
+            return this.getPoolChildren(element);
+        }
+
+        if (element instanceof AgentPoolSectionTreeItem) {
+            return element.children;
+        }
+
+        if (element) {
+            return [];
+        }
+
+        const organizations = groupScopesByOrganization(this.scopes.getScopes());
+        if (organizations.length === 0) {
+            return [];
+        }
+
+        if (organizations.length === 1) {
+            return this.getPools(organizations[0].scopes[0]);
+        }
+
+        return organizations;
+    }
+
+    private async getPools(scope: ProjectScope): Promise<AgentPoolTreeItem[]> {
+        const client = this.scopes.getClient(scope);
+        try {
+            const pools = await client.getAgentPools();
+            // Only the pending requests are needed for the collapsed description; agents wait for expansion
+            return Promise.all((pools || [])
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(async pool => {
+                    const requests = await client.getPendingJobRequests(pool.id).catch(() => []);
+                    return new AgentPoolTreeItem(pool, requests, scope);
+                }));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load agent pools: ${error}`);
+            return [];
+        }
+    }
+
+    private async getPoolChildren(item: AgentPoolTreeItem): Promise<AgentPoolSectionTreeItem[]> {
+        const sections: AgentPoolSectionTreeItem[] = [];
+        if (!item.scope) {
+            return sections;
+        }
+
+        const client = this.scopes.getClient(item.scope);
+        const [agentList, requests] = await Promise.all([
+            item.pool.isHosted ? Promise.resolve([] as Agent[]) : client.getAgents(item.pool.id).catch(() => [] as Agent[]),
+            client.getPendingJobRequests(item.pool.id).catch(() => item.requests)
+        ]);
+
+        // Hosted pools don't list their agents
+        if (!item.pool.isHosted) {
+            const rank = (agent: Agent) => !agent.enabled ? 3 : agent.status !== AgentStatus.Online ? 2 : agent.assignedRequest ? 0 : 1;
+            const agents = [...agentList]
+                .sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name))
+                .map(agent => new AgentTreeItem(agent, item.pool, item.scope));
+            sections.push(new AgentPoolSectionTreeItem('Agents', agents, 'vm', 'none'));
+        }
+
+        // Requests are sorted oldest first, which is the order agents pick them up in
+        const queued = requests
+            .filter(request => !request.assignTime)
+            .map((request, index) => new JobRequestTreeItem(request, index + 1, item.scope));
+        sections.push(new AgentPoolSectionTreeItem('Queue', queued, 'list-ordered', 'no jobs waiting'));
+
+        if (item.pool.isHosted) {
+            const running = requests
+                .filter(request => !!request.assignTime)
+                .map((request, index) => new JobRequestTreeItem(request, index + 1, item.scope));
+            sections.push(new AgentPoolSectionTreeItem('Running', running, 'play-circle', 'none'));
+        }
+
+        return sections;
+    }
+}
@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import { ApprovalStatus, PipelineApproval, ProjectScope } from '../models/types';
+import { OrganizationTreeItem, ProjectTreeItem, groupScopesByOrganization } from './scopeTreeItems';
+import { ScopeManager } from '../services/scopeManager';
+import { formatTimeAgo } from '../utils/formatDuration';
+
+type ApprovalsTreeElement = ApprovalTreeItem | OrganizationTreeItem | ProjectTreeItem;
+
+/**
+ * Tree item for an approval waiting on the current user
+ */
+export class ApprovalTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly approval: PipelineApproval,
+        public readonly scope?: ProjectScope,
+        public readonly stageName?: string
+    ) {
+        super(
+            `${approval.pipeline?.name || 'Pipeline'} #${approval.pipeline?.owner?.name || approval.pipeline?.owner?.id || ''}`,
+            vscode.TreeItemCollapsibleState.None
+        );
+
+        this.description = [stageName, formatTimeAgo(approval.createdOn)].filter(Boolean).join(' · ');
+        this.tooltip = this.buildTooltip();
+        this.contextValue = 'approval';
+        this.iconPath = new vscode.ThemeIcon('person', new vscode.ThemeColor('charts.yellow'));
+        this.command = {
+            command: 'azurePipelines.openApprovalRun',
+            title: 'Open Run',
+            arguments: [this]
+        };
+    }
+
+    private buildTooltip(): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString('', true);
+        tooltip.appendMarkdown(`**${this.label}**${this.stageName ? ` — ${this.stageName}` : ''}\n\n`);
+        if (this.approval.instructions) {
+            tooltip.appendText(`${this.approval.instructions}\n\n`);
+        }
+
+        const steps = this.approval.steps || [];
+        if (steps.length > 0) {
+            const required = this.approval.minRequiredApprovers || steps.length;
+            tooltip.appendMarkdown(`Approvers (${required} of ${steps.length} required):\n\n`);
+            for (const step of steps) {
+                const icon = step.status === ApprovalStatus.Approved
+                    ? '$(check)'
+                    : step.status === ApprovalStatus.Rejected ? '$(close)' : '$(clock)';
+                const approver = step.actualApprover?.displayName || step.assignedApprover.displayName;
+                tooltip.appendMarkdown(`${icon} ${approver}${step.comment ? ` — "${step.comment}"` : ''}\n\n`);
+            }
+        }
+
+        tooltip.appendMarkdown(`Requested ${new Date(this.approval.createdOn).toLocaleString()}`);
+        return tooltip;
+    }
+}
+
+/**
+ * TreeView provider for approvals assigned to the signed-in user
+ */
+export class ApprovalsTreeProvider implements vscode.TreeDataProvider<ApprovalsTreeElement> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<ApprovalsTreeElement | undefined | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private treeView?: vscode.TreeView<ApprovalsTreeElement>;
+    // Pending approvals per scope from the last load, for the view badge
+    private counts: Map<string, number> = new Map();
+
+    constructor(private scopes: ScopeManager) {}
+
+    /**
+     * Attach the tree view so the view badge can count pending approvals
+     */
+    setTreeView(treeView: vscode.TreeView<ApprovalsTreeElement>): void {
+        this.treeView = treeView;
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: ApprovalsTreeElement): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: ApprovalsTreeElement): Promise<ApprovalsTreeElement[]> {
+        if (element instanceof OrganizationTreeItem) {
+            return element.scopes.map(scope => new ProjectTreeItem(scope, this.scopes.isPrimary(scope)));
+        }
+
+        if (element instanceof ProjectTreeItem) {
+            return this.getScopeChildren(element.scope);
+        }
+
+        if (element) {
+            return [];
+        }
+
+        const scopes = this.scopes.getScopes();
+        const shown = new Set(scopes.map(scope => ScopeManager.keyOf(scope)));
+        for (const key of Array.from(this.counts.keys())) {
+            if (!shown.has(key)) {
+                this.counts.delete(key);
+            }
+        }
+
+        if (scopes.length === 0) {
+            this.updateBadge();
+            return [];
+        }
+
+        if (scopes.length === 1) {
+            return this.getScopeChildren(scopes[0]);
+        }
+
+        return groupScopesByOrganization(scopes);
+    }
+
+    private async getScopeChildren(scope: ProjectScope): Promise<ApprovalTreeItem[]> {
+        const key = ScopeManager.keyOf(scope);
+        try {
+            const client = this.scopes.getClient(scope);
+            const userId = await client.getAuthenticatedUserId();
+            const approvals = (await client.getPendingApprovals(userId ? [userId] : undefined))
+                // Approvals needing several approvers stay pending after the user approved
+                .filter(approval => !approval.steps?.some(step =>
+                    step.actualApprover?.id === userId && step.status !== ApprovalStatus.Pending
+                ));
+
+            // Stage names come from the runs' timelines (the approval record id is the approval id)
+            const stageNames = new Map<string, string>();
+            const runIds = new Set(approvals.map(approval => Number(approval.pipeline?.owner?.id)).filter(Boolean));
+            await Promise.all(Array.from(runIds).map(async runId => {
+                try {
+                    for (const check of await client.getPendingChecks(runId)) {
+                        if (check.stageName) {
+                            stageNames.set(check.id, check.stageName);
+                        }
+                    }
+                } catch (error) {
+                    console.error(`Failed to load checks for run ${runId}:`, error);
+                }
+            }));
+
+            this.counts.set(key, approvals.length);
+            this.updateBadge();
+
+            return this.scopes.tag(approvals, scope)
+                .sort((a, b) => new Date(a.createdOn).getTime() - new Date(b.createdOn).getTime())
+                .map(approval => new ApprovalTreeItem(approval, scope, stageNames.get(approval.id)));
+        } catch (error) {
+            this.counts.delete(key);
+            this.updateBadge();
+            vscode.window.showErrorMessage(`Failed to load pending approvals: ${error}`);
+            return [];
+        }
+    }
+
+    private updateBadge(): void {
+        if (!this.treeView) {
+            return;
+        }
+
+        const pending = Array.from(this.counts.values()).reduce((sum, count) => sum + count, 0);
+        this.treeView.badge = pending > 0
+            ? { value: pending, tooltip: `${pending} approval(s) waiting for you` }
+            : undefined;
+        this.treeView.message = pending === 0 && this.scopes.getScopes().length > 0
+            ? 'No approvals are waiting for you.'
+            : undefined;
+    }
+}
@@ -0,0 +1,422 @@
+import * as vscode from 'vscode';
+import { PipelineRun } from '../models/types';
+import { ScopeManager } from '../services/scopeManager';
+import { RunWatcher } from '../services/runWatcher';
+import { getActiveIntervalMs } from '../services/refreshScheduler';
+import { LicenseManager } from '../services/licenseManager';
+import { RepositoryResolver, RepositoryTarget } from '../services/repositoryResolver';
+import { formatDurationBetween } from '../utils/formatDuration';
+
+/**
+ * Subset of the built-in git extension API (vscode.git, API version 1)
+ */
+interface GitRepository {
+    rootUri: vscode.Uri;
+    state: {
+        HEAD?: { name?: string };
+        remotes: Array<{ name: string; fetchUrl?: string; pushUrl?: string }>;
+        onDidChange: vscode.Event<void>;
+    };
+}
+
+interface GitAPI {
+    repositories: GitRepository[];
+    getRepository(uri: vscode.Uri): GitRepository | null;
+    onDidOpenRepository: vscode.Event<GitRepository>;
+    onDidCloseRepository: vscode.Event<GitRepository>;
+}
+
+/**
+ * The branch being tracked and where its runs come from
+ */
+interface BranchTarget extends RepositoryTarget {
+    branch: string;
+}
+
+/**
+ * Branch Status Bar
+ * Shows the latest run of every pipeline building the current git branch, with a spinner,
+ * pass/fail icon and duration. Follows branch switches through the git extension API.
+ */
+export class BranchStatusBar implements vscode.Disposable {
+    private item: vscode.StatusBarItem;
+    private git?: GitAPI;
+    private repositoryListeners: Map<string, vscode.Disposable> = new Map();
+    private disposables: vscode.Disposable[] = [];
+    private timer?: NodeJS.Timeout;
+    private lastKey?: string;
+    private target?: BranchTarget;
+    private latestRuns: PipelineRun[] = [];
+
+    constructor(
+        private scopes: ScopeManager,
+        private resolver: RepositoryResolver,
+        private runWatcher: RunWatcher,
+        private canRefresh: () => Promise<boolean>
+    ) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.item.command = 'azurePipelines.branchStatusActions';
+
+        this.disposables.push(
+            this.item,
+            vscode.window.onDidChangeActiveTextEditor(() => this.refreshIfBranchChanged()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('azurePipelines.branchStatusBar') ||
+                    e.affectsConfiguration('azurePipelines.autoRefreshInterval')) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    /**
+     * Connect to the git extension; the item stays hidden if it isn't available
+     */
+    async initialize(): Promise<void> {
+        try {
+            const extension = vscode.extensions.getExtension('vscode.git');
+            if (!extension) {
+                return;
+            }
+            const exports = extension.isActive ? extension.exports : await extension.activate();
+            this.git = exports.getAPI(1) as GitAPI;
+        } catch (error) {
+            console.error('Git extension is not available:', error);
+            return;
+        }
+
+        for (const repository of this.git.repositories) {
+            this.listenTo(repository);
+        }
+        this.disposables.push(
+            this.git.onDidOpenRepository(repository => {
+                this.listenTo(repository);
+                this.refreshIfBranchChanged();
+            }),
+            this.git.onDidCloseRepository(repository => {
+                const key = repository.rootUri.toString();
+                this.repositoryListeners.get(key)?.dispose();
+                this.repositoryListeners.delete(key);
+                this.refreshIfBranchChanged();
+            })
+        );
+
+        await this.refresh();
+    }
+
+    private listenTo(repository: GitRepository): void {
+        const key = repository.rootUri.toString();
+        if (!this.repositoryListeners.has(key)) {
+            // Fires for every working tree change, so only refresh when the branch or remote moved
+            this.repositoryListeners.set(key, repository.state.onDidChange(() => this.refreshIfBranchChanged()));
+        }
+    }
+
+    private refreshIfBranchChanged(): void {
+        const target = this.resolveTarget();
+        if (this.keyOf(target) !== this.lastKey) {
+            this.refresh();
+        }
+    }
+
+    private keyOf(target: BranchTarget | undefined): string | undefined {
+        return target
+            ? `${ScopeManager.keyOf(target.scope)}|${target.repository?.id || target.repositoryName}|${target.branch}`
+            : undefined;
+    }
+
+    /**
+     * Reload the latest runs of the current branch and reschedule polling
+     */
+    async refresh(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+
+        const target = this.resolveTarget();
+        this.lastKey = this.keyOf(target);
+        this.target = target;
+
+        const enabled = vscode.workspace.getConfiguration('azurePipelines').get<boolean>('branchStatusBar', true);
+        if (!enabled || !target || !(await this.canRefresh())) {
+            this.item.hide();
+            return;
+        }
+
+        try {
+            const client = this.scopes.getClient(target.scope);
+            const repository = await this.resolver.getRepository(target);
+            const runs = await client.getBranchRuns(target.branch, repository);
+
+            // Stale response: the branch changed while loading
+            if (this.keyOf(this.target) !== this.keyOf(target)) {
+                return;
+            }
+
+            // Latest run per pipeline, newest pipelines first
+            const latest = new Map<number, PipelineRun>();
+            for (const run of runs) {
+                const pipelineId = run.definition?.id ?? run.pipeline?.id;
+                if (pipelineId !== undefined && !latest.has(pipelineId)) {
+                    latest.set(pipelineId, run);
+                }
+            }
+            this.latestRuns = this.scopes.tag(Array.from(latest.values()), target.scope);
+            this.render(target);
+        } catch (error) {
+            console.error('Failed to load branch status:', error);
+            this.item.hide();
+        }
+
+        this.schedule();
+    }
+
+    private schedule(): void {
+        // Overlapping refreshes (branch switch during a poll) keep a single timer
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = undefined;
+
+        // 0 disables auto-refresh entirely, including while a run is in progress
+        const intervalSeconds = vscode.workspace.getConfiguration('azurePipelines').get<number>('autoRefreshInterval', 30);
+        const baseMs = Math.max(0, intervalSeconds) * 1000;
+        if (baseMs === 0) {
+            return;
+        }
+
+        const running = this.latestRuns.some(run => this.isRunning(run));
+        const delay = running ? getActiveIntervalMs(baseMs) : baseMs;
+        this.timer = setTimeout(() => this.refresh(), delay);
+    }
+
+    /**
+     * Find the repository and branch of the active editor's folder (or the first repository)
+     */
+    private resolveTarget(): BranchTarget | undefined {
+        if (!this.git || this.git.repositories.length === 0) {
+            return undefined;
+        }
+
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const repository = (activeUri && this.git.getRepository(activeUri)) || this.git.repositories[0];
+        const branch = repository.state.HEAD?.name;
+        if (!branch) {
+            // Detached HEAD
+            return undefined;
+        }
+
+        const remotes = repository.state.remotes.map(remote => ({
+            name: remote.name,
+            url: remote.fetchUrl || remote.pushUrl || ''
+        }));
+        const target = this.resolver.fromRemotes(remotes);
+        return target ? { ...target, branch } : undefined;
+    }
+
+    private render(target: BranchTarget): void {
+        if (this.latestRuns.length === 0) {
+            this.item.text = `$(circle-outline) No runs on ${target.branch}`;
+            this.item.tooltip = `No pipeline has run on ${target.branch} yet. Click to run a pipeline on this branch.`;
+            this.item.backgroundColor = undefined;
+            this.item.show();
+            return;
+        }
+
+        const headline = [...this.latestRuns].sort((a, b) => this.severity(b) - this.severity(a))[0];
+        const name = headline.definition?.name || headline.pipeline?.name || `#${headline.buildNumber}`;
+        const others = this.latestRuns.length > 1 ? ` +${this.latestRuns.length - 1}` : '';
+        const duration = this.getDuration(headline);
+
+        this.item.text = `${this.getIcon(headline)} ${name}${others}${duration ? ` ${duration}` : ''}`;
+        this.item.backgroundColor = String(headline.result || '').toLowerCase() === 'failed' && !this.isRunning(headline)
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : undefined;
+
+        const tooltip = new vscode.MarkdownString(`**${target.branch}**\n\n`, true);
+        for (const run of this.latestRuns) {
+            const runName = run.definition?.name || run.pipeline?.name || 'Pipeline';
+            const runDuration = this.getDuration(run);
+            tooltip.appendMarkdown(
+                `${this.getIcon(run)} ${runName} #${run.buildNumber} — ${this.describe(run)}${runDuration ? `, ${runDuration}` : ''}\n\n`
+            );
+        }
+        tooltip.appendMarkdown('Click to open a run or queue a new one on this branch');
+        this.item.tooltip = tooltip;
+        this.item.show();
+    }
+
+    /**
+     * Click action: open the latest run of a pipeline or queue a new run on the branch
+     */
+    async showActions(): Promise<void> {
+        const target = this.target;
+        if (!target) {
+            vscode.window.showInformationMessage('The current branch has no Azure Pipelines remote to track');
+            return;
+        }
+
+        const items: Array<vscode.QuickPickItem & { run?: PipelineRun; queue?: { id: number; name: string } }> = [];
+        for (const run of this.latestRuns) {
+            const name = run.definition?.name || run.pipeline?.name || 'Pipeline';
+            items.push({
+                label: `${this.getIcon(run)} ${name} #${run.buildNumber}`,
+                description: `${this.describe(run)}${this.getDuration(run) ? ` · ${this.getDuration(run)}` : ''}`,
+                detail: 'Open run details',
+                run
+            });
+        }
+
+        const pipelines = await this.getPipelinesForBranch(target);
+        if (pipelines.length > 0) {
+            items.push({ label: 'Queue a new run', kind: vscode.QuickPickItemKind.Separator });
+            for (const pipeline of pipelines) {
+                items.push({
+                    label: `$(play) Run ${pipeline.name}`,
+                    description: `on ${target.branch}`,
+                    queue: pipeline
+                });
+            }
+        }
+
+        if (items.length === 0) {
+            vscode.window.showInformationMessage(`No pipelines build this repository yet`);
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: `Pipelines for ${target.branch}` });
+        if (selected?.run) {
+            vscode.commands.executeCommand('azurePipelines.viewRunDetails', selected.run);
+        } else if (selected?.queue) {
+            await this.queueRun(target, selected.queue);
+        }
+    }
+
+    /**
+     * Pipelines to offer for a new run: those that ran on this branch, otherwise those that built the repository
+     */
+    private async getPipelinesForBranch(target: BranchTarget): Promise<Array<{ id: number; name: string }>> {
+        let runs = this.latestRuns;
+        if (runs.length === 0) {
+            try {
+                const client = this.scopes.getClient(target.scope);
+                const repository = await this.resolver.getRepository(target);
+                runs = repository ? await client.getBranchRuns('', repository, 50).catch(() => []) : [];
+            } catch (error) {
+                runs = [];
+            }
+        }
+
+        const pipelines = new Map<number, string>();
+        for (const run of runs) {
+            const id = run.definition?.id ?? run.pipeline?.id;
+            const name = run.definition?.name || run.pipeline?.name;
+            if (id !== undefined && name && !pipelines.has(id)) {
+                pipelines.set(id, name);
+            }
+        }
+        return Array.from(pipelines, ([id, name]) => ({ id, name }));
+    }
+
+    private async queueRun(target: BranchTarget, pipeline: { id: number; name: string }): Promise<void> {
+        if (!LicenseManager.getInstance().isPremium()) {
+            LicenseManager.getInstance().showUpgradePrompt('Run Pipeline');
+            return;
+        }
+
+        try {
+            const run = await this.scopes.getClient(target.scope).runPipeline(pipeline.id, { branch: target.branch });
+            this.scopes.tag([run], target.scope);
+            this.runWatcher.watch(run, { auto: true });
+
+            vscode.window.showInformationMessage(
+                `Pipeline run started: ${pipeline.name} on ${target.branch}`,
+                'View Run'
+            ).then(selection => {
+                if (selection === 'View Run') {
+                    vscode.commands.executeCommand('azurePipelines.viewRunDetails', run);
+                }
+            });
+
+            vscode.commands.executeCommand('azurePipelines.refreshRuns');
+            this.refresh();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to run pipeline: ${errorMessage}`);
+        }
+    }
+
+    private isRunning(run: PipelineRun): boolean {
+        const statusStr = String(run.status || '').toLowerCase();
+        return statusStr === 'inprogress' || statusStr === 'notstarted';
+    }
+
+    /**
+     * Order used to pick the run shown in the status bar: failures first, then running
+     */
+    private severity(run: PipelineRun): number {
+        if (this.isRunning(run)) {
+            return 3;
+        }
+        switch (String(run.result || '').toLowerCase()) {
+            case 'failed':
+                return 4;
+            case 'partiallysucceeded':
+                return 2;
+            case 'canceled':
+                return 1;
+            default:
+                return 0;
+        }
+    }
+
+    private getIcon(run: PipelineRun): string {
+        if (this.isRunning(run)) {
+            return '$(sync~spin)';
+        }
+        switch (String(run.result || '').toLowerCase()) {
+            case 'succeeded':
+                return '$(check)';
+            case 'failed':
+                return '$(error)';
+            case 'partiallysucceeded':
+                return '$(warning)';
+            case 'canceled':
+                return '$(circle-slash)';
+            default:
+                return '$(circle-outline)';
+        }
+    }
+
+    private describe(run: PipelineRun): string {
+        if (String(run.status || '').toLowerCase() === 'notstarted') {
+            return 'queued';
+        }
+        if (this.isRunning(run)) {
+            return 'running';
+        }
+        const resultStr = String(run.result || '').toLowerCase();
+        return resultStr === 'partiallysucceeded' ? 'partially succeeded' : resultStr || 'completed';
+    }
+
+    private getDuration(run: PipelineRun): string | undefined {
+        const start = run.startTime;
+        if (!start) {
+            return undefined;
+        }
+        return formatDurationBetween(start, run.finishTime || run.finishedDate || new Date());
+    }
+
+    dispose(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        for (const listener of this.repositoryListeners.values()) {
+            listener.dispose();
+        }
+        this.repositoryListeners.clear();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
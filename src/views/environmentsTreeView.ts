@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import { Environment, EnvironmentDeploymentRecord, EnvironmentResource, PipelineRun, ProjectScope } from '../models/types';
+import { OrganizationTreeItem, ProjectTreeItem, groupScopesByOrganization } from './scopeTreeItems';
+import { ScopeManager } from '../services/scopeManager';
+import { formatDurationBetween, formatTimeAgo } from '../utils/formatDuration';
+
+type EnvironmentsTreeElement =
+    EnvironmentTreeItem | EnvironmentSectionTreeItem | EnvironmentResourceTreeItem | DeploymentTreeItem | OrganizationTreeItem | ProjectTreeItem;
+
+// Deployments listed per environment
+const MAX_DEPLOYMENTS = 25;
+
+/**
+ * Tree item for a deployment environment
+ */
+export class EnvironmentTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly environment: Environment,
+        public readonly scope?: ProjectScope
+    ) {
+        super(environment.name, vscode.TreeItemCollapsibleState.Collapsed);
+
+        this.description = environment.description;
+        this.tooltip = [
+            environment.name,
+            environment.description,
+            `Modified: ${new Date(environment.modifiedOn).toLocaleString()}`
+        ].filter(Boolean).join('\n');
+        this.contextValue = 'environment';
+        this.iconPath = new vscode.ThemeIcon('server-environment');
+    }
+}
+
+/**
+ * "Resources" or "Deployments" group under an environment
+ */
+export class EnvironmentSectionTreeItem extends vscode.TreeItem {
+    constructor(
+        label: string,
+        public readonly children: (EnvironmentResourceTreeItem | DeploymentTreeItem)[],
+        icon: string,
+        emptyText: string
+    ) {
+        super(
+            label,
+            children.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+        );
+
+        this.description = children.length > 0 ? String(children.length) : emptyText;
+        this.contextValue = 'environmentSection';
+        this.iconPath = new vscode.ThemeIcon(icon);
+    }
+}
+
+/**
+ * Tree item for a Kubernetes namespace or virtual machine of an environment
+ */
+export class EnvironmentResourceTreeItem extends vscode.TreeItem {
+    constructor(public readonly resource: EnvironmentResource) {
+        super(resource.name, vscode.TreeItemCollapsibleState.None);
+
+        const type = (resource.type || '').toLowerCase();
+        this.description = type === 'kubernetes' ? 'Kubernetes' : type === 'virtualmachine' ? 'Virtual machine' : resource.type;
+        this.tooltip = [
+            `${resource.name} (${this.description})`,
+            resource.tags && resource.tags.length > 0 ? `Tags: ${resource.tags.join(', ')}` : undefined
+        ].filter(Boolean).join('\n');
+        this.contextValue = 'environmentResource';
+        this.iconPath = new vscode.ThemeIcon(
+            type === 'kubernetes' ? 'symbol-namespace' : type === 'virtualmachine' ? 'vm' : 'server'
+        );
+    }
+}
+
+/**
+ * Tree item for a job that deployed a run to an environment
+ */
+export class DeploymentTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly deployment: EnvironmentDeploymentRecord,
+        public readonly environment: Environment,
+        public readonly scope?: ProjectScope,
+        public readonly run?: PipelineRun
+    ) {
+        super(
+            `${deployment.definition?.name || 'Pipeline'} #${run?.buildNumber || deployment.owner?.name || deployment.owner?.id || ''}`,
+            vscode.TreeItemCollapsibleState.None
+        );
+
+        const time = deployment.finishTime || deployment.startTime || deployment.queueTime;
+        this.description = [
+            deployment.stageName,
+            run?.sourceVersion?.substring(0, 8),
+            time ? formatTimeAgo(time) : undefined
+        ].filter(Boolean).join(' · ');
+        this.tooltip = this.buildTooltip();
+        this.contextValue = 'deployment';
+        this.iconPath = this.getResultIcon();
+        this.command = {
+            command: 'azurePipelines.openDeploymentRun',
+            title: 'Open Run',
+            arguments: [this]
+        };
+    }
+
+    private buildTooltip(): vscode.MarkdownString {
+        const deployment = this.deployment;
+        const tooltip = new vscode.MarkdownString('', true);
+        tooltip.appendMarkdown(`**${this.label}** → ${this.environment.name}\n\n`);
+        tooltip.appendMarkdown(`Result: ${deployment.result || (deployment.finishTime ? 'unknown' : 'in progress')}\n\n`);
+
+        const stage = [deployment.stageName, deployment.jobName].filter(Boolean).join(' / ');
+        if (stage) {
+            const attempt = deployment.stageAttempt && deployment.stageAttempt > 1 ? ` (attempt ${deployment.stageAttempt})` : '';
+            tooltip.appendText(`Stage: ${stage}${attempt}\n\n`);
+        }
+        if (this.run?.sourceVersion) {
+            const branch = this.run.sourceBranch?.replace(/^refs\/heads\//, '');
+            tooltip.appendText(`Commit: ${this.run.sourceVersion.substring(0, 8)}${branch ? ` on ${branch}` : ''}\n\n`);
+        }
+        if (deployment.startTime) {
+            tooltip.appendText(`Started: ${new Date(deployment.startTime).toLocaleString()}`);
+            if (deployment.finishTime) {
+                tooltip.appendText(` (${formatDurationBetween(deployment.startTime, deployment.finishTime)})`);
+            }
+        }
+        return tooltip;
+    }
+
+    private getResultIcon(): vscode.ThemeIcon {
+        if (!this.deployment.finishTime) {
+            return new vscode.ThemeIcon('loading~spin', new vscode.ThemeColor('charts.blue'));
+        }
+        switch ((this.deployment.result || '').toLowerCase()) {
+            case 'succeeded':
+                return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+            case 'failed':
+                return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+            case 'partiallysucceeded':
+            case 'succeededwithissues':
+                return new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.yellow'));
+            case 'canceled':
+                return new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('charts.gray'));
+            case 'skipped':
+                return new vscode.ThemeIcon('debug-step-over', new vscode.ThemeColor('charts.gray'));
+            default:
+                return new vscode.ThemeIcon('circle-outline');
+        }
+    }
+}
+
+/**
+ * TreeView provider for environments, their resources and deployment history
+ */
+export class EnvironmentsTreeProvider implements vscode.TreeDataProvider<EnvironmentsTreeElement> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<EnvironmentsTreeElement | undefined | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(private scopes: ScopeManager) {}
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: EnvironmentsTreeElement): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: EnvironmentsTreeElement): Promise<EnvironmentsTreeElement[]> {
+        if (element instanceof OrganizationTreeItem) {
+            return element.scopes.map(scope => new ProjectTreeItem(scope, this.scopes.isPrimary(scope)));
+        }
+
+        if (element instanceof ProjectTreeItem) {
+            return this.getEnvironments(element.scope);
+        }
+
+        if (element instanceof EnvironmentTreeItem) {
+            return this.getEnvironmentChildren(element);
+        }
+
+        if (element instanceof EnvironmentSectionTreeItem) {
+            return element.children;
+        }
+
+        if (element) {
+            return [];
+        }
+
+        const scopes = this.scopes.getScopes();
+        if (scopes.length === 0) {
+            return [];
+        }
+
+        if (scopes.length === 1) {
+            return this.getEnvironments(scopes[0]);
+        }
+
+        return groupScopesByOrganization(scopes);
+    }
+
+    private async getEnvironments(scope: ProjectScope): Promise<EnvironmentTreeItem[]> {
+        try {
+            const environments = await this.scopes.getClient(scope).getEnvironments();
+            return this.scopes.tag(environments || [], scope)
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(environment => new EnvironmentTreeItem(environment, scope));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load environments: ${error}`);
+            return [];
+        }
+    }
+
+    private async getEnvironmentChildren(item: EnvironmentTreeItem): Promise<EnvironmentSectionTreeItem[]> {
+        const client = this.scopes.clientFor(item);
+        try {
+            const [environment, deployments] = await Promise.all([
+                client.getEnvironment(item.environment.id),
+                client.getEnvironmentDeployments(item.environment.id, MAX_DEPLOYMENTS)
+            ]);
+
+            // Deployment records only carry the run id; fetch the runs for their commits
+            const runIds = Array.from(new Set(deployments.map(deployment => Number(deployment.owner?.id)).filter(Boolean)));
+            const runs = new Map<number, PipelineRun>();
+            try {
+                for (const run of await client.getRunsByIds(runIds)) {
+                    runs.set(run.id, run);
+                }
+            } catch (error) {
+                console.error(`Failed to load runs for environment ${environment.name}:`, error);
+            }
+            if (item.scope) {
+                this.scopes.tag(Array.from(runs.values()), item.scope);
+            }
+
+            const resources = (environment.resources || [])
+                .map(resource => new EnvironmentResourceTreeItem(resource));
+            const history = deployments
+                .sort((a, b) => b.id - a.id)
+                .map(deployment => new DeploymentTreeItem(deployment, environment, item.scope, runs.get(Number(deployment.owner?.id))));
+
+            return [
+                new EnvironmentSectionTreeItem('Resources', resources, 'layers', 'none'),
+                new EnvironmentSectionTreeItem('Deployments', history, 'history', 'no deployments yet')
+            ];
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load environment ${item.environment.name}: ${error}`);
+            return [];
+        }
+    }
+}
@@ -0,0 +1,19 @@
+import * as vscode from 'vscode';
+
+/**
+ * Tree item shown at the end of a paged list to fetch the next page
+ */
+export class LoadMoreTreeItem extends vscode.TreeItem {
+    constructor(command: string, loadedCount: number, args?: any[]) {
+        super('Load more...', vscode.TreeItemCollapsibleState.None);
+
+        this.description = `${loadedCount} loaded`;
+        this.contextValue = 'loadMore';
+        this.iconPath = new vscode.ThemeIcon('ellipsis');
+        this.command = {
+            command,
+            title: 'Load More',
+            arguments: args
+        };
+    }
+}
@@ -0,0 +1,245 @@
+import * as vscode from 'vscode';
+import { AzureDevOpsClient } from '../api/azureDevOpsClient';
+import { PipelineRun } from '../models/types';
+import { LogSearchMatch, SearchableLog, findMatches, getSearchableLogs } from '../utils/logSearch';
+
+type LogSearchTreeElement = LogSearchRunTreeItem | LogSearchLogTreeItem | LogSearchMatchTreeItem;
+
+// Logs downloaded at the same time
+const LOG_CONCURRENCY = 4;
+// Matches kept per log and per search, so a too broad pattern doesn't flood the view
+const MAX_MATCHES_PER_LOG = 200;
+const MAX_MATCHES = 2000;
+// Longest match text shown in the tree
+const MAX_LABEL_LENGTH = 200;
+
+/**
+ * Runs to search, each with the client of its project
+ */
+export interface LogSearchTarget {
+    run: PipelineRun;
+    client: AzureDevOpsClient;
+}
+
+/**
+ * Tree item for a searched run, shown when several runs are searched
+ */
+export class LogSearchRunTreeItem extends vscode.TreeItem {
+    readonly logs: LogSearchLogTreeItem[] = [];
+
+    constructor(public readonly target: LogSearchTarget) {
+        super(`${target.run.definition?.name || target.run.pipeline?.name || target.run.name} ${target.run.buildNumber}`, vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = 'logSearchRun';
+        this.iconPath = new vscode.ThemeIcon('play-circle');
+    }
+
+    update(): void {
+        const matches = this.logs.reduce((sum, log) => sum + log.matches.length, 0);
+        this.description = `${matches} match(es)`;
+    }
+}
+
+/**
+ * Tree item for a log with matches, labeled with its stage, job and task
+ */
+export class LogSearchLogTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly log: SearchableLog,
+        public readonly client: AzureDevOpsClient,
+        public readonly matches: LogSearchMatchTreeItem[]
+    ) {
+        super(log.path[log.path.length - 1], vscode.TreeItemCollapsibleState.Expanded);
+
+        this.description = [
+            log.path.slice(0, -1).join(' › '),
+            `${matches.length}${matches.length >= MAX_MATCHES_PER_LOG ? '+' : ''}`
+        ].filter(Boolean).join(' · ');
+        this.tooltip = `${log.path.join(' › ')}\nRun ${log.run.buildNumber}, log ${log.logId}`;
+        this.contextValue = 'logSearchLog';
+        this.iconPath = new vscode.ThemeIcon('output');
+    }
+}
+
+/**
+ * Tree item for a matching line; opens the log at that line
+ */
+export class LogSearchMatchTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly log: SearchableLog,
+        public readonly client: AzureDevOpsClient,
+        public readonly match: LogSearchMatch
+    ) {
+        super(LogSearchMatchTreeItem.buildLabel(match), vscode.TreeItemCollapsibleState.None);
+
+        this.description = `line ${match.line}`;
+        this.tooltip = match.text;
+        this.contextValue = 'logSearchMatch';
+        this.command = {
+            command: 'azurePipelines.openLogSearchMatch',
+            title: 'Open Log Line',
+            arguments: [this]
+        };
+    }
+
+    /**
+     * Line text around the match, with the match highlighted
+     */
+    private static buildLabel(match: LogSearchMatch): vscode.TreeItemLabel {
+        const leading = match.text.length - match.text.trimStart().length;
+        // Keep some text before long lines' matches so the highlight is visible
+        const from = Math.max(leading, match.start - 40);
+        const prefix = from > leading ? '…' : '';
+        const label = prefix + match.text.substring(from, from + MAX_LABEL_LENGTH).trimEnd();
+        const start = match.start - from + prefix.length;
+        const end = Math.min(start + match.length, label.length);
+        return { label, highlights: end > start ? [[start, end]] : [] };
+    }
+}
+
+/**
+ * TreeView provider for log searches, across the logs of one run or the last runs of a pipeline;
+ * results appear log by log as they are downloaded
+ */
+export class LogSearchTreeProvider implements vscode.TreeDataProvider<LogSearchTreeElement> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<LogSearchTreeElement | undefined | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private treeView?: vscode.TreeView<LogSearchTreeElement>;
+    private runs: LogSearchRunTreeItem[] = [];
+    private cancellation?: vscode.CancellationTokenSource;
+    private lastQuery = '';
+
+    setTreeView(treeView: vscode.TreeView<LogSearchTreeElement>): void {
+        this.treeView = treeView;
+        this.setMessage('Search the logs of a run or of the last runs of a pipeline.');
+    }
+
+    getLastQuery(): string {
+        return this.lastQuery;
+    }
+
+    getTreeItem(element: LogSearchTreeElement): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: LogSearchTreeElement): LogSearchTreeElement[] {
+        if (element instanceof LogSearchRunTreeItem) {
+            return element.logs;
+        }
+        if (element instanceof LogSearchLogTreeItem) {
+            return element.matches;
+        }
+        if (element) {
+            return [];
+        }
+
+        // One run: its logs directly
+        return this.runs.length === 1 ? this.runs[0].logs : this.runs.filter(run => run.logs.length > 0);
+    }
+
+    /**
+     * Search the logs of the runs, replacing the previous results
+     */
+    async search(query: string, pattern: RegExp, targets: LogSearchTarget[]): Promise<void> {
+        this.cancel();
+        const cancellation = new vscode.CancellationTokenSource();
+        this.cancellation = cancellation;
+        this.lastQuery = query;
+        this.runs = targets.map(target => new LogSearchRunTreeItem(target));
+        this._onDidChangeTreeData.fire();
+        await vscode.commands.executeCommand('setContext', 'azurePipelines.logSearchRunning', true);
+
+        const token = cancellation.token;
+        let total = 0;
+        let searched = 0;
+        let matchCount = 0;
+        const progress = () => {
+            this.setMessage(`Searching ${searched} of ${total} log(s) for /${query}/ · ${matchCount} match(es)`);
+        };
+        progress();
+
+        try {
+            // Collect the logs of all runs first so the progress has a total
+            const logs: Array<{ log: SearchableLog; run: LogSearchRunTreeItem }> = [];
+            for (const run of this.runs) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+                try {
+                    for (const log of await getSearchableLogs(run.target.client, run.target.run)) {
+                        logs.push({ log, run });
+                    }
+                } catch (error) {
+                    console.error(`Failed to list the logs of run ${run.target.run.id}:`, error);
+                }
+                total = logs.length;
+                progress();
+            }
+
+            let next = 0;
+            const worker = async () => {
+                while (next < logs.length && !token.isCancellationRequested && matchCount < MAX_MATCHES) {
+                    const { log, run } = logs[next++];
+                    try {
+                        const lines = await run.target.client.getLogLines(log.run.id, log.logId);
+                        const limit = Math.min(MAX_MATCHES_PER_LOG, MAX_MATCHES - matchCount);
+                        const matches = findMatches(lines, pattern, limit);
+                        if (matches.length > 0 && !token.isCancellationRequested) {
+                            run.logs.push(new LogSearchLogTreeItem(
+                                log,
+                                run.target.client,
+                                matches.map(match => new LogSearchMatchTreeItem(log, run.target.client, match))
+                            ));
+                            // Workers finish out of order; keep the logs in run order
+                            run.logs.sort((a, b) => a.log.logId - b.log.logId);
+                            run.update();
+                            matchCount += matches.length;
+                            this._onDidChangeTreeData.fire();
+                        }
+                    } catch (error) {
+                        console.error(`Failed to search log ${log.logId} of run ${log.run.id}:`, error);
+                    }
+                    searched++;
+                    progress();
+                }
+            };
+            await Promise.all(Array.from({ length: LOG_CONCURRENCY }, worker));
+
+            if (this.cancellation !== cancellation) {
+                return;
+            }
+            const logCount = this.runs.reduce((sum, run) => sum + run.logs.length, 0);
+            const runs = this.runs.filter(run => run.logs.length > 0).length;
+            const where = targets.length > 1 ? ` of ${runs} run(s)` : '';
+            this.setMessage(matchCount === 0
+                ? `No matches for /${query}/ in ${searched} log(s)${token.isCancellationRequested ? ' (cancelled)' : ''}.`
+                : `${matchCount}${matchCount >= MAX_MATCHES ? '+' : ''} match(es) for /${query}/ in ${logCount} log(s)${where}` +
+                    (token.isCancellationRequested ? ` (cancelled after ${searched} of ${total})` : ''));
+        } finally {
+            if (this.cancellation === cancellation) {
+                this.cancellation = undefined;
+                await vscode.commands.executeCommand('setContext', 'azurePipelines.logSearchRunning', false);
+            }
+            cancellation.dispose();
+        }
+    }
+
+    cancel(): void {
+        this.cancellation?.cancel();
+    }
+
+    clear(): void {
+        this.cancel();
+        this.cancellation = undefined;
+        vscode.commands.executeCommand('setContext', 'azurePipelines.logSearchRunning', false);
+        this.runs = [];
+        this._onDidChangeTreeData.fire();
+        this.setMessage('Search the logs of a run or of the last runs of a pipeline.');
+    }
+
+    private setMessage(message: string): void {
+        if (this.treeView) {
+            this.treeView.message = message;
+        }
+    }
+}
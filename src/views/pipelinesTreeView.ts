@@ -1,7 +1,15 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { AzureDevOpsClient } from '../api/azureDevOpsClient';
-import { Pipeline, PipelineRun, RunResult, RunStatus } from '../models/types';
+import { Pipeline, PipelineFolder, PipelineRun, ProjectScope, RunResult, RunStatus } from '../models/types';
+import { LoadMoreTreeItem } from './loadMoreTreeItem';
+import { OrganizationTreeItem, ProjectTreeItem, groupScopesByOrganization } from './scopeTreeItems';
+import { LatestRunCache } from '../services/latestRunCache';
+import { ScopeManager } from '../services/scopeManager';
+import { FavoritesManager } from '../services/favoritesManager';
+
+const PIPELINES_PAGE_SIZE = 100;
+const EXPANDED_FOLDERS_KEY = 'azurePipelines.expandedFolders';
 
 export interface PipelineFilter {
     name?: string;
@@ -17,19 +25,126 @@ interface PipelineWithStatus extends Pipeline {
     hasWarnings?: boolean; // True if the latest run has warnings
 }
 
+/**
+ * Pipelines loaded for one organization/project
+ */
+interface ScopeState {
+    client: AzureDevOpsClient;
+    pipelines: PipelineWithStatus[];
+    folders: PipelineFolder[];
+    // Pinned pipelines that aren't on the loaded pages
+    unlistedFavorites: PipelineWithStatus[];
+    pagesLoaded: number;
+    continuationToken?: string;
+    stale: boolean;
+    latestRunCache: LatestRunCache;
+}
+
+type PipelinesTreeElement =
+    PipelineTreeItem | PipelineFolderTreeItem | FavoritesTreeItem | LoadMoreTreeItem | OrganizationTreeItem | ProjectTreeItem;
+
+/**
+ * Latest-run health of a group of pipelines (a folder or the favorites)
+ */
+interface PipelineHealth {
+    failed: number;
+    partial: number;
+    running: number;
+    succeeded: number;
+}
+
+/**
+ * Split a backslash-separated folder path into its segments ("\\" is the root)
+ */
+function splitFolderPath(folder?: string): string[] {
+    return (folder || '').split('\\').filter(Boolean);
+}
+
+function getPipelineHealth(pipelines: PipelineWithStatus[]): PipelineHealth {
+    const health = { failed: 0, partial: 0, running: 0, succeeded: 0 };
+
+    for (const pipeline of pipelines) {
+        const statusStr = String(pipeline.latestRun?.status || '').toLowerCase();
+        const resultStr = String(pipeline.latestRun?.result || '').toLowerCase();
+
+        if (statusStr === 'inprogress' || statusStr === 'notstarted') {
+            health.running++;
+        } else if (resultStr === 'failed') {
+            health.failed++;
+        } else if (resultStr === 'partiallysucceeded') {
+            health.partial++;
+        } else if (resultStr === 'succeeded') {
+            health.succeeded++;
+        }
+    }
+
+    return health;
+}
+
+function describeHealth(health: PipelineHealth, total: number): string {
+    const parts: string[] = [];
+
+    if (health.failed > 0) {
+        parts.push(`${health.failed} failing`);
+    }
+    if (health.partial > 0) {
+        parts.push(`${health.partial} with warnings`);
+    }
+    if (health.running > 0) {
+        parts.push(`${health.running} running`);
+    }
+
+    if (parts.length === 0) {
+        return total === 0 ? 'empty' : `${total} pipelines`;
+    }
+
+    return parts.join(' · ');
+}
+
+function describeHealthDetails(health: PipelineHealth): string[] {
+    return [
+        `Failing: ${health.failed}`,
+        `Partially succeeded: ${health.partial}`,
+        `Running: ${health.running}`,
+        `Succeeded: ${health.succeeded}`
+    ];
+}
+
+/**
+ * Color an icon by the worst latest-run result in the group
+ */
+function getHealthIcon(icon: string, health: PipelineHealth): vscode.ThemeIcon {
+    if (health.failed > 0) {
+        return new vscode.ThemeIcon(icon, new vscode.ThemeColor('charts.red'));
+    }
+    if (health.partial > 0) {
+        return new vscode.ThemeIcon(icon, new vscode.ThemeColor('charts.yellow'));
+    }
+    if (health.running > 0) {
+        return new vscode.ThemeIcon(icon, new vscode.ThemeColor('charts.blue'));
+    }
+    if (health.succeeded > 0) {
+        return new vscode.ThemeIcon(icon, new vscode.ThemeColor('charts.green'));
+    }
+    return new vscode.ThemeIcon(icon);
+}
+
 /**
  * Tree item for pipelines view
  */
 export class PipelineTreeItem extends vscode.TreeItem {
     constructor(
         public readonly pipeline: PipelineWithStatus,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly scope?: ProjectScope,
+        public readonly isFavorite: boolean = false,
+        private showFolder: boolean = false
     ) {
         super(pipeline.name, collapsibleState);
 
         this.tooltip = this.buildTooltip();
         this.description = this.buildDescription();
-        this.contextValue = 'pipeline';
+        this.contextValue = isFavorite ? 'pipeline-favorite' : 'pipeline';
         this.iconPath = this.getStatusIcon();
 
         // Make it clickable to view runs
@@ -76,8 +191,13 @@ export class PipelineTreeItem extends vscode.TreeItem {
     private buildDescription(): string {
         const parts: string[] = [];
 
-        if (this.pipeline.folder) {
-            parts.push(this.pipeline.folder);
+        if (this.isFavorite && !this.showFolder) {
+            parts.push('★');
+        }
+
+        // Outside the folder hierarchy (Favorites), show where the pipeline lives
+        if (this.showFolder && splitFolderPath(this.pipeline.folder).length > 0) {
+            parts.push(this.pipeline.folder!);
         }
 
         // Add latest run info if available
@@ -150,118 +270,448 @@ export class PipelineTreeItem extends vscode.TreeItem {
     }
 }
 
+/**
+ * Folder node in the pipelines view, summarizing the health of every pipeline below it
+ */
+export class PipelineFolderTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly path: string,
+        public readonly pipelines: PipelineWithStatus[],
+        expanded: boolean,
+        public readonly scope?: ProjectScope,
+        partial: boolean = false
+    ) {
+        super(
+            splitFolderPath(path).pop() || path,
+            expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+        );
+
+        // A stable id lets VS Code keep the expansion state across refreshes
+        this.id = PipelineFolderTreeItem.idFor(path, scope);
+        this.contextValue = 'pipelineFolder';
+
+        const health = getPipelineHealth(pipelines);
+        this.description = describeHealth(health, pipelines.length);
+        this.tooltip = [
+            `Folder: ${path}`,
+            `Pipelines: ${pipelines.length}${partial ? ' shown' : ''}`,
+            '',
+            ...describeHealthDetails(health),
+            // Unloaded pages or an active filter leave pipelines out of these numbers
+            ...(partial ? ['', 'Only counts pipelines that are loaded and match the current filter'] : [])
+        ].join('\n');
+        this.iconPath = getHealthIcon('folder', health);
+    }
+
+    static idFor(path: string, scope?: ProjectScope): string {
+        return `${scope ? ScopeManager.keyOf(scope) : ''}|folder|${path.toLowerCase()}`;
+    }
+}
+
+/**
+ * Favorites section at the top of the pipelines view, with the health of the pinned pipelines
+ */
+export class FavoritesTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly pipelines: PipelineWithStatus[],
+        public readonly scope?: ProjectScope
+    ) {
+        super('Favorites', vscode.TreeItemCollapsibleState.Expanded);
+
+        this.id = `${scope ? ScopeManager.keyOf(scope) : ''}|favorites`;
+        this.contextValue = 'favorites';
+
+        const health = getPipelineHealth(pipelines);
+        this.description = describeHealth(health, pipelines.length);
+        this.tooltip = [`Favorite pipelines: ${pipelines.length}`, '', ...describeHealthDetails(health)].join('\n');
+        this.iconPath = getHealthIcon('star-full', health);
+    }
+}
+
 /**
  * TreeView provider for pipelines
  */
-export class PipelinesTreeProvider implements vscode.TreeDataProvider<PipelineTreeItem> {
-    private _onDidChangeTreeData = new vscode.EventEmitter<PipelineTreeItem | undefined | void>();
+export class PipelinesTreeProvider implements vscode.TreeDataProvider<PipelinesTreeElement> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<PipelinesTreeElement | undefined | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-    private pipelines: PipelineWithStatus[] = [];
+    private states: Map<string, ScopeState> = new Map();
     private currentFilter: PipelineFilter = {};
+    private treeView?: vscode.TreeView<PipelinesTreeElement>;
+
+    constructor(
+        private scopes: ScopeManager,
+        private memento: vscode.Memento,
+        private favorites: FavoritesManager
+    ) {
+        // Pinning doesn't need a reload, just a re-render
+        favorites.onDidChangeFavorites(() => this._onDidChangeTreeData.fire());
+    }
 
-    constructor(private client: AzureDevOpsClient) {}
+    /**
+     * Attach the tree view so the view badge can show failing favorites
+     */
+    setTreeView(treeView: vscode.TreeView<PipelinesTreeElement>): void {
+        this.treeView = treeView;
+    }
 
     /**
      * Refresh the tree view
      */
     refresh(): void {
+        for (const state of this.states.values()) {
+            state.stale = true;
+        }
         this._onDidChangeTreeData.fire();
     }
 
     /**
      * Get tree item
      */
-    getTreeItem(element: PipelineTreeItem): vscode.TreeItem {
+    getTreeItem(element: PipelinesTreeElement): vscode.TreeItem {
         return element;
     }
 
-
-
     /**
-     * Get children (pipelines)
+     * Get children: organizations and projects when several are shown, then pipelines
      */
-    async getChildren(element?: PipelineTreeItem): Promise<PipelineTreeItem[]> {
+    async getChildren(element?: PipelinesTreeElement): Promise<PipelinesTreeElement[]> {
+        if (element instanceof OrganizationTreeItem) {
+            return element.scopes.map(scope => new ProjectTreeItem(scope, this.scopes.isPrimary(scope)));
+        }
+
+        if (element instanceof ProjectTreeItem) {
+            return this.getScopeChildren(element.scope);
+        }
+
+        if (element instanceof FavoritesTreeItem) {
+            return element.pipelines.map(
+                pipeline => new PipelineTreeItem(pipeline, vscode.TreeItemCollapsibleState.None, element.scope, true, true)
+            );
+        }
+
+        if (element instanceof PipelineFolderTreeItem) {
+            const scope = element.scope || this.scopes.getPrimaryScope();
+            return scope ? this.buildFolderLevel(scope, this.getState(scope), splitFolderPath(element.path)) : [];
+        }
+
         if (element) {
             return [];
         }
 
+        const scopes = this.scopes.getScopes();
+        this.pruneStates(scopes);
+
+        if (scopes.length === 0) {
+            return [];
+        }
+
+        if (scopes.length === 1) {
+            return this.getScopeChildren(scopes[0]);
+        }
+
+        return groupScopesByOrganization(scopes);
+    }
+
+    /**
+     * Get the pipelines of one organization/project
+     */
+    private async getScopeChildren(scope: ProjectScope): Promise<PipelinesTreeElement[]> {
         try {
-            const config = this.client.getConfig();
-            if (!config.organizationUrl || !config.projectName) {
-                return [];
+            const state = this.getState(scope);
+
+            if (state.stale) {
+                await this.reloadPipelines(scope, state);
             }
 
-            // Fetch all pipelines
-            this.pipelines = await this.client.getPipelines();
-
-            // Fetch latest run for each pipeline (in parallel for performance)
-            const pipelinesWithStatus: PipelineWithStatus[] = await Promise.all(
-                this.pipelines.map(async (pipeline) => {
-                    try {
-                        const runs = await this.client.getPipelineRuns(pipeline.id, 1);
-                        const latestRun = runs && runs.length > 0 ? runs[0] : undefined;
-
-                        // Check for warnings based on result type
-                        let hasWarnings = false;
-                        const resultStr = String(latestRun?.result || '').toLowerCase();
-
-                        if (resultStr === 'partiallysucceeded') {
-                            hasWarnings = true;
-                        }
-
-                        return {
-                            ...pipeline,
-                            latestRun,
-                            hasWarnings
-                        };
-                    } catch (error) {
-                        return {
-                            ...pipeline,
-                            latestRun: undefined,
-                            hasWarnings: false
-                        };
-                    }
-                })
-            );
+            const favorites = this.getFavoritePipelines(scope, state).filter(pipeline => this.matchesFilter(pipeline));
+            this.updateBadge();
 
-            // Apply filters
-            const filteredPipelines = pipelinesWithStatus.filter(pipeline => this.matchesFilter(pipeline));
+            if (this.favorites.isFavoritesOnly()) {
+                return favorites.map(
+                    pipeline => new PipelineTreeItem(pipeline, vscode.TreeItemCollapsibleState.None, scope, true, true)
+                );
+            }
 
-            // Group by folder
-            const grouped = this.groupByFolder(filteredPipelines);
+            const items: PipelinesTreeElement[] = [];
+            if (favorites.length > 0) {
+                items.push(new FavoritesTreeItem(favorites, scope));
+            }
+            items.push(...this.buildFolderLevel(scope, state, []));
 
-            return grouped.map(
-                pipeline => new PipelineTreeItem(pipeline, vscode.TreeItemCollapsibleState.None)
-            );
+            if (state.continuationToken) {
+                items.push(new LoadMoreTreeItem('azurePipelines.loadMorePipelines', state.pipelines.length, [scope]));
+            }
+
+            return items;
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to load pipelines: ${error}`);
             return [];
         }
     }
 
+    private getState(scope: ProjectScope): ScopeState {
+        const key = ScopeManager.keyOf(scope);
+        let state = this.states.get(key);
+        if (!state) {
+            const client = this.scopes.getClient(scope);
+            state = {
+                client,
+                pipelines: [],
+                folders: [],
+                unlistedFavorites: [],
+                pagesLoaded: 1,
+                stale: true,
+                latestRunCache: new LatestRunCache(client)
+            };
+            this.states.set(key, state);
+        }
+        return state;
+    }
+
     /**
-     * Group pipelines by folder
+     * Forget projects that were removed from the views
      */
-    private groupByFolder(pipelines: PipelineWithStatus[]): PipelineWithStatus[] {
-        // Sort by folder and name
-        return pipelines.sort((a, b) => {
-            const folderA = a.folder || '';
-            const folderB = b.folder || '';
-
-            if (folderA !== folderB) {
-                return folderA.localeCompare(folderB);
+    private pruneStates(scopes: ProjectScope[]): void {
+        const keys = new Set(scopes.map(scope => ScopeManager.keyOf(scope)));
+        for (const key of Array.from(this.states.keys())) {
+            if (!keys.has(key)) {
+                this.states.delete(key);
             }
+        }
+    }
+
+    /**
+     * Fetch the next page of pipelines and append it to the tree
+     */
+    async loadMore(scope?: ProjectScope): Promise<void> {
+        const target = scope || this.scopes.getPrimaryScope();
+        if (!target) {
+            return;
+        }
+
+        const state = this.getState(target);
+        if (!state.continuationToken) {
+            return;
+        }
+
+        try {
+            const page = await state.client.getPipelinesPage(PIPELINES_PAGE_SIZE, state.continuationToken);
+            state.pipelines.push(...this.scopes.tag(await this.withLatestRuns(state, page.items), target));
+            state.continuationToken = page.continuationToken;
+            state.pagesLoaded++;
+            this._onDidChangeTreeData.fire();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load more pipelines: ${error}`);
+        }
+    }
 
-            return a.name.localeCompare(b.name);
+    /**
+     * Re-fetch as many pages as are currently shown so a refresh doesn't collapse "Load more"
+     */
+    private async reloadPipelines(scope: ProjectScope, state: ScopeState): Promise<void> {
+        const pipelines: Pipeline[] = [];
+        let continuationToken: string | undefined;
+
+        for (let page = 0; page < state.pagesLoaded; page++) {
+            const result = await state.client.getPipelinesPage(PIPELINES_PAGE_SIZE, continuationToken);
+            pipelines.push(...result.items);
+            continuationToken = result.continuationToken;
+            if (!continuationToken) {
+                break;
+            }
+        }
+
+        state.pipelines = this.scopes.tag(await this.withLatestRuns(state, pipelines), scope);
+        state.folders = await this.loadFolders(state.client);
+        state.continuationToken = continuationToken;
+
+        await this.favorites.syncFromServer(scope, state.pipelines);
+        state.unlistedFavorites = await this.loadUnlistedFavorites(scope, state);
+        state.stale = false;
+    }
+
+    /**
+     * Fetch pinned pipelines beyond the loaded pages so Favorites is complete without "Load more"
+     */
+    private async loadUnlistedFavorites(scope: ProjectScope, state: ScopeState): Promise<PipelineWithStatus[]> {
+        const loaded = new Set(state.pipelines.map(pipeline => pipeline.id));
+        const missing = this.favorites.getFavoriteIds(scope).filter(id => !loaded.has(id));
+        if (missing.length === 0) {
+            return [];
+        }
+
+        const pipelines: Pipeline[] = [];
+        for (const id of missing) {
+            try {
+                pipelines.push(await state.client.getPipeline(id));
+            } catch (error) {
+                // Deleted or no longer accessible; it simply won't show up
+                console.error(`Failed to load favorite pipeline ${id}:`, error);
+            }
+        }
+
+        return this.scopes.tag(await this.withLatestRuns(state, pipelines), scope);
+    }
+
+    /**
+     * Pinned pipelines of a project, in the order they were pinned
+     */
+    private getFavoritePipelines(scope: ProjectScope, state: ScopeState): PipelineWithStatus[] {
+        const all = [...state.pipelines, ...state.unlistedFavorites];
+        return this.favorites.getFavoriteIds(scope)
+            .map(id => all.find(pipeline => pipeline.id === id))
+            .filter((pipeline): pipeline is PipelineWithStatus => !!pipeline);
+    }
+
+    /**
+     * Show the number of failing favorites on the view
+     */
+    private updateBadge(): void {
+        if (!this.treeView) {
+            return;
+        }
+
+        let failing = 0;
+        for (const scope of this.scopes.getScopes()) {
+            const state = this.states.get(ScopeManager.keyOf(scope));
+            if (state) {
+                failing += getPipelineHealth(this.getFavoritePipelines(scope, state)).failed;
+            }
+        }
+
+        this.treeView.badge = failing > 0
+            ? { value: failing, tooltip: `${failing} favorite pipeline(s) failing` }
+            : undefined;
+    }
+
+    /**
+     * Load the folder list so empty folders show up too
+     */
+    private async loadFolders(client: AzureDevOpsClient): Promise<PipelineFolder[]> {
+        try {
+            return await client.getPipelineFolders();
+        } catch (error) {
+            console.error('Failed to load pipeline folders:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Attach the latest run to each pipeline using the batched run cache
+     */
+    private async withLatestRuns(state: ScopeState, pipelines: Pipeline[]): Promise<PipelineWithStatus[]> {
+        let latestRuns = new Map<number, PipelineRun>();
+        try {
+            latestRuns = await state.latestRunCache.getLatestRuns(pipelines.map(p => p.id));
+        } catch (error) {
+            console.error('Failed to load latest runs:', error);
+        }
+
+        return pipelines.map(pipeline => {
+            const latestRun = latestRuns.get(pipeline.id);
+
+            // Check for warnings based on result type
+            const resultStr = String(latestRun?.result || '').toLowerCase();
+            const hasWarnings = resultStr === 'partiallysucceeded';
+
+            return {
+                ...pipeline,
+                latestRun,
+                hasWarnings
+            };
         });
     }
 
     /**
-     * Get all pipelines
+     * Build one level of the folder hierarchy: subfolders first, then the pipelines directly in it
+     * Folder names are case-insensitive in Azure DevOps
+     */
+    private buildFolderLevel(scope: ProjectScope, state: ScopeState, parent: string[]): Array<PipelineFolderTreeItem | PipelineTreeItem> {
+        const depth = parent.length;
+        const isBelow = (segments: string[]) =>
+            segments.length >= depth && parent.every((segment, i) => segment.toLowerCase() === segments[i].toLowerCase());
+
+        const pipelines = state.pipelines.filter(pipeline => this.matchesFilter(pipeline));
+        const subfolders = new Map<string, string>();
+
+        for (const pipeline of pipelines) {
+            const segments = splitFolderPath(pipeline.folder);
+            if (segments.length > depth && isBelow(segments)) {
+                subfolders.set(segments[depth].toLowerCase(), segments[depth]);
+            }
+        }
+
+        // Empty folders only make sense while no filter hides pipelines
+        if (!this.hasActiveFilters()) {
+            for (const folder of state.folders) {
+                const segments = splitFolderPath(folder.path);
+                if (segments.length > depth && isBelow(segments) && !subfolders.has(segments[depth].toLowerCase())) {
+                    subfolders.set(segments[depth].toLowerCase(), segments[depth]);
+                }
+            }
+        }
+
+        // Folder health only covers what is loaded and not filtered out
+        const partial = !!state.continuationToken || this.hasActiveFilters();
+        const folderItems = Array.from(subfolders.values())
+            .sort((a, b) => a.localeCompare(b))
+            .map(name => {
+                const segments = [...parent, name];
+                const path = `\\${segments.join('\\')}`;
+                const contained = pipelines.filter(pipeline => {
+                    const pipelineSegments = splitFolderPath(pipeline.folder);
+                    return pipelineSegments.length >= segments.length &&
+                        segments.every((segment, i) => segment.toLowerCase() === pipelineSegments[i].toLowerCase());
+                });
+                const expanded = this.getExpandedFolders().includes(PipelineFolderTreeItem.idFor(path, scope));
+                return new PipelineFolderTreeItem(path, contained, expanded, scope, partial);
+            });
+
+        const pipelineItems = pipelines
+            .filter(pipeline => {
+                const segments = splitFolderPath(pipeline.folder);
+                return segments.length === depth && isBelow(segments);
+            })
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(pipeline => new PipelineTreeItem(
+                pipeline,
+                vscode.TreeItemCollapsibleState.None,
+                scope,
+                this.favorites.isFavorite(scope, pipeline.id)
+            ));
+
+        return [...folderItems, ...pipelineItems];
+    }
+
+    private getExpandedFolders(): string[] {
+        return this.memento.get<string[]>(EXPANDED_FOLDERS_KEY, []);
+    }
+
+    /**
+     * Remember whether a folder is expanded so it opens the same way next time
+     */
+    async setFolderExpanded(folder: PipelineFolderTreeItem, expanded: boolean): Promise<void> {
+        const id = PipelineFolderTreeItem.idFor(folder.path, folder.scope);
+        const others = this.getExpandedFolders().filter(existing => existing !== id);
+        await this.memento.update(EXPANDED_FOLDERS_KEY, expanded ? [...others, id] : others);
+    }
+
+    /**
+     * Get all pipelines across the shown projects
      */
     getPipelines(): PipelineWithStatus[] {
-        return this.pipelines;
+        return Array.from(this.states.values()).flatMap(state => [...state.pipelines, ...state.unlistedFavorites]);
+    }
+
+    /**
+     * Check whether any pipeline's latest run is queued or in progress
+     */
+    hasActiveRuns(): boolean {
+        return this.getPipelines().some(pipeline => {
+            const statusStr = String(pipeline.latestRun?.status || '').toLowerCase();
+            return statusStr === 'inprogress' || statusStr === 'notstarted';
+        });
     }
 
     /**
@@ -0,0 +1,411 @@
+import * as vscode from 'vscode';
+import { AzureDevOpsClient } from '../api/azureDevOpsClient';
+import { Issue, PipelineRun, TimelineRecord } from '../models/types';
+import { stripAnsi } from '../utils/logParser';
+
+type RunProblemsTreeElement = RunProblemGroupTreeItem | RunProblemTreeItem;
+type GroupLevel = 'Stage' | 'Job' | 'Task';
+
+// Earlier attempts whose timelines are read for one run
+const MAX_PREVIOUS_TIMELINES = 10;
+
+/**
+ * An error or warning of the run, merged across the attempts it occurred in
+ */
+export interface RunProblem {
+    type: 'error' | 'warning';
+    message: string;
+    path: string[];              // Stage, job and task names
+    attempts: number[];
+    inLatestAttempt: boolean;
+    record: TimelineRecord;      // Latest record reporting it, for its log
+    line?: number;               // Line of the issue in that record's log
+}
+
+/**
+ * Stage, job or task with problems
+ */
+export class RunProblemGroupTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly level: GroupLevel,
+        public readonly name: string,
+        public readonly groups: RunProblemGroupTreeItem[] = [],
+        public readonly problems: RunProblemTreeItem[] = []
+    ) {
+        super(name, vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = 'runProblemGroup';
+        this.iconPath = new vscode.ThemeIcon(level === 'Stage' ? 'layers' : level === 'Job' ? 'server-process' : 'symbol-event');
+    }
+
+    /**
+     * Set the description and icon color once all problems are added
+     */
+    summarize(): void {
+        const all = this.allProblems();
+        const errors = all.filter(problem => problem.type === 'error').length;
+        const warnings = all.length - errors;
+        this.description = [
+            errors > 0 ? `${errors} error(s)` : undefined,
+            warnings > 0 ? `${warnings} warning(s)` : undefined
+        ].filter(Boolean).join(', ');
+        this.tooltip = `${this.level}: ${this.name}`;
+        this.iconPath = new vscode.ThemeIcon(
+            (this.iconPath as vscode.ThemeIcon).id,
+            new vscode.ThemeColor(errors > 0 ? 'testing.iconFailed' : 'charts.yellow')
+        );
+        this.groups.forEach(group => group.summarize());
+    }
+
+    allProblems(): RunProblem[] {
+        return [
+            ...this.problems.map(item => item.problem),
+            ...this.groups.flatMap(group => group.allProblems())
+        ];
+    }
+}
+
+/**
+ * Tree item for one error or warning; opens its log at the line it was logged on
+ */
+export class RunProblemTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly problem: RunProblem,
+        public readonly run: PipelineRun,
+        public readonly client: AzureDevOpsClient
+    ) {
+        super(firstLine(problem.message), vscode.TreeItemCollapsibleState.None);
+
+        this.description = describeAttempts(problem);
+        this.tooltip = this.buildTooltip();
+        this.contextValue = 'runProblem';
+        this.iconPath = !problem.inLatestAttempt
+            ? new vscode.ThemeIcon(problem.type === 'error' ? 'error' : 'warning', new vscode.ThemeColor('disabledForeground'))
+            : problem.type === 'error'
+                ? new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'))
+                : new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.yellow'));
+
+        if (problem.record.log?.id) {
+            this.command = {
+                command: 'azurePipelines.openProblemLogLine',
+                title: 'Open Log Line',
+                arguments: [this]
+            };
+        }
+    }
+
+    private buildTooltip(): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString('', true);
+        tooltip.appendMarkdown(`**${this.problem.type === 'error' ? 'Error' : 'Warning'}** in ${this.problem.path.join(' › ')}\n\n`);
+        tooltip.appendCodeblock(this.problem.message, 'log');
+        tooltip.appendText(`Attempt(s): ${this.problem.attempts.join(', ')}`);
+        if (!this.problem.inLatestAttempt) {
+            tooltip.appendText(' (not reported by the latest attempt)');
+        }
+        return tooltip;
+    }
+}
+
+function firstLine(message: string): string {
+    return message.split('\n')[0].trim() || message;
+}
+
+function describeAttempts(problem: RunProblem): string {
+    if (!problem.inLatestAttempt) {
+        return `attempt ${problem.attempts.join(', ')} · gone after retry`;
+    }
+    return problem.attempts.length > 1 ? `attempts ${problem.attempts.join(', ')}` : '';
+}
+
+/**
+ * TreeView provider for the errors and warnings of the run shown in the Stages view,
+ * grouped by stage, job and task and merged across retry attempts
+ */
+export class RunProblemsTreeProvider implements vscode.TreeDataProvider<RunProblemsTreeElement> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<RunProblemsTreeElement | undefined | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private treeView?: vscode.TreeView<RunProblemsTreeElement>;
+    private run?: PipelineRun;
+    private client?: AzureDevOpsClient;
+    private roots: RunProblemGroupTreeItem[] = [];
+    // Guards against an older load finishing after a newer one
+    private loadId = 0;
+
+    setTreeView(treeView: vscode.TreeView<RunProblemsTreeElement>): void {
+        this.treeView = treeView;
+        this.updateBadge();
+    }
+
+    getCurrentRun(): PipelineRun | undefined {
+        return this.run;
+    }
+
+    getTreeItem(element: RunProblemsTreeElement): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: RunProblemsTreeElement): RunProblemsTreeElement[] {
+        if (element instanceof RunProblemGroupTreeItem) {
+            return [...element.groups, ...element.problems];
+        }
+        return element ? [] : this.roots;
+    }
+
+    /**
+     * Show the problems of a run from its latest timeline, reading the timelines of earlier attempts
+     */
+    async loadRun(run: PipelineRun, client: AzureDevOpsClient, records: TimelineRecord[]): Promise<void> {
+        const loadId = ++this.loadId;
+        this.run = run;
+        this.client = client;
+
+        let problems: RunProblem[];
+        try {
+            problems = await this.collectProblems(run, client, records);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to load run problems: ${errorMessage}`);
+            problems = [];
+        }
+
+        if (loadId !== this.loadId) {
+            return;
+        }
+        this.roots = this.buildTree(problems, run, client);
+        this._onDidChangeTreeData.fire();
+        this.updateBadge();
+    }
+
+    /**
+     * Read the current run's timeline again
+     */
+    async reload(): Promise<void> {
+        if (!this.run || !this.client) {
+            return;
+        }
+        const timeline = await this.client.getRunTimeline(this.run.id);
+        await this.loadRun(this.run, this.client, timeline?.records || []);
+    }
+
+    clear(): void {
+        this.loadId++;
+        this.run = undefined;
+        this.client = undefined;
+        this.roots = [];
+        this._onDidChangeTreeData.fire();
+        this.updateBadge();
+    }
+
+    /**
+     * The problems of the current run as markdown, e.g. for a bug or a pull request comment
+     */
+    toMarkdown(): string | undefined {
+        if (!this.run) {
+            return undefined;
+        }
+
+        const name = this.run.definition?.name || this.run.pipeline?.name || this.run.name;
+        const lines = [`## Problems in ${name} ${this.run.buildNumber}`, ''];
+        const problems = this.roots.flatMap(root => root.allProblems());
+        if (problems.length === 0) {
+            lines.push('No errors or warnings.');
+            return lines.join('\n');
+        }
+
+        const byPath = new Map<string, RunProblem[]>();
+        for (const problem of problems) {
+            const key = problem.path.join(' › ');
+            byPath.set(key, [...(byPath.get(key) || []), problem]);
+        }
+        for (const [path, entries] of byPath) {
+            lines.push(`### ${path}`, '');
+            for (const problem of entries) {
+                const attempts = describeAttempts(problem);
+                const message = problem.message.trim().split('\n').join('\n  ');
+                lines.push(`- **${problem.type === 'error' ? 'Error' : 'Warning'}:** ${message}${attempts ? ` _(${attempts})_` : ''}`);
+            }
+            lines.push('');
+        }
+        return lines.join('\n').trimEnd();
+    }
+
+    private async collectProblems(run: PipelineRun, client: AzureDevOpsClient, records: TimelineRecord[]): Promise<RunProblem[]> {
+        const problems = new Map<string, RunProblem>();
+        const latestById = new Map(records.map(record => [record.id, record]));
+
+        const addIssues = (timeline: TimelineRecord[], latest: boolean) => {
+            const byId = new Map(timeline.map(record => [record.id, record]));
+            // Records of an earlier attempt may sit under stages only found in the latest timeline
+            const parentOf = (record: TimelineRecord) => record.parentId
+                ? byId.get(record.parentId) || latestById.get(record.parentId)
+                : undefined;
+
+            for (const record of timeline) {
+                for (const issue of record.issues || []) {
+                    const ancestry = this.ancestry(record, parentOf);
+                    const path = ancestry.map(entry => entry.name);
+                    const attempt = this.attemptOf(ancestry);
+                    const key = `${path.join('\u0000')}\u0000${issue.type}\u0000${normalize(issue.message)}`;
+
+                    const existing = problems.get(key);
+                    if (!existing) {
+                        problems.set(key, this.toProblem(issue, record, path, attempt, latest));
+                        continue;
+                    }
+                    if (!existing.attempts.includes(attempt)) {
+                        existing.attempts.push(attempt);
+                        existing.attempts.sort((a, b) => a - b);
+                    }
+                    // Link to the log of the latest attempt reporting it
+                    if (latest && !existing.inLatestAttempt) {
+                        existing.inLatestAttempt = true;
+                        existing.record = record;
+                        existing.line = lineOf(issue);
+                    }
+                }
+            }
+        };
+
+        addIssues(records, true);
+        for (const timeline of await this.getPreviousTimelines(run, client, records)) {
+            addIssues(timeline, false);
+        }
+
+        return Array.from(problems.values());
+    }
+
+    /**
+     * Timelines of earlier attempts, following their own previous attempts too
+     */
+    private async getPreviousTimelines(run: PipelineRun, client: AzureDevOpsClient, records: TimelineRecord[]): Promise<TimelineRecord[][]> {
+        const timelines: TimelineRecord[][] = [];
+        const seen = new Set<string>();
+        const pending = [records];
+
+        while (pending.length > 0 && seen.size < MAX_PREVIOUS_TIMELINES) {
+            const timelineIds = pending.shift()!
+                .flatMap(record => record.previousAttempts || [])
+                .map(previous => previous.timelineId)
+                .filter(timelineId => timelineId && !seen.has(timelineId));
+
+            for (const timelineId of new Set(timelineIds)) {
+                if (seen.size >= MAX_PREVIOUS_TIMELINES) {
+                    break;
+                }
+                seen.add(timelineId);
+                try {
+                    const timeline = await client.getRunTimeline(run.id, timelineId);
+                    if (timeline?.records?.length) {
+                        timelines.push(timeline.records);
+                        pending.push(timeline.records);
+                    }
+                } catch (error) {
+                    console.error(`Failed to load timeline ${timelineId} of run ${run.id}:`, error);
+                }
+            }
+        }
+
+        return timelines;
+    }
+
+    /**
+     * Stage, job and task records from the top down to the record; phases and checkpoints are skipped
+     */
+    private ancestry(record: TimelineRecord, parentOf: (record: TimelineRecord) => TimelineRecord | undefined): TimelineRecord[] {
+        const chain: TimelineRecord[] = [];
+        let current: TimelineRecord | undefined = record;
+        while (current) {
+            if (current.type === 'Stage' || current.type === 'Job' || current.type === 'Task') {
+                chain.unshift(current);
+            }
+            current = parentOf(current);
+        }
+        return chain.length > 0 ? chain : [record];
+    }
+
+    /**
+     * Retries create new job records, so the job's attempt identifies the attempt of its tasks
+     */
+    private attemptOf(ancestry: TimelineRecord[]): number {
+        const job = ancestry.find(record => record.type === 'Job');
+        const stage = ancestry.find(record => record.type === 'Stage');
+        return job?.attempt || stage?.attempt || ancestry[ancestry.length - 1].attempt || 1;
+    }
+
+    private toProblem(issue: Issue, record: TimelineRecord, path: string[], attempt: number, latest: boolean): RunProblem {
+        return {
+            type: issue.type === 'warning' ? 'warning' : 'error',
+            message: stripAnsi(issue.message || ''),
+            path,
+            attempts: [attempt],
+            inLatestAttempt: latest,
+            record,
+            line: lineOf(issue)
+        };
+    }
+
+    private buildTree(problems: RunProblem[], run: PipelineRun, client: AzureDevOpsClient): RunProblemGroupTreeItem[] {
+        const roots: RunProblemGroupTreeItem[] = [];
+        const levels: GroupLevel[] = ['Stage', 'Job', 'Task'];
+
+        for (const problem of problems) {
+            let siblings = roots;
+            let group: RunProblemGroupTreeItem | undefined;
+            problem.path.forEach((name, index) => {
+                group = siblings.find(candidate => candidate.name === name);
+                if (!group) {
+                    group = new RunProblemGroupTreeItem(levels[Math.min(index, levels.length - 1)], name);
+                    siblings.push(group);
+                }
+                siblings = group.groups;
+            });
+            group?.problems.push(new RunProblemTreeItem(problem, run, client));
+        }
+
+        // Errors before warnings, and the ones still failing first
+        const rank = (item: RunProblemTreeItem) =>
+            (item.problem.type === 'error' ? 0 : 2) + (item.problem.inLatestAttempt ? 0 : 1);
+        const sort = (groups: RunProblemGroupTreeItem[]) => {
+            for (const group of groups) {
+                group.problems.sort((a, b) => rank(a) - rank(b));
+                sort(group.groups);
+            }
+        };
+        sort(roots);
+        roots.forEach(root => root.summarize());
+        return roots;
+    }
+
+    private updateBadge(): void {
+        if (!this.treeView) {
+            return;
+        }
+
+        const errors = this.roots
+            .flatMap(root => root.allProblems())
+            .filter(problem => problem.type === 'error' && problem.inLatestAttempt).length;
+        this.treeView.badge = errors > 0
+            ? { value: errors, tooltip: `${errors} error(s) in run ${this.run?.buildNumber}` }
+            : undefined;
+        this.treeView.message = !this.run
+            ? 'Open a run to see its errors and warnings.'
+            : this.roots.length === 0 ? `Run ${this.run.buildNumber} has no errors or warnings.` : undefined;
+        this.treeView.description = this.run?.buildNumber;
+    }
+}
+
+/**
+ * Key part of a message; the same issue can differ between attempts in timestamps and spacing
+ */
+function normalize(message: string): string {
+    return stripAnsi(message)
+        .replace(/\d{4}-\d{2}-\d{2}T[\d:.]+Z/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toLowerCase();
+}
+
+function lineOf(issue: Issue): number | undefined {
+    const line = Number(issue.data?.logFileLineNumber);
+    return line > 0 ? line : undefined;
+}
@@ -1,14 +1,33 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { AzureDevOpsClient } from '../api/azureDevOpsClient';
-import { PipelineRun, RunResult, RunStatus } from '../models/types';
+import { PipelineRun, ProjectScope, RunResult, RunStatus } from '../models/types';
 import { FilterManager } from '../utils/filterManager';
+import { LoadMoreTreeItem } from './loadMoreTreeItem';
+import { OrganizationTreeItem, ProjectTreeItem, groupScopesByOrganization } from './scopeTreeItems';
+import { ScopeManager } from '../services/scopeManager';
+import { RunWatcher } from '../services/runWatcher';
+
+/**
+ * Runs loaded for one organization/project
+ */
+interface ScopeState {
+    client: AzureDevOpsClient;
+    runs: PipelineRun[];
+    pagesLoaded: number;
+    continuationToken?: string;
+    stale: boolean;
+}
+
+type RunsTreeElement = RunTreeItem | LoadMoreTreeItem | OrganizationTreeItem | ProjectTreeItem;
 
 export class RunTreeItem extends vscode.TreeItem {
     constructor(
         public readonly run: PipelineRun,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        public readonly children?: RunTreeItem[]
+        public readonly children?: RunTreeItem[],
+        public readonly scope?: ProjectScope,
+        private isWatched: boolean = false
     ) {
         // Show build number with commit message if available
         const label = run.commitMessage
@@ -68,6 +87,10 @@ export class RunTreeItem extends vscode.TreeItem {
             parts.push(`(${branch})`);
         }
 
+        if (this.isWatched) {
+            parts.push('· watching');
+        }
+
         return parts.join(' ');
     }
 
@@ -76,7 +99,7 @@ export class RunTreeItem extends vscode.TreeItem {
         const resultStr = String(this.run.result || '').toLowerCase();
 
         if (statusStr === 'inprogress' || statusStr === 'notstarted') {
-            return 'run-running';
+            return this.isWatched ? 'run-running-watched' : 'run-running';
         }
 
         if (resultStr === 'succeeded') {
@@ -135,73 +158,217 @@ export class RunTreeItem extends vscode.TreeItem {
     }
 }
 
-export class RunsTreeProvider implements vscode.TreeDataProvider<RunTreeItem> {
-    private _onDidChangeTreeData = new vscode.EventEmitter<RunTreeItem | undefined | void>();
+export class RunsTreeProvider implements vscode.TreeDataProvider<RunsTreeElement> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<RunsTreeElement | undefined | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    // Fired after each refresh of a project's runs (used by the notification rules)
+    private _onDidLoadRuns = new vscode.EventEmitter<{ scope: ProjectScope; runs: PipelineRun[] }>();
+    readonly onDidLoadRuns = this._onDidLoadRuns.event;
 
-    private runs: PipelineRun[] = [];
-    private pipelineFilter?: number;
+    private states: Map<string, ScopeState> = new Map();
+    private pipelineFilter?: { pipelineId: number; scope?: ProjectScope };
     private filterManager: FilterManager;
 
-    constructor(private client: AzureDevOpsClient) {
+    constructor(
+        private scopes: ScopeManager,
+        private runWatcher: RunWatcher
+    ) {
         this.filterManager = new FilterManager();
         this.filterManager.onFilterChanged(() => this.refresh());
+        // Watching doesn't change the runs, just how they are shown
+        runWatcher.onDidChangeWatches(() => this._onDidChangeTreeData.fire());
     }
 
     refresh(): void {
+        for (const state of this.states.values()) {
+            state.stale = true;
+        }
         this._onDidChangeTreeData.fire();
     }
 
-    setFilter(pipelineId?: number): void {
-        this.pipelineFilter = pipelineId;
+    /**
+     * Show only the runs of one pipeline; the scope defaults to the active project
+     */
+    setFilter(pipelineId?: number, scope?: ProjectScope): void {
+        this.pipelineFilter = pipelineId !== undefined ? { pipelineId, scope } : undefined;
+        this.states.clear();
         this.refresh();
     }
 
     clearFilter(): void {
         this.pipelineFilter = undefined;
+        this.states.clear();
         this.refresh();
     }
 
-    getTreeItem(element: RunTreeItem): vscode.TreeItem {
+    getTreeItem(element: RunsTreeElement): vscode.TreeItem {
         return element;
     }
 
-    async getChildren(element?: RunTreeItem): Promise<RunTreeItem[]> {
+    async getChildren(element?: RunsTreeElement): Promise<RunsTreeElement[]> {
+        if (element instanceof OrganizationTreeItem) {
+            return element.scopes.map(scope => new ProjectTreeItem(scope, this.scopes.isPrimary(scope)));
+        }
+
+        if (element instanceof ProjectTreeItem) {
+            return this.getScopeChildren(element.scope);
+        }
+
         if (element) {
             return [];
         }
 
-        try {
-            const config = this.client.getConfig();
-            if (!config.organizationUrl || !config.projectName) {
-                return [];
-            }
+        const scopes = this.getVisibleScopes();
+        this.pruneStates(scopes);
+
+        if (scopes.length === 0) {
+            return [];
+        }
 
-            this.runs = await this.client.getPipelineRuns(this.pipelineFilter, 50);
+        if (scopes.length === 1) {
+            return this.getScopeChildren(scopes[0]);
+        }
 
-            // Fetch commit messages for runs (in parallel)
-            await this.fetchCommitMessages(this.runs);
+        return groupScopesByOrganization(scopes);
+    }
 
-            // Apply filters
-            const filteredRuns = this.runs.filter(run => this.filterManager.matchesFilter(run));
+    /**
+     * All shown projects, or only the filtered pipeline's project
+     */
+    private getVisibleScopes(): ProjectScope[] {
+        const scopes = this.scopes.getScopes();
+        if (!this.pipelineFilter) {
+            return scopes;
+        }
+
+        const filterScope = this.pipelineFilter.scope || this.scopes.getPrimaryScope();
+        const filterKey = filterScope ? ScopeManager.keyOf(filterScope) : undefined;
+        return scopes.filter(scope => ScopeManager.keyOf(scope) === filterKey);
+    }
+
+    private async getScopeChildren(scope: ProjectScope): Promise<Array<RunTreeItem | LoadMoreTreeItem>> {
+        try {
+            const state = this.getState(scope);
+
+            if (state.stale) {
+                await this.reloadRuns(scope, state);
+            }
 
-            return filteredRuns.map(
-                run => new RunTreeItem(run, vscode.TreeItemCollapsibleState.None)
+            // Apply filters
+            const filteredRuns = state.runs.filter(run => this.filterManager.matchesFilter(run));
+
+            const items: Array<RunTreeItem | LoadMoreTreeItem> = filteredRuns.map(
+                run => new RunTreeItem(
+                    run,
+                    vscode.TreeItemCollapsibleState.None,
+                    undefined,
+                    scope,
+                    this.runWatcher.isWatched(scope, run.id)
+                )
             );
+
+            if (state.continuationToken) {
+                items.push(new LoadMoreTreeItem('azurePipelines.loadMoreRuns', state.runs.length, [scope]));
+            }
+
+            return items;
         } catch (error) {
             console.error('Failed to load runs:', error);
             return [];
         }
     }
 
+    private getState(scope: ProjectScope): ScopeState {
+        const key = ScopeManager.keyOf(scope);
+        let state = this.states.get(key);
+        if (!state) {
+            state = {
+                client: this.scopes.getClient(scope),
+                runs: [],
+                pagesLoaded: 1,
+                stale: true
+            };
+            this.states.set(key, state);
+        }
+        return state;
+    }
+
+    /**
+     * Forget projects that were removed from the view
+     */
+    private pruneStates(scopes: ProjectScope[]): void {
+        const keys = new Set(scopes.map(scope => ScopeManager.keyOf(scope)));
+        for (const key of Array.from(this.states.keys())) {
+            if (!keys.has(key)) {
+                this.states.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Fetch the next page of runs and append it to the tree
+     */
+    async loadMore(scope?: ProjectScope): Promise<void> {
+        const target = scope || this.scopes.getPrimaryScope();
+        if (!target) {
+            return;
+        }
+
+        const state = this.getState(target);
+        if (!state.continuationToken) {
+            return;
+        }
+
+        try {
+            const page = await state.client.getPipelineRunsPage(this.pipelineFilter?.pipelineId, this.getPageSize(), state.continuationToken);
+            await this.fetchCommitMessages(state.client, page.items);
+            state.runs.push(...this.scopes.tag(page.items, target));
+            state.continuationToken = page.continuationToken;
+            state.pagesLoaded++;
+            this._onDidChangeTreeData.fire();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load more runs: ${error}`);
+        }
+    }
+
+    /**
+     * Re-fetch as many pages as are currently shown so a refresh doesn't collapse "Load more"
+     */
+    private async reloadRuns(scope: ProjectScope, state: ScopeState): Promise<void> {
+        const runs: PipelineRun[] = [];
+        let continuationToken: string | undefined;
+
+        for (let page = 0; page < state.pagesLoaded; page++) {
+            const result = await state.client.getPipelineRunsPage(this.pipelineFilter?.pipelineId, this.getPageSize(), continuationToken);
+            runs.push(...result.items);
+            continuationToken = result.continuationToken;
+            if (!continuationToken) {
+                break;
+            }
+        }
+
+        // Fetch commit messages for runs (in parallel)
+        await this.fetchCommitMessages(state.client, runs);
+
+        state.runs = this.scopes.tag(runs, scope);
+        state.continuationToken = continuationToken;
+        state.stale = false;
+        this._onDidLoadRuns.fire({ scope, runs: state.runs });
+    }
+
+    private getPageSize(): number {
+        const config = vscode.workspace.getConfiguration('azurePipelines');
+        return Math.max(1, config.get<number>('maxRunsToShow', 50));
+    }
+
     /**
      * Fetch commit messages for runs in parallel
      */
-    private async fetchCommitMessages(runs: PipelineRun[]): Promise<void> {
+    private async fetchCommitMessages(client: AzureDevOpsClient, runs: PipelineRun[]): Promise<void> {
         const promises = runs.map(async (run) => {
             if (run.repository?.id && run.sourceVersion) {
                 try {
-                    run.commitMessage = await this.client.getCommitMessage(
+                    run.commitMessage = await client.getCommitMessage(
                         run.repository.id,
                         run.sourceVersion
                     );
@@ -215,8 +382,21 @@ export class RunsTreeProvider implements vscode.TreeDataProvider<RunTreeItem> {
         await Promise.all(promises);
     }
 
+    /**
+     * Get all loaded runs across the shown projects
+     */
     getRuns(): PipelineRun[] {
-        return this.runs;
+        return Array.from(this.states.values()).flatMap(state => state.runs);
+    }
+
+    /**
+     * Check whether any loaded run is queued or in progress
+     */
+    hasActiveRuns(): boolean {
+        return this.getRuns().some(run => {
+            const statusStr = String(run.status || '').toLowerCase();
+            return statusStr === 'inprogress' || statusStr === 'notstarted';
+        });
     }
     
     async showFilterDialog(): Promise<void> {
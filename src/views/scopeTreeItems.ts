@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { ProjectScope } from '../models/types';
+
+/**
+ * Top-level organization node shown when several projects are added to the views
+ */
+export class OrganizationTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly organizationUrl: string,
+        organizationName: string,
+        public readonly scopes: ProjectScope[]
+    ) {
+        super(organizationName, vscode.TreeItemCollapsibleState.Expanded);
+
+        this.tooltip = organizationUrl;
+        this.contextValue = 'scopeOrganization';
+        this.iconPath = new vscode.ThemeIcon('organization');
+    }
+}
+
+/**
+ * Project node under an organization; everything below it uses the project's client
+ */
+export class ProjectTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly scope: ProjectScope,
+        isPrimary: boolean
+    ) {
+        super(scope.projectName, vscode.TreeItemCollapsibleState.Expanded);
+
+        this.tooltip = `${scope.organizationName} / ${scope.projectName}`;
+        this.description = isPrimary ? 'active' : undefined;
+        // Only added projects can be removed; the active one follows "Select Organization"
+        this.contextValue = isPrimary ? 'scopeProject' : 'scopeProject-removable';
+        this.iconPath = new vscode.ThemeIcon('project');
+    }
+}
+
+/**
+ * Group scopes into organization nodes, keeping the order they were added in
+ */
+export function groupScopesByOrganization(scopes: ProjectScope[]): OrganizationTreeItem[] {
+    const groups = new Map<string, ProjectScope[]>();
+    for (const scope of scopes) {
+        const key = scope.organizationUrl.replace(/\/+$/, '').toLowerCase();
+        groups.set(key, [...(groups.get(key) || []), scope]);
+    }
+
+    return Array.from(groups.values()).map(
+        group => new OrganizationTreeItem(group[0].organizationUrl, group[0].organizationName, group)
+    );
+}
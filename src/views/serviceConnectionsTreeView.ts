@@ -1,11 +1,15 @@
 import * as vscode from 'vscode';
-import { AzureDevOpsClient } from '../api/azureDevOpsClient';
-import { ServiceEndpoint } from '../models/types';
+import { ProjectScope, ServiceEndpoint } from '../models/types';
+import { OrganizationTreeItem, ProjectTreeItem, groupScopesByOrganization } from './scopeTreeItems';
+import { ScopeManager } from '../services/scopeManager';
+
+type ServiceConnectionsTreeElement = ServiceConnectionTreeItem | OrganizationTreeItem | ProjectTreeItem;
 
 export class ServiceConnectionTreeItem extends vscode.TreeItem {
     constructor(
         public readonly connection: ServiceEndpoint,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly scope?: ProjectScope
     ) {
         super(connection.name, collapsibleState);
 
@@ -52,37 +56,54 @@ export class ServiceConnectionTreeItem extends vscode.TreeItem {
     }
 }
 
-export class ServiceConnectionsTreeProvider implements vscode.TreeDataProvider<ServiceConnectionTreeItem> {
-    private _onDidChangeTreeData = new vscode.EventEmitter<ServiceConnectionTreeItem | undefined | void>();
+export class ServiceConnectionsTreeProvider implements vscode.TreeDataProvider<ServiceConnectionsTreeElement> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<ServiceConnectionsTreeElement | undefined | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-    private connections: ServiceEndpoint[] = [];
+    private connections: Map<string, ServiceEndpoint[]> = new Map();
 
-    constructor(private client: AzureDevOpsClient) {}
+    constructor(private scopes: ScopeManager) {}
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: ServiceConnectionTreeItem): vscode.TreeItem {
+    getTreeItem(element: ServiceConnectionsTreeElement): vscode.TreeItem {
         return element;
     }
 
-    async getChildren(element?: ServiceConnectionTreeItem): Promise<ServiceConnectionTreeItem[]> {
+    async getChildren(element?: ServiceConnectionsTreeElement): Promise<ServiceConnectionsTreeElement[]> {
+        if (element instanceof OrganizationTreeItem) {
+            return element.scopes.map(scope => new ProjectTreeItem(scope, this.scopes.isPrimary(scope)));
+        }
+
+        if (element instanceof ProjectTreeItem) {
+            return this.getScopeChildren(element.scope);
+        }
+
         if (element) {
             return [];
         }
 
+        const scopes = this.scopes.getScopes();
+        if (scopes.length === 0) {
+            return [];
+        }
+
+        if (scopes.length === 1) {
+            return this.getScopeChildren(scopes[0]);
+        }
+
+        return groupScopesByOrganization(scopes);
+    }
+
+    private async getScopeChildren(scope: ProjectScope): Promise<ServiceConnectionTreeItem[]> {
         try {
-            const config = this.client.getConfig();
-            if (!config.organizationUrl || !config.projectName) {
-                return [];
-            }
-
-            this.connections = await this.client.getServiceEndpoints();
-            
-            return this.connections.map(
-                conn => new ServiceConnectionTreeItem(conn, vscode.TreeItemCollapsibleState.None)
+            const connections = await this.scopes.getClient(scope).getServiceEndpoints();
+            this.connections.set(ScopeManager.keyOf(scope), this.scopes.tag(connections, scope));
+
+            return connections.map(
+                conn => new ServiceConnectionTreeItem(conn, vscode.TreeItemCollapsibleState.None, scope)
             );
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to load service connections: ${error}`);
@@ -90,7 +111,10 @@ export class ServiceConnectionsTreeProvider implements vscode.TreeDataProvider<S
         }
     }
 
+    /**
+     * Get the loaded connections across the shown projects
+     */
     getConnections(): ServiceEndpoint[] {
-        return this.connections;
+        return Array.from(this.connections.values()).flat();
     }
 }
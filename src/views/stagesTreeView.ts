@@ -1,8 +1,18 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { AzureDevOpsClient } from '../api/azureDevOpsClient';
-import { PipelineRun, Timeline, TimelineRecord } from '../models/types';
+import { PipelineCheck, PipelineRun, Timeline, TimelineRecord } from '../models/types';
 import { formatDurationBetween } from '../utils/formatDuration';
+import { isRetryableStage } from '../utils/stageRetry';
+
+/**
+ * Timeline loaded for the run shown in the Stages view
+ */
+export interface LoadedTimeline {
+    run: PipelineRun;
+    client: AzureDevOpsClient;
+    records: TimelineRecord[];
+}
 
 /**
  * Tree item for stages view
@@ -11,7 +21,8 @@ export class StageTreeItem extends vscode.TreeItem {
     constructor(
         public readonly record: TimelineRecord,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        public readonly run?: PipelineRun
+        public readonly run?: PipelineRun,
+        public readonly pendingChecks: PipelineCheck[] = []
     ) {
         super(record.name || 'Unknown', collapsibleState);
 
@@ -38,6 +49,14 @@ export class StageTreeItem extends vscode.TreeItem {
             `Result: ${this.record.result || 'N/A'}`
         ];
 
+        if (this.record.attempt && this.record.attempt > 1) {
+            lines.push(`Attempt: ${this.record.attempt}`);
+        }
+
+        if (this.pendingChecks.length > 0) {
+            lines.push(`Waiting for: ${this.pendingChecks.map(check => check.name).join(', ')}`);
+        }
+
         if (this.record.startTime) {
             lines.push(`Started: ${new Date(this.record.startTime).toLocaleString()}`);
         }
@@ -50,15 +69,43 @@ export class StageTreeItem extends vscode.TreeItem {
     }
 
     private buildDescription(): string {
+        const parts: string[] = [];
+
+        // Badge for stages held by an approval or other checks
+        if (this.getPendingApproval()) {
+            parts.push('⏳ waiting for approval');
+        } else if (this.pendingChecks.length > 0) {
+            parts.push('⏳ waiting for checks');
+        }
+
         // Show duration if available
         if (this.record.startTime && this.record.finishTime) {
-            return formatDurationBetween(this.record.startTime, this.record.finishTime);
+            parts.push(formatDurationBetween(this.record.startTime, this.record.finishTime));
         }
 
-        return '';
+        // Stages and jobs that were retried show which attempt this is
+        if (this.record.attempt && this.record.attempt > 1) {
+            parts.push(`attempt ${this.record.attempt}`);
+        }
+
+        return parts.join(' · ');
+    }
+
+    /**
+     * The approval this stage is waiting for, if any
+     */
+    getPendingApproval(): PipelineCheck | undefined {
+        return this.pendingChecks.find(check => check.type === 'Checkpoint.Approval');
     }
 
     private getContextValue(): string {
+        if (this.getPendingApproval()) {
+            return 'stage-approval';
+        }
+        // Finished stages that didn't succeed can be retried in place
+        if (isRetryableStage(this.record)) {
+            return 'stage-retryable';
+        }
         return this.record.type.toLowerCase();
     }
 
@@ -66,6 +113,13 @@ export class StageTreeItem extends vscode.TreeItem {
         const state = (this.record.state || '').toLowerCase();
         const result = (this.record.result || '').toLowerCase();
 
+        if (this.getPendingApproval()) {
+            return new vscode.ThemeIcon('person', new vscode.ThemeColor('charts.yellow'));
+        }
+        if (this.pendingChecks.length > 0) {
+            return new vscode.ThemeIcon('shield', new vscode.ThemeColor('charts.yellow'));
+        }
+
         // Check if in progress
         if (state === 'inprogress' || state === 'pending') {
             return new vscode.ThemeIcon('loading~spin', new vscode.ThemeColor('charts.blue'));
@@ -111,10 +165,14 @@ export class StageTreeItem extends vscode.TreeItem {
 export class StagesTreeProvider implements vscode.TreeDataProvider<StageTreeItem> {
     private _onDidChangeTreeData = new vscode.EventEmitter<StageTreeItem | undefined | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    // Fired with the timeline of each run loaded, and undefined when the view is cleared
+    private readonly onDidLoadTimelineEmitter = new vscode.EventEmitter<LoadedTimeline | undefined>();
+    readonly onDidLoadTimeline = this.onDidLoadTimelineEmitter.event;
 
     private currentRun?: PipelineRun;
     private timeline?: Timeline;
     private allRecords: TimelineRecord[] = [];
+    private pendingChecks: PipelineCheck[] = [];
 
     constructor(private client: AzureDevOpsClient) {}
 
@@ -153,7 +211,8 @@ export class StagesTreeProvider implements vscode.TreeDataProvider<StageTreeItem
                     this.hasChildren(record)
                         ? vscode.TreeItemCollapsibleState.Collapsed
                         : vscode.TreeItemCollapsibleState.None,
-                    this.currentRun
+                    this.currentRun,
+                    this.pendingChecks.filter(check => check.stageId === record.id)
                 ));
         } else {
             // Show children of this element (Jobs or Tasks)
@@ -181,7 +240,7 @@ export class StagesTreeProvider implements vscode.TreeDataProvider<StageTreeItem
     /**
      * Load stages for a specific run
      */
-    async loadStages(run: PipelineRun): Promise<void> {
+    async loadStages(run: PipelineRun, client: AzureDevOpsClient = this.client): Promise<void> {
         try {
             await vscode.window.withProgress(
                 {
@@ -193,7 +252,7 @@ export class StagesTreeProvider implements vscode.TreeDataProvider<StageTreeItem
                     progress.report({ increment: 0 });
 
                     this.currentRun = run;
-                    this.timeline = await this.client.getRunTimeline(run.id);
+                    this.timeline = await client.getRunTimeline(run.id);
 
                     if (this.timeline && this.timeline.records) {
                         this.allRecords = this.timeline.records;
@@ -201,7 +260,11 @@ export class StagesTreeProvider implements vscode.TreeDataProvider<StageTreeItem
                         this.allRecords = [];
                     }
 
+                    // Read from the same timeline response (cached), so this costs no extra request
+                    this.pendingChecks = await client.getPendingChecks(run.id).catch(() => []);
+
                     this._onDidChangeTreeData.fire();
+                    this.onDidLoadTimelineEmitter.fire({ run, client, records: this.allRecords });
                     progress.report({ increment: 100 });
                 }
             );
@@ -219,7 +282,9 @@ export class StagesTreeProvider implements vscode.TreeDataProvider<StageTreeItem
         this.currentRun = undefined;
         this.timeline = undefined;
         this.allRecords = [];
+        this.pendingChecks = [];
         this._onDidChangeTreeData.fire();
+        this.onDidLoadTimelineEmitter.fire(undefined);
     }
 
     /**
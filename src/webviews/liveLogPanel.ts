@@ -1,13 +1,30 @@
 import * as vscode from 'vscode';
 import { AzureDevOpsClient } from '../api/azureDevOpsClient';
+import { ansiToHtml, LogLineKind, parseLogLine, stripAnsi } from '../utils/logParser';
+
+// Lines sent to the webview per message, so multi-MB logs don't arrive as one huge message
+const APPEND_CHUNK_SIZE = 2000;
+
+/**
+ * A rendered log line sent to the webview, which builds groups and the problems list from the kinds
+ */
+interface RenderedLogLine {
+    kind: LogLineKind;
+    html: string;
+    text?: string;           // Plain text of errors and warnings, for the problems sidebar
+}
 
 export class LiveLogPanel {
     private static panels: Map<number, LiveLogPanel> = new Map();
     private readonly panel: vscode.WebviewPanel;
     private disposables: vscode.Disposable[] = [];
     private refreshInterval?: NodeJS.Timeout;
-    private logContent: string = '';
-    private lastLogId: number = 0;
+    // Number of lines already sent to the webview; the next fetch starts after it
+    private lineCount: number = 0;
+    private fetching: boolean = false;
+    private completed: boolean = false;
+    // Timestamp of the first line, the origin of the relative times in the gutter
+    private startTime?: number;
 
     private constructor(
         panel: vscode.WebviewPanel,
@@ -17,7 +34,8 @@ export class LiveLogPanel {
     ) {
         this.panel = panel;
         this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
-        
+
+        this.panel.webview.html = this.getHtmlContent();
         this.startStreaming();
 
         this.panel.webview.onDidReceiveMessage(
@@ -41,7 +59,7 @@ export class LiveLogPanel {
 
     public static async show(client: AzureDevOpsClient, runId: number, logId: number, logName: string) {
         const key = runId * 1000 + logId;
-        
+
         if (LiveLogPanel.panels.has(key)) {
             LiveLogPanel.panels.get(key)!.panel.reveal();
             return;
@@ -62,11 +80,16 @@ export class LiveLogPanel {
     }
 
     private async startStreaming() {
-        await this.fetchLogs();
-        
+        if (this.refreshInterval || this.completed) {
+            return;
+        }
+
         this.refreshInterval = setInterval(async () => {
             await this.fetchLogs();
         }, 2000);
+        this.postStatus();
+
+        await this.fetchLogs();
     }
 
     private stopStreaming() {
@@ -74,26 +97,67 @@ export class LiveLogPanel {
             clearInterval(this.refreshInterval);
             this.refreshInterval = undefined;
         }
+        this.postStatus();
     }
 
+    /**
+     * Fetch the lines written since the last fetch and append them to the webview
+     */
     private async fetchLogs() {
+        if (this.fetching) {
+            return;
+        }
+        this.fetching = true;
+
         try {
-            const content = await this.client.getLogContent(this.runId, this.logId);
-            
-            if (content !== this.logContent) {
-                this.logContent = content;
-                this.updateView();
+            // Check first, so the lines written just before the step finished are still fetched
+            const finished = this.completed || await this.isLogComplete();
+
+            const lines = await this.client.getLogLines(this.runId, this.logId, this.lineCount + 1);
+            for (let i = 0; i < lines.length; i += APPEND_CHUNK_SIZE) {
+                const chunk = lines.slice(i, i + APPEND_CHUNK_SIZE);
+                const rendered = chunk.map((line, j) => this.renderLine(line, this.lineCount + j + 1));
+                this.lineCount += chunk.length;
+                await this.panel.webview.postMessage({ command: 'append', lines: rendered, lineCount: this.lineCount });
+            }
+
+            if (finished && !this.completed) {
+                this.completed = true;
+                this.stopStreaming();
             }
         } catch (error) {
             console.error('Failed to fetch logs:', error);
+        } finally {
+            this.fetching = false;
         }
     }
 
-    private updateView() {
-        const lines = this.logContent.split('\n');
-        const isStreaming = !!this.refreshInterval;
+    /**
+     * Whether the step writing this log has finished; logs without a timeline
+     * record (e.g. the run's own log) finish with the run
+     */
+    private async isLogComplete(): Promise<boolean> {
+        const timeline = await this.client.getRunTimeline(this.runId);
+        const record = (timeline.records || []).find(r => r.log?.id === this.logId);
+        if (record) {
+            return (record.state || '').toLowerCase() === 'completed';
+        }
+
+        const run = await this.client.getRun(this.runId);
+        return run.status === 'completed';
+    }
 
-        this.panel.webview.html = `<!DOCTYPE html>
+    private postStatus() {
+        this.panel.webview.postMessage({
+            command: 'status',
+            streaming: !!this.refreshInterval,
+            completed: this.completed,
+            lineCount: this.lineCount
+        });
+    }
+
+    private getHtmlContent(): string {
+        return `<!DOCTYPE html>
 <html>
 <head>
     <meta charset="UTF-8">
@@ -101,7 +165,7 @@ export class LiveLogPanel {
     <style>
         * { margin: 0; padding: 0; box-sizing: border-box; }
         body {
-            font-family: 'Courier New', monospace;
+            font-family: var(--vscode-editor-font-family), monospace;
             background: var(--vscode-editor-background);
             color: var(--vscode-editor-foreground);
             padding: 10px;
@@ -127,118 +191,331 @@ export class LiveLogPanel {
             font-size: 12px;
         }
         button:hover { background: var(--vscode-button-hoverBackground); }
+        button.toggled {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            outline: 1px solid var(--vscode-focusBorder);
+        }
         .status {
             margin-left: auto;
             font-size: 12px;
             color: var(--vscode-descriptionForeground);
         }
         .streaming { color: #28a745; }
+        .layout { display: flex; align-items: flex-start; gap: 10px; }
         .log-container {
+            flex: 1;
+            min-width: 0;
             padding: 10px;
             overflow-x: auto;
         }
         .log-line {
-            padding: 2px 0;
+            padding: 1px 0;
             white-space: pre;
-            font-size: 13px;
+            font-size: var(--vscode-editor-font-size, 13px);
             line-height: 1.5;
         }
         .log-line:hover {
             background: var(--vscode-list-hoverBackground);
         }
+        .log-line.flash { background: var(--vscode-editor-findMatchHighlightBackground); }
         .line-number {
             display: inline-block;
             width: 50px;
             color: var(--vscode-editorLineNumber-foreground);
             user-select: none;
             text-align: right;
-            margin-right: 15px;
+            margin-right: 10px;
+        }
+        .timestamp {
+            display: inline-block;
+            width: 70px;
+            color: var(--vscode-descriptionForeground);
+            user-select: none;
+            margin-right: 10px;
         }
-        .error { color: #dc3545; }
-        .warning { color: #ffa500; }
-        .success { color: #28a745; }
-        .info { color: #007acc; }
+        body.hide-timestamps .timestamp { display: none; }
+        .kind-section {
+            font-weight: bold;
+            margin-top: 6px;
+            border-top: 1px solid var(--vscode-panel-border);
+            padding-top: 4px;
+        }
+        .kind-error .text { color: var(--vscode-errorForeground); }
+        .kind-error { background: var(--vscode-inputValidation-errorBackground); }
+        .kind-warning .text { color: var(--vscode-editorWarning-foreground); }
+        .kind-command .text { color: var(--vscode-terminal-ansiBlue); }
+        .kind-debug .text { color: var(--vscode-descriptionForeground); }
+        .kind-vso .text { color: var(--vscode-terminal-ansiMagenta); font-style: italic; opacity: 0.8; }
+        details.log-group > summary {
+            list-style: none;
+            cursor: pointer;
+        }
+        details.log-group > summary::-webkit-details-marker { display: none; }
+        details.log-group > summary .text::before { content: '▸ '; }
+        details.log-group[open] > summary .text::before { content: '▾ '; }
+        .group-body { border-left: 1px solid var(--vscode-panel-border); margin-left: 60px; }
+        .problems {
+            position: sticky;
+            top: 60px;
+            width: 300px;
+            max-height: calc(100vh - 80px);
+            overflow-y: auto;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            padding: 8px;
+            font-family: var(--vscode-font-family);
+            font-size: 12px;
+        }
+        .problems.hidden { display: none; }
+        .problems h4 { margin-bottom: 6px; }
+        .problem {
+            padding: 4px;
+            cursor: pointer;
+            border-radius: 3px;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .problem:hover { background: var(--vscode-list-hoverBackground); }
+        .problem.error { color: var(--vscode-errorForeground); }
+        .problem.warning { color: var(--vscode-editorWarning-foreground); }
+        .problem .ref { color: var(--vscode-descriptionForeground); margin-right: 6px; }
+        .empty { color: var(--vscode-descriptionForeground); }
     </style>
 </head>
 <body>
     <div class="toolbar">
         <button onclick="refresh()">🔄 Refresh</button>
-        ${isStreaming 
-            ? '<button onclick="stop()">⏸️ Stop Streaming</button>' 
-            : '<button onclick="start()">▶️ Start Streaming</button>'}
-        <button onclick="scrollToBottom()">⬇️ Scroll to Bottom</button>
-        <span class="status ${isStreaming ? 'streaming' : ''}">
-            ${isStreaming ? '● Live' : '○ Paused'} | ${lines.length} lines
-        </span>
+        <button id="streamButton" onclick="toggleStreaming()">⏸️ Stop Streaming</button>
+        <button id="pinButton" class="toggled" onclick="togglePin()" title="Keep the newest lines in view">📌 Pin to Bottom</button>
+        <button id="timestampsButton" class="toggled" onclick="toggleTimestamps()" title="Show time since the start of the log">🕒 Timestamps</button>
+        <button id="problemsButton" onclick="toggleProblems()">⚠️ Problems (0)</button>
+        <span class="status streaming" id="status">● Live | 0 lines</span>
     </div>
-    <div class="log-container" id="logContainer">
-        ${lines.map((line, i) => this.formatLogLine(line, i + 1)).join('')}
+    <div class="layout">
+        <div class="log-container" id="logContainer"></div>
+        <div class="problems hidden" id="problems">
+            <h4>Errors and warnings</h4>
+            <div id="problemList"><div class="empty">None so far</div></div>
+        </div>
     </div>
     <script>
         const vscode = acquireVsCodeApi();
-        
+        const container = document.getElementById('logContainer');
+        const streamButton = document.getElementById('streamButton');
+        const pinButton = document.getElementById('pinButton');
+        const timestampsButton = document.getElementById('timestampsButton');
+        const problemsButton = document.getElementById('problemsButton');
+        const problemsPanel = document.getElementById('problems');
+        const problemList = document.getElementById('problemList');
+        const status = document.getElementById('status');
+
+        let streaming = true;
+        let completed = false;
+        let pinned = true;
+        let lineCount = 0;
+        let problemCount = 0;
+        // Shown automatically for the first problem, unless the user closed the sidebar
+        let problemsToggled = false;
+        // Body of the ##[group] being written, which may continue in later appends
+        let currentGroup = null;
+        // Scroll events caused by following the tail must not unpin
+        let autoScrolling = false;
+
         function refresh() {
             vscode.postMessage({ command: 'refresh' });
         }
-        
-        function stop() {
-            vscode.postMessage({ command: 'stop' });
+
+        function toggleStreaming() {
+            vscode.postMessage({ command: streaming ? 'stop' : 'start' });
+        }
+
+        function togglePin() {
+            setPinned(!pinned);
+            if (pinned) {
+                scrollToBottom();
+            }
+        }
+
+        function toggleTimestamps() {
+            const hidden = document.body.classList.toggle('hide-timestamps');
+            timestampsButton.classList.toggle('toggled', !hidden);
+        }
+
+        function toggleProblems() {
+            problemsToggled = true;
+            const hidden = problemsPanel.classList.toggle('hidden');
+            problemsButton.classList.toggle('toggled', !hidden);
         }
-        
-        function start() {
-            vscode.postMessage({ command: 'start' });
+
+        function setPinned(value) {
+            pinned = value;
+            pinButton.classList.toggle('toggled', pinned);
         }
-        
+
         function scrollToBottom() {
+            autoScrolling = true;
             window.scrollTo(0, document.body.scrollHeight);
+            requestAnimationFrame(() => { autoScrolling = false; });
+        }
+
+        function jumpTo(lineNumber) {
+            const line = document.getElementById('L' + lineNumber);
+            if (!line) {
+                return;
+            }
+            // Expand the group holding the line
+            const group = line.closest('details');
+            if (group) {
+                group.open = true;
+            }
+            setPinned(false);
+            line.scrollIntoView({ block: 'center' });
+            line.classList.add('flash');
+            setTimeout(() => line.classList.remove('flash'), 1500);
+        }
+
+        function renderStatus() {
+            streamButton.textContent = streaming ? '⏸️ Stop Streaming' : '▶️ Start Streaming';
+            streamButton.style.display = completed ? 'none' : '';
+            status.classList.toggle('streaming', streaming);
+            status.textContent = (completed ? '✓ Completed' : streaming ? '● Live' : '○ Paused') + ' | ' + lineCount + ' lines';
+        }
+
+        function addProblem(kind, lineNumber, text) {
+            if (problemCount === 0) {
+                problemList.innerHTML = '';
+                if (!problemsToggled) {
+                    problemsPanel.classList.remove('hidden');
+                    problemsButton.classList.add('toggled');
+                }
+            }
+            problemCount++;
+            problemsButton.textContent = '⚠️ Problems (' + problemCount + ')';
+
+            const item = document.createElement('div');
+            item.className = 'problem ' + kind;
+            item.title = text;
+            item.onclick = () => jumpTo(lineNumber);
+            const ref = document.createElement('span');
+            ref.className = 'ref';
+            ref.textContent = 'L' + lineNumber;
+            item.appendChild(ref);
+            item.appendChild(document.createTextNode(text));
+            problemList.appendChild(item);
         }
-        
-        // Auto-scroll if near bottom
-        let wasAtBottom = true;
+
+        function appendLines(lines, firstLineNumber) {
+            lines.forEach((line, index) => {
+                const lineNumber = firstLineNumber + index;
+                if (line.kind === 'groupStart') {
+                    const group = document.createElement('details');
+                    group.className = 'log-group';
+                    const summary = document.createElement('summary');
+                    summary.innerHTML = line.html;
+                    const body = document.createElement('div');
+                    body.className = 'group-body';
+                    group.appendChild(summary);
+                    group.appendChild(body);
+                    container.appendChild(group);
+                    currentGroup = body;
+                    return;
+                }
+                if (line.kind === 'groupEnd') {
+                    currentGroup = null;
+                    return;
+                }
+                // A new step always starts outside any group
+                if (line.kind === 'section') {
+                    currentGroup = null;
+                }
+
+                (currentGroup || container).insertAdjacentHTML('beforeend', line.html);
+                if (line.text !== undefined) {
+                    addProblem(line.kind, lineNumber, line.text);
+                }
+            });
+        }
+
+        // Scrolling up stops following the tail; scrolling back to the bottom resumes it
         window.addEventListener('scroll', () => {
-            const threshold = 100;
-            wasAtBottom = (window.innerHeight + window.scrollY) >= (document.body.scrollHeight - threshold);
+            if (autoScrolling) {
+                return;
+            }
+            const threshold = 50;
+            const atBottom = (window.innerHeight + window.scrollY) >= (document.body.scrollHeight - threshold);
+            if (atBottom !== pinned) {
+                setPinned(atBottom);
+            }
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            switch (message.command) {
+                case 'append':
+                    appendLines(message.lines, message.lineCount - message.lines.length + 1);
+                    lineCount = message.lineCount;
+                    renderStatus();
+                    if (pinned) {
+                        scrollToBottom();
+                    }
+                    break;
+                case 'status':
+                    streaming = message.streaming;
+                    completed = message.completed;
+                    lineCount = message.lineCount;
+                    renderStatus();
+                    break;
+            }
         });
-        
-        // Auto-scroll on update if was at bottom
-        if (wasAtBottom && ${isStreaming}) {
-            scrollToBottom();
-        }
     </script>
 </body>
 </html>`;
     }
 
-    private formatLogLine(line: string, lineNumber: number): string {
-        let className = '';
-        const lower = line.toLowerCase();
-        
-        if (lower.includes('error') || lower.includes('failed')) {
-            className = 'error';
-        } else if (lower.includes('warning') || lower.includes('warn')) {
-            className = 'warning';
-        } else if (lower.includes('success') || lower.includes('succeeded')) {
-            className = 'success';
-        } else if (lower.includes('info') || lower.includes('starting')) {
-            className = 'info';
-        }
-
-        const escaped = line
-            .replace(/&/g, '&amp;')
-            .replace(/</g, '&lt;')
-            .replace(/>/g, '&gt;')
-            .replace(/"/g, '&quot;');
-
-        return `<div class="log-line ${className}"><span class="line-number">${lineNumber}</span>${escaped}</div>`;
+    private renderLine(raw: string, lineNumber: number): RenderedLogLine {
+        const line = parseLogLine(raw);
+
+        let gutter = '';
+        if (line.timestamp && !isNaN(line.timestamp.getTime())) {
+            const time = line.timestamp.getTime();
+            this.startTime = this.startTime ?? time;
+            gutter = `<span class="timestamp" title="${line.timestamp.toLocaleString()}">${this.formatOffset(time - this.startTime)}</span>`;
+        }
+
+        const html = `<div class="log-line kind-${line.kind}" id="L${lineNumber}">` +
+            `<span class="line-number">${lineNumber}</span>${gutter}<span class="text">${ansiToHtml(line.text)}</span></div>`;
+
+        return line.kind === 'error' || line.kind === 'warning'
+            ? { kind: line.kind, html, text: stripAnsi(line.text) }
+            : { kind: line.kind, html };
+    }
+
+    /**
+     * Time since the first line, e.g. "+1:05" or "+1:02:30"
+     */
+    private formatOffset(ms: number): string {
+        const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+        const hours = Math.floor(totalSeconds / 3600);
+        const minutes = Math.floor((totalSeconds % 3600) / 60);
+        const seconds = String(totalSeconds % 60).padStart(2, '0');
+        return hours > 0
+            ? `+${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+            : `+${minutes}:${seconds}`;
     }
 
     public dispose() {
         const key = this.runId * 1000 + this.logId;
         LiveLogPanel.panels.delete(key);
-        
-        this.stopStreaming();
+
+        // The webview is gone, so stop without posting a status update
+        if (this.refreshInterval) {
+            clearInterval(this.refreshInterval);
+            this.refreshInterval = undefined;
+        }
         this.panel.dispose();
-        
+
         while (this.disposables.length) {
             const disposable = this.disposables.pop();
             if (disposable) {
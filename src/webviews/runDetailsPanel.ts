@@ -3,6 +3,10 @@ import { AzureDevOpsClient } from '../api/azureDevOpsClient';
 import { PipelineRun, TimelineRecord } from '../models/types';
 import { PipelineEditorPanel } from './pipelineEditorPanel';
 import { LicenseManager } from '../services/licenseManager';
+import { getFailedStages, isRetryableStage, retryStages } from '../utils/stageRetry';
+import { diagnoseQueuedRun, QueuedJobDiagnosis } from '../utils/queueDiagnosis';
+import { formatDemand } from '../utils/demandMatcher';
+import { openLogDocument } from '../providers/pipelineLogProvider';
 
 export class RunDetailsPanel {
     private static currentPanel: RunDetailsPanel | undefined;
@@ -37,6 +41,9 @@ export class RunDetailsPanel {
                     case 'viewLog':
                         await this.viewLog(message.logId);
                         break;
+                    case 'openLogInEditor':
+                        await this.openLogInEditor(message.logId);
+                        break;
                     case 'openInBrowser':
                         vscode.env.openExternal(vscode.Uri.parse(this.run.url));
                         break;
@@ -46,6 +53,9 @@ export class RunDetailsPanel {
                     case 'rerunFailedJobs':
                         await this.rerunFailedJobs();
                         break;
+                    case 'retryStage':
+                        await this.retryStage(message.recordId);
+                        break;
                     case 'downloadLogs':
                         await this.downloadLogs();
                         break;
@@ -149,7 +159,16 @@ export class RunDetailsPanel {
             stageDeps = await this.fetchStages(pipelineId);
         }
 
-        this.panel.webview.html = this.getHtmlContent(timeline.records || [], logs, stageDeps);
+        // Explain why a run that hasn't started is still waiting for an agent
+        let waiting: QueuedJobDiagnosis[] | undefined;
+        if (this.run.status === 'notStarted') {
+            waiting = await diagnoseQueuedRun(this.client, this.run).catch(error => {
+                console.error('Failed to diagnose queued run:', error);
+                return undefined;
+            });
+        }
+
+        this.panel.webview.html = this.getHtmlContent(timeline.records || [], logs, stageDeps, waiting);
     }
 
     private async cancelRun() {
@@ -176,6 +195,18 @@ export class RunDetailsPanel {
         }
     }
 
+    /**
+     * Open a log in the native editor, for search, folding and diffing
+     */
+    private async openLogInEditor(logId: number) {
+        try {
+            await openLogDocument(this.client.getConfig(), this.run.id, logId);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to open log: ${errorMessage}`);
+        }
+    }
+
     private async runNewPipeline() {
         if (!LicenseManager.getInstance().isPremium()) {
             LicenseManager.getInstance().showUpgradePrompt('Run Pipeline');
@@ -214,68 +245,64 @@ export class RunDetailsPanel {
         }
     }
 
+    /**
+     * Retry the failed stages on this run (new attempt) instead of queueing a new run
+     */
     private async rerunFailedJobs() {
+        if (!LicenseManager.getInstance().isPremium()) {
+            LicenseManager.getInstance().showUpgradePrompt('Retry Stage');
+            return;
+        }
         try {
-            const pipelineId = this.run.pipeline?.id || this.run.definition?.id;
-            if (!pipelineId) {
-                vscode.window.showErrorMessage('Pipeline ID not found');
-                return;
-            }
-
-            // Get timeline to find failed stages/jobs
             const timeline = await this.client.getRunTimeline(this.run.id);
-            if (!timeline || !timeline.records) {
-                vscode.window.showErrorMessage('No timeline information available');
+            const failedStages = getFailedStages(timeline?.records || []);
+            if (failedStages.length === 0) {
+                vscode.window.showInformationMessage('No failed jobs found in this run');
                 return;
             }
 
-            // Find failed stages
-            const failedStages = timeline.records
-                .filter(record =>
-                    (record.type === 'Stage' || record.type === 'Job') &&
-                    record.result?.toLowerCase() === 'failed'
-                )
-                .map(record => record.name || 'Unknown');
+            if (await retryStages(this.client, this.run, failedStages)) {
+                await this.reloadAfterRetry();
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to rerun failed jobs: ${error}`);
+        }
+    }
 
-            if (failedStages.length === 0) {
-                vscode.window.showInformationMessage('No failed jobs found in this run');
+    private async retryStage(recordId: string) {
+        if (!LicenseManager.getInstance().isPremium()) {
+            LicenseManager.getInstance().showUpgradePrompt('Retry Stage');
+            return;
+        }
+        try {
+            const timeline = await this.client.getRunTimeline(this.run.id);
+            const stage = (timeline?.records || []).find(record => record.id === recordId);
+            if (!stage || !isRetryableStage(stage)) {
+                vscode.window.showInformationMessage('This stage can no longer be retried. Refresh to see its latest state.');
                 return;
             }
 
-            // Fetch pipeline data for the form
-            const [pipeline, branches, variables, stages, runtimeParameters] = await Promise.all([
-                this.client.getPipeline(pipelineId),
-                this.fetchBranches(pipelineId),
-                this.fetchVariables(pipelineId),
-                this.fetchStages(pipelineId),
-                this.fetchRuntimeParameters(pipelineId)
-            ]);
-
-            // Identify which stages to run (only the failed ones)
-            const stagesToRun = stages
-                .filter(stage => failedStages.some(failedStage => {
-                    const stageDisplayName = stage.displayName || stage.name;
-                    return failedStage.toLowerCase().includes(stageDisplayName.toLowerCase()) ||
-                           failedStage.toLowerCase().includes(stage.name.toLowerCase());
-                }))
-                .map(stage => stage.name);
+            if (await retryStages(this.client, this.run, [stage])) {
+                await this.reloadAfterRetry();
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to retry stage: ${error}`);
+        }
+    }
 
-            // Send data to webview to show the modal form with only failed stages pre-selected
-            this.panel.webview.postMessage({
-                command: 'showRunPipelineForm',
-                data: {
-                    pipeline,
-                    branches,
-                    variables,
-                    stages,
-                    runtimeParameters,
-                    defaultBranch: this.run.sourceBranch?.replace('refs/heads/', '') || 'main',
-                    preselectStages: stagesToRun.length > 0 ? stagesToRun : undefined,
-                    isRerunFailedJobs: true
-                }
-            });
+    /**
+     * Show the new attempt and follow it until the run completes again
+     */
+    private async reloadAfterRetry() {
+        try {
+            this.run = await this.client.getRun(this.run.id);
         } catch (error) {
-            vscode.window.showErrorMessage(`Failed to rerun failed jobs: ${error}`);
+            console.error('Failed to reload run after retry:', error);
+        }
+        await this.update();
+        vscode.commands.executeCommand('azurePipelines.refreshRuns');
+        if (!this.refreshInterval) {
+            this.startAutoRefresh();
         }
     }
 
@@ -604,7 +631,12 @@ export class RunDetailsPanel {
 </html>`;
     }
 
-    private getHtmlContent(records: TimelineRecord[], logs: any[], stageDeps: Array<{ name: string; dependsOn?: string[] }> = []): string {
+    private getHtmlContent(
+        records: TimelineRecord[],
+        logs: any[],
+        stageDeps: Array<{ name: string; dependsOn?: string[] }> = [],
+        waiting?: QueuedJobDiagnosis[]
+    ): string {
         const statusColor = this.getStatusColor(this.run.result || this.run.status);
 
         const stages = this.buildStageHierarchy(records, stageDeps);
@@ -831,6 +863,22 @@ export class RunDetailsPanel {
             font-size: 12px;
         }
         .log-link:hover { text-decoration: underline; }
+        .retry-stage-link {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            font-size: 12px;
+            margin-left: 12px;
+        }
+        .retry-stage-link:hover { text-decoration: underline; }
+        .attempt-badge {
+            font-size: 11px;
+            padding: 1px 6px;
+            margin-left: 8px;
+            border-radius: 8px;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            font-weight: normal;
+        }
 
         /* Top Header with Run New button and menu */
         .header-actions {
@@ -924,6 +972,24 @@ export class RunDetailsPanel {
             border-bottom: 1px solid var(--vscode-panel-border);
         }
         .issue:last-child { border-bottom: none; }
+        .queue-diagnosis {
+            margin: 20px 0;
+            padding: 16px;
+            background: var(--vscode-inputValidation-warningBackground);
+            border: 1px solid var(--vscode-inputValidation-warningBorder);
+            border-radius: 6px;
+            font-size: 13px;
+        }
+        .queue-diagnosis h3 { margin-bottom: 10px; }
+        .queue-diagnosis h4 { margin: 12px 0 6px 0; }
+        .queue-diagnosis ul { margin-left: 20px; }
+        .queue-diagnosis table { border-collapse: collapse; margin-top: 8px; width: 100%; }
+        .queue-diagnosis th, .queue-diagnosis td {
+            text-align: left;
+            padding: 4px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .queue-diagnosis .meta-text { color: var(--vscode-descriptionForeground); }
         .issue-type { font-weight: 600; margin-right: 8px; }
         .error { color: #dc3545; }
         .warning-text { color: #ffa500; }
@@ -1145,6 +1211,15 @@ export class RunDetailsPanel {
         .log-viewer-close:hover {
             opacity: 1;
         }
+        .log-viewer-actions {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+        }
+        .log-viewer-open {
+            padding: 4px 10px;
+            font-size: 12px;
+        }
         .log-viewer-content {
             flex: 1;
             overflow: auto;
@@ -1487,6 +1562,8 @@ export class RunDetailsPanel {
         </div>
     </div>
 
+    ${waiting ? this.renderQueueDiagnosis(waiting) : ''}
+
     <div class="summary-section">
         <div class="tabs" style="margin-bottom: 16px;">
             <div class="tab active" onclick="switchSummaryTab('summary')">Summary</div>
@@ -1565,7 +1642,10 @@ export class RunDetailsPanel {
         <div class="log-viewer-panel">
             <div class="log-viewer-header">
                 <div class="log-viewer-title" id="logViewerTitle">Task Log</div>
-                <button class="log-viewer-close" onclick="closeLogViewer()">×</button>
+                <div class="log-viewer-actions">
+                    <button class="log-viewer-open secondary" onclick="openLogInEditor()" title="Open in the editor to search, fold and compare logs">Open in Editor</button>
+                    <button class="log-viewer-close" onclick="closeLogViewer()">×</button>
+                </div>
             </div>
             <div class="log-viewer-content" id="logViewerContent">
                 <div class="log-loading">Loading log...</div>
@@ -1691,6 +1771,10 @@ export class RunDetailsPanel {
             vscode.postMessage({ command: 'rerunFailedJobs' });
         }
 
+        function retryStage(recordId) {
+            vscode.postMessage({ command: 'retryStage', recordId: recordId });
+        }
+
         function downloadLogs() {
             vscode.postMessage({ command: 'downloadLogs' });
             closeMenu();
@@ -1790,6 +1874,12 @@ export class RunDetailsPanel {
             isStreaming = false;
         }
 
+        function openLogInEditor() {
+            if (currentLogId) {
+                vscode.postMessage({ command: 'openLogInEditor', logId: currentLogId });
+            }
+        }
+
         function closeLogViewer() {
             const overlay = document.getElementById('logViewerOverlay');
             overlay.classList.remove('active');
@@ -2304,8 +2394,9 @@ export class RunDetailsPanel {
                 <div class="stage-header" onclick="toggleStage(this)">
                     <span class="expand-icon"></span>
                     <div class="stage-icon${isInProgress ? ' spinning' : ''}" style="background: ${statusColor}; color: white;">${iconHtml}</div>
-                    <span class="stage-name">${stage.name}</span>
+                    <span class="stage-name">${stage.name}${this.renderAttempt(stage)}</span>
                     <span class="stage-duration">${duration}</span>
+                    ${this.renderRetryStage(stage)}
                 </div>
                 <div class="stage-body">
                     ${stage.jobs.map((job: any) => this.renderJob(job)).join('')}
@@ -2314,6 +2405,21 @@ export class RunDetailsPanel {
         `;
     }
 
+    /**
+     * Attempt number of a retried stage or job
+     */
+    private renderAttempt(record: TimelineRecord): string {
+        return record.attempt && record.attempt > 1
+            ? `<span class="attempt-badge" title="Retried ${record.attempt - 1} time${record.attempt > 2 ? 's' : ''}">attempt ${record.attempt}</span>`
+            : '';
+    }
+
+    private renderRetryStage(stage: TimelineRecord): string {
+        return isRetryableStage(stage)
+            ? `<span class="retry-stage-link" onclick="event.stopPropagation(); retryStage('${stage.id}')">↻ Retry stage</span>`
+            : '';
+    }
+
     private renderJob(job: any): string {
         const status = job.result || job.state;
         const statusColor = this.getStatusColor(status);
@@ -2338,7 +2444,7 @@ export class RunDetailsPanel {
                     <div class="job-info">
                         <div class="stage-icon${isInProgress ? ' spinning' : ''}" style="background: ${statusColor}; color: white;">${iconHtml}</div>
                         <span style="flex: 1;">
-                            ${job.name}
+                            ${job.name}${this.renderAttempt(job)}
                             ${hasTasks ? `<span style="font-size: 11px; color: var(--vscode-descriptionForeground); margin-left: 8px;">(${completedTasks}/${taskCount} tasks)</span>` : ''}
                         </span>
                         <span class="stage-duration">${duration}</span>
@@ -2512,10 +2618,10 @@ export class RunDetailsPanel {
             <div class="stage-card">
                 <div class="stage-card-header">
                     <div class="stage-icon-small${isInProgress ? ' spinning' : ''}" style="background: ${statusColor}; color: white;">${iconHtml}</div>
-                    <div class="stage-card-title">${stage.name}</div>
+                    <div class="stage-card-title">${stage.name}${this.renderAttempt(stage)}</div>
                 </div>
                 <div class="stage-card-info">${jobCount} job${jobCount !== 1 ? 's' : ''} completed</div>
-                <div class="stage-card-duration">${duration}</div>
+                <div class="stage-card-duration">${duration}${this.renderRetryStage(stage)}</div>
             </div>
         `;
     }
@@ -2604,6 +2710,61 @@ export class RunDetailsPanel {
         `;
     }
 
+    private renderQueueDiagnosis(diagnoses: QueuedJobDiagnosis[]): string {
+        if (diagnoses.length === 0) {
+            return `
+            <div class="queue-diagnosis">
+                <h3>Waiting to start</h3>
+                <span>No job of this run is queued for an agent yet. It may be waiting for checks, approvals or a stage it depends on.</span>
+            </div>
+        `;
+        }
+
+        return `
+            <div class="queue-diagnosis">
+                <h3>Why is this run waiting?</h3>
+                ${diagnoses.map(diagnosis => {
+                    const usage = diagnosis.usage;
+                    return `
+                    <h4>Queued in ${this.escapeHtml(diagnosis.pool.name)} — position ${diagnosis.position} of ${diagnosis.queueLength}</h4>
+                    <ul>
+                        ${diagnosis.reasons.length > 0
+                            ? diagnosis.reasons.map(reason => `<li>${this.escapeHtml(reason)}</li>`).join('')
+                            : '<li>An agent should pick this job up shortly.</li>'}
+                    </ul>
+                    ${usage && usage.resourceLimit.totalCount > 0 ? `
+                        <div class="meta-text">Parallel jobs in use: ${usage.usedCount} of ${usage.resourceLimit.totalCount}</div>
+                    ` : ''}
+                    ${diagnosis.agents.length > 0 ? `
+                        <table>
+                            <tr><th>Agent</th><th>Status</th><th>Unmet demands</th></tr>
+                            ${diagnosis.agents.map(match => `
+                                <tr>
+                                    <td>${this.escapeHtml(match.agent.name)}</td>
+                                    <td>${!match.agent.enabled ? 'disabled' : match.agent.assignedRequest ? 'busy' : match.agent.status}</td>
+                                    <td>${match.unmet.length === 0
+                                        ? '✓ meets all demands'
+                                        : match.unmet.map(result => this.escapeHtml(
+                                            formatDemand(result.demand) + (result.actual !== undefined ? ` (has ${result.actual})` : ' (missing)')
+                                        )).join('<br>')}</td>
+                                </tr>
+                            `).join('')}
+                        </table>
+                    ` : ''}
+                `;
+                }).join('')}
+            </div>
+        `;
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
     private getStatusIcon(status: string): string {
         const s = String(status).toLowerCase();
         if (s === 'succeeded') return 'success';
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { AzureDevOpsClient } from '../api/azureDevOpsClient';
-import { Pipeline, RuntimeParameter } from '../models/types';
+import { Pipeline, PipelineRun, RuntimeParameter } from '../models/types';
 import { LicenseManager } from '../services/licenseManager';
 
 /**
@@ -16,7 +16,8 @@ export class RunPipelineModal {
         panel: vscode.WebviewPanel,
         private client: AzureDevOpsClient,
         private pipeline: Pipeline,
-        private sourceBranch?: string
+        private sourceBranch?: string,
+        private onRunQueued?: (run: PipelineRun) => void
     ) {
         this.panel = panel;
         this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
@@ -42,7 +43,8 @@ export class RunPipelineModal {
     public static async show(
         client: AzureDevOpsClient,
         pipeline: Pipeline,
-        sourceBranch?: string
+        sourceBranch?: string,
+        onRunQueued?: (run: PipelineRun) => void
     ): Promise<void> {
         const column = vscode.window.activeTextEditor?.viewColumn || vscode.ViewColumn.One;
 
@@ -52,6 +54,7 @@ export class RunPipelineModal {
             RunPipelineModal.currentPanel.pipeline = pipeline;
             RunPipelineModal.currentPanel.sourceBranch = sourceBranch;
             RunPipelineModal.currentPanel.client = client;
+            RunPipelineModal.currentPanel.onRunQueued = onRunQueued;
             await RunPipelineModal.currentPanel.initialize();
             return;
         }
@@ -67,7 +70,7 @@ export class RunPipelineModal {
             }
         );
 
-        RunPipelineModal.currentPanel = new RunPipelineModal(panel, client, pipeline, sourceBranch);
+        RunPipelineModal.currentPanel = new RunPipelineModal(panel, client, pipeline, sourceBranch, onRunQueued);
     }
 
     private async initialize() {
@@ -292,6 +295,7 @@ export class RunPipelineModal {
             }
 
             const newRun = await this.client.runPipeline(this.pipeline.id, options);
+            this.onRunQueued?.(newRun);
 
             // Close the modal
             this.panel.dispose();